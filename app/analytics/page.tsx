@@ -0,0 +1,323 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { AnalyticsDataset, AnalyticsReport, SeriesPoint } from '@/lib/analytics'
+import { SOURCE_LABELS } from '@/lib/display'
+import { INTENT_LABELS } from '@/lib/intent'
+import { Intent, INTENTS, RISK_LEVELS, RiskLevel } from '@/lib/schema'
+import type { WorkspaceSummary } from '@/lib/workspaces'
+
+const inputClass = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+const RISK_BAR_COLORS: Record<RiskLevel, string> = {
+  Safe: 'bg-green-500',
+  Suspicious: 'bg-yellow-400',
+  'High Risk Fraud': 'bg-red-500'
+}
+
+const INTENT_BAR_COLORS: Record<Intent, string> = {
+  inquiry: 'bg-slate-400',
+  sales_lead: 'bg-blue-500',
+  complaint: 'bg-orange-500',
+  support_request: 'bg-teal-500',
+  negotiation: 'bg-purple-500',
+  risk: 'bg-red-500'
+}
+
+const RANGES = [7, 30, 90, 365]
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function percent(value?: number): string {
+  return value === undefined ? '—' : `${Math.round(value * 1000) / 10}%`
+}
+
+function hours(value?: number): string {
+  if (value === undefined) return '—'
+  return value >= 48 ? `${Math.round(value / 24 * 10) / 10} days` : `${value} hours`
+}
+
+function StackedBars<K extends string>({ series, keys, counts, colors, labels }: {
+  series: SeriesPoint[]
+  keys: readonly K[]
+  counts: (point: SeriesPoint) => Record<K, number>
+  colors: Record<K, string>
+  labels: Record<K, string>
+}) {
+  const peak = Math.max(...series.map(point => point.total), 1)
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {series.map(point => (
+          <div key={point.period} className="flex-1 h-full flex flex-col justify-end" title={`${point.period}: ${point.total}`}>
+            {[...keys].reverse().map(key => counts(point)[key] > 0 && (
+              <div key={key} className={colors[key]} style={{ height: `${(counts(point)[key] / peak) * 100}%` }} title={`${point.period} · ${labels[key]}: ${counts(point)[key]}`} />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-1">
+        <span>{series[0]?.period}</span>
+        <span>{series[series.length - 1]?.period}</span>
+      </div>
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-600 dark:text-slate-300">
+        {keys.map(key => (
+          <span key={key} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${colors[key]}`} />
+            {labels[key]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function Panel({ title, description, exportHref, children }: { title: string, description?: string, exportHref: string, children: React.ReactNode }) {
+  return (
+    <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+      <div className="flex items-baseline justify-between mb-1">
+        <h2 className="text-xl font-semibold text-slate-900 dark:text-white">{title}</h2>
+        <a href={exportHref} className="text-sm text-blue-600 hover:underline">Export CSV</a>
+      </div>
+      {description && <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{description}</p>}
+      {children}
+    </section>
+  )
+}
+
+export default function AnalyticsPage() {
+  const [report, setReport] = useState<AnalyticsReport | undefined>()
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [filters, setFilters] = useState({ since: daysAgo(29), until: daysAgo(0), interval: '', workspace: '' })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const query = new URLSearchParams(Object.entries(filters).filter(([, value]) => value)).toString()
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/analytics?${query}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load analytics')
+      setReport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [query])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    const loadWorkspaces = async () => {
+      try {
+        const response = await fetch('/api/auth/session')
+        if (response.ok) setWorkspaces((await response.json()).workspaces)
+      } catch (err) {
+        console.error(err)
+      }
+    }
+    loadWorkspaces()
+  }, [])
+
+  const updateFilter = (name: keyof typeof filters, value: string) => {
+    setFilters(current => ({ ...current, [name]: value }))
+  }
+
+  const exportHref = (dataset: AnalyticsDataset) => `/api/analytics/export?${query}${query ? '&' : ''}dataset=${dataset}`
+  const peakScore = Math.max(...(report?.leads.distribution.map(bucket => bucket.count) || []), 1)
+  const peakDomain = Math.max(...(report?.senderDomains.map(stats => stats.total) || []), 1)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <header className="mb-2">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Analytics
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Risk and lead trends across stored analyses. Dates are whole days in UTC.
+          </p>
+        </header>
+
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4 flex flex-wrap gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">From</label>
+            <input type="date" value={filters.since} max={filters.until} onChange={(e) => updateFilter('since', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">To</label>
+            <input type="date" value={filters.until} min={filters.since} onChange={(e) => updateFilter('until', e.target.value)} className={inputClass} />
+          </div>
+          <div className="flex gap-1">
+            {RANGES.map(days => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => setFilters(current => ({ ...current, since: daysAgo(days - 1), until: daysAgo(0) }))}
+                className="px-2 py-2 text-xs font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg"
+              >
+                {days}d
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Interval</label>
+            <select value={filters.interval} onChange={(e) => updateFilter('interval', e.target.value)} className={inputClass}>
+              <option value="">Automatic</option>
+              <option value="day">Daily</option>
+              <option value="week">Weekly</option>
+            </select>
+          </div>
+          {workspaces.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Workspace</label>
+              <select value={filters.workspace} onChange={(e) => updateFilter('workspace', e.target.value)} className={inputClass}>
+                <option value="">Current workspace</option>
+                <option value="all">All my workspaces</option>
+                {workspaces.map(workspace => <option key={workspace.id} value={workspace.id}>{workspace.name}</option>)}
+              </select>
+            </div>
+          )}
+          {loading && <span className="text-sm text-slate-500 dark:text-slate-400 pb-2">Loading…</span>}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Analyses', value: report.totals.analyses.toLocaleString() },
+                { label: 'High risk fraud', value: report.totals.risk['High Risk Fraud'].toLocaleString() },
+                { label: 'Average lead score', value: report.leads.averageScore?.toString() ?? '—' },
+                { label: 'False positive rate', value: percent(report.reviews.falsePositiveRate) }
+              ].map(card => (
+                <div key={card.label} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-4">
+                  <div className="text-sm text-slate-500 dark:text-slate-400">{card.label}</div>
+                  <div className="text-2xl font-bold text-slate-900 dark:text-white">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <Panel title="Risk Levels" description={`Analyses per ${report.range.interval}, ${report.range.since} to ${report.range.until}.`} exportHref={exportHref('series')}>
+              <StackedBars series={report.series} keys={RISK_LEVELS} counts={point => point.risk} colors={RISK_BAR_COLORS} labels={Object.fromEntries(RISK_LEVELS.map(level => [level, level])) as Record<RiskLevel, string>} />
+            </Panel>
+
+            <Panel title="Intents" description={`Primary intent of analyses per ${report.range.interval}.`} exportHref={exportHref('series')}>
+              <StackedBars series={report.series} keys={INTENTS} counts={point => point.intents} colors={INTENT_BAR_COLORS} labels={INTENT_LABELS} />
+            </Panel>
+
+            <Panel title="Top Sender Domains" description="Domains sending the most risky messages. Only messages with a known sender address are counted." exportHref={exportHref('domains')}>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                    <th className="py-2">Domain</th>
+                    <th className="py-2 text-right">Analyses</th>
+                    <th className="py-2 text-right">High risk</th>
+                    <th className="py-2 text-right">Suspicious</th>
+                    <th className="py-2 text-right">Risk rate</th>
+                    <th className="py-2 w-1/4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.senderDomains.length === 0 && (
+                    <tr><td colSpan={6} className="py-3 text-slate-500 dark:text-slate-400">No sender addresses in this range</td></tr>
+                  )}
+                  {report.senderDomains.map(stats => (
+                    <tr key={stats.domain} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                      <td className="py-2 font-mono text-xs">{stats.domain}</td>
+                      <td className="py-2 text-right">{stats.total}</td>
+                      <td className="py-2 text-right">{stats.highRisk}</td>
+                      <td className="py-2 text-right">{stats.suspicious}</td>
+                      <td className="py-2 text-right">{percent(stats.riskRate)}</td>
+                      <td className="py-2 pl-4">
+                        <div className="flex h-2 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-700" style={{ width: `${(stats.total / peakDomain) * 100}%` }}>
+                          <div className="bg-red-500" style={{ width: `${(stats.highRisk / stats.total) * 100}%` }} />
+                          <div className="bg-yellow-400" style={{ width: `${(stats.suspicious / stats.total) * 100}%` }} />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Panel>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Panel title="Lead Scores" description={`${report.leads.total} analyses with a lead score.`} exportHref={exportHref('leads')}>
+                <div className="flex items-end gap-1 h-32">
+                  {report.leads.distribution.map(bucket => (
+                    <div key={bucket.score} className="flex-1 h-full flex flex-col justify-end" title={`Score ${bucket.score}: ${bucket.count}`}>
+                      <div className="bg-blue-500 rounded-t" style={{ height: `${(bucket.count / peakScore) * 100}%` }} />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-1 text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {report.leads.distribution.map(bucket => <span key={bucket.score} className="flex-1 text-center">{bucket.score}</span>)}
+                </div>
+                <table className="w-full text-sm mt-4">
+                  <tbody>
+                    {report.leads.bySource.map(source => (
+                      <tr key={source.source} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                        <td className="py-2">{SOURCE_LABELS[source.source]}</td>
+                        <td className="py-2 text-right">{source.leads} leads</td>
+                        <td className="py-2 text-right">average {source.averageScore ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </Panel>
+
+              <Panel title="Reviewer Labels" description="False positive rate is the share of reviewed flagged analyses marked as false positives." exportHref={exportHref('reviews')}>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                      <th className="py-2">Verdict</th>
+                      <th className="py-2 text-right">Reviewed</th>
+                      <th className="py-2 text-right">Confirmed</th>
+                      <th className="py-2 text-right">False positive</th>
+                      <th className="py-2 text-right">FP rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.reviews.byRiskLevel.map(stats => (
+                      <tr key={stats.riskLevel} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                        <td className="py-2">{stats.riskLevel}</td>
+                        <td className="py-2 text-right">{stats.reviewed} of {stats.total}</td>
+                        <td className="py-2 text-right">{stats.confirmedFraud}</td>
+                        <td className="py-2 text-right">{stats.falsePositive}</td>
+                        <td className="py-2 text-right">{percent(stats.falsePositiveRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <h3 className="text-sm font-semibold text-slate-900 dark:text-white mt-6 mb-2">Complaint Handling</h3>
+                <div className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                  <div>{report.complaints.total} complaints: {report.complaints.handled} handled, {report.complaints.open} open</div>
+                  <div>Time to handle: average {hours(report.complaints.averageHoursToHandle)}, median {hours(report.complaints.medianHoursToHandle)}</div>
+                </div>
+              </Panel>
+            </div>
+
+            <div className="text-right">
+              <a href={exportHref('analyses')} className="text-sm text-blue-600 hover:underline">Export all analyses in range as CSV</a>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
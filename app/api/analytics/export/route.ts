@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyticsCsv, AnalyticsInputError } from '@/lib/analytics'
+import { AuthError, requireAuth, selectWorkspaces } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'viewer')
+    const params = request.nextUrl.searchParams
+    const dataset = params.get('dataset') || 'series'
+    const workspaces = await selectWorkspaces(auth, params.get('workspace'))
+    const csv = await analyticsCsv(workspaces, {
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+      interval: params.get('interval') || undefined
+    }, dataset)
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="analytics-${dataset}.csv"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AnalyticsInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Analytics export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export analytics' },
+      { status: 500 }
+    )
+  }
+}
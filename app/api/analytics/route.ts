@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnalyticsInputError, analyticsReport } from '@/lib/analytics'
+import { AuthError, requireAuth, selectWorkspaces } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'viewer')
+    const params = request.nextUrl.searchParams
+    const workspaces = await selectWorkspaces(auth, params.get('workspace'))
+    const report = await analyticsReport(workspaces, {
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+      interval: params.get('interval') || undefined
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AnalyticsInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Analytics error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load analytics' },
+      { status: 500 }
+    )
+  }
+}
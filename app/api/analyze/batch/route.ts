@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnalysisInputError } from '@/lib/analyze'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { BatchInputError, BatchItem, BatchItemResult, CsvColumnMapping, csvToItems, mapWithConcurrency, splitMbox } from '@/lib/batch'
+import { analyzeAndRecord } from '@/lib/history'
+import { enforceRateLimit, RateLimitError, rateLimitHeaders } from '@/lib/ratelimit'
+
+const MAX_BATCH_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || '500')
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '4')
+
+function optionalText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string') throw new BatchInputError(`${field} must be a string`)
+  return value
+}
+
+function readItem(item: unknown, index: number): BatchItem {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    throw new BatchInputError(`Item ${index + 1} must be an object`)
+  }
+
+  const { message, senderInfo, context } = item as Record<string, unknown>
+  return {
+    message: optionalText(message, `Item ${index + 1} message`),
+    senderInfo: optionalText(senderInfo, `Item ${index + 1} senderInfo`),
+    context: optionalText(context, `Item ${index + 1} context`)
+  }
+}
+
+function readColumns(value: unknown): Partial<CsvColumnMapping> {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value) || Object.values(value).some(name => typeof name !== 'string')) {
+    throw new BatchInputError('Columns must map fields to CSV column names')
+  }
+  return value as Partial<CsvColumnMapping>
+}
+
+function collectItems(body: Record<string, unknown>): BatchItem[] {
+  if (Array.isArray(body.items)) {
+    return body.items.map(readItem)
+  }
+
+  if (typeof body.csv === 'string') {
+    return csvToItems(body.csv, readColumns(body.columns))
+  }
+
+  if (typeof body.mbox === 'string') {
+    return splitMbox(body.mbox).map(rawEmail => ({ rawEmail }))
+  }
+
+  throw new BatchInputError('Provide items, csv or mbox')
+}
+
+function previewOf(item: BatchItem): string {
+  const text = item.rawEmail
+    ? item.rawEmail.match(/^subject:\s*(.*)$/im)?.[1] || ''
+    : item.message || ''
+  return text.replace(/\s+/g, ' ').trim().slice(0, 120)
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'analyst')
+    const json: unknown = await request.json()
+    const body = (json && typeof json === 'object' ? json : {}) as Record<string, unknown>
+    const items = collectItems(body)
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'Batch contains no items' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_BATCH_ITEMS) {
+      return NextResponse.json(
+        { error: `Batch is limited to ${MAX_BATCH_ITEMS} items` },
+        { status: 400 }
+      )
+    }
+
+    const rateLimit = enforceRateLimit(auth, items.length)
+    const sharedContext = typeof body.context === 'string' ? body.context : undefined
+
+    const results = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item, index): Promise<BatchItemResult> => {
+      const base = { index, senderInfo: item.senderInfo, preview: previewOf(item) }
+      try {
+        const result = await analyzeAndRecord(auth.workspaceId, { ...item, context: item.context || sharedContext })
+        return { ...base, result }
+      } catch (error) {
+        console.error(`Batch item ${index} failed:`, error)
+        return { ...base, error: error instanceof AnalysisInputError ? error.message : 'Failed to analyze message' }
+      }
+    })
+
+    const failed = results.filter(item => item.error).length
+
+    return NextResponse.json({
+      results,
+      summary: {
+        total: results.length,
+        succeeded: results.length - failed,
+        failed
+      }
+    }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds), ...rateLimitHeaders({ limit: error.limit, remaining: 0 }) } }
+      )
+    }
+
+    if (error instanceof BatchInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Batch analysis error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze batch' },
+      { status: 500 }
+    )
+  }
+}
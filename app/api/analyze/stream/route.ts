@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnalysisInputError } from '@/lib/analyze'
+import { AuthContext, AuthError, requireAuth } from '@/lib/auth'
+import { analyzeAndRecord } from '@/lib/history'
+import { enforceRateLimit, RateLimitError, rateLimitHeaders, RateLimitState } from '@/lib/ratelimit'
+import { formatServerSentEvent } from '@/lib/sse'
+
+// The verdict guards and the beneficiary check can still change these after
+// the model answers, so they only arrive with the final result.
+const VERDICT_FIELDS = ['riskLevel', 'intent', 'reason', 'recommendedAction', 'replies', 'leadQualityScore']
+
+export async function POST(request: NextRequest) {
+  let auth: AuthContext
+  let rateLimit: RateLimitState | undefined
+  try {
+    auth = await requireAuth(request, 'analyst')
+    rateLimit = enforceRateLimit(auth)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds), ...rateLimitHeaders({ limit: error.limit, remaining: 0 }) } }
+      )
+    }
+    throw error
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A client that went away leaves nothing to write to; the analysis still completes and is recorded.
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        const result = await analyzeAndRecord(auth.workspaceId, body || {}, {
+          evidence: evidence => send('evidence', evidence),
+          field: (name, value) => {
+            if (!VERDICT_FIELDS.includes(name)) send('field', { name, value })
+          },
+          reset: () => send('reset', {})
+        })
+        send('result', result)
+      } catch (error) {
+        if (error instanceof AnalysisInputError) {
+          send('error', { error: error.message })
+        } else {
+          console.error('Streaming analysis error:', error)
+          send('error', { error: 'Failed to analyze message' })
+        }
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      ...rateLimitHeaders(rateLimit)
+    }
+  })
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, createSession, loginWithPassword, sessionCookie } from '@/lib/auth'
+import { publicUser } from '@/lib/users'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json()
+    const user = await loginWithPassword(email, password)
+    const { token, expiresAt } = await createSession(user)
+
+    const response = NextResponse.json({ user: publicUser(user) })
+    response.cookies.set(sessionCookie(token, expiresAt, request.nextUrl.protocol === 'https:'))
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
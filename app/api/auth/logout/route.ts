@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endSession, SESSION_COOKIE, sessionTokenOf } from '@/lib/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    await endSession(sessionTokenOf(request))
+  } catch (error) {
+    console.error('Logout error:', error)
+  }
+
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, createSession, sessionCookie } from '@/lib/auth'
+import { completeOidcLogin, oidcConfigFromEnv } from '@/lib/oidc'
+
+function loginError(request: NextRequest, message: string) {
+  const url = new URL('/login', request.url)
+  url.searchParams.set('error', message)
+  return NextResponse.redirect(url)
+}
+
+export async function GET(request: NextRequest) {
+  const config = oidcConfigFromEnv()
+  if (!config) return loginError(request, 'OIDC sign-in is not configured')
+
+  try {
+    const { user, returnTo } = await completeOidcLogin(config, request.nextUrl.searchParams)
+    const { token, expiresAt } = await createSession(user)
+
+    const response = NextResponse.redirect(new URL(returnTo, request.url))
+    response.cookies.set(sessionCookie(token, expiresAt, request.nextUrl.protocol === 'https:'))
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) return loginError(request, error.message)
+
+    console.error('OIDC callback error:', error)
+    return loginError(request, 'Sign-in with the identity provider failed')
+  }
+}
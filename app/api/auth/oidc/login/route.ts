@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { beginOidcLogin, oidcConfigFromEnv } from '@/lib/oidc'
+
+export async function GET(request: NextRequest) {
+  const config = oidcConfigFromEnv()
+  if (!config) {
+    return NextResponse.json(
+      { error: 'OIDC sign-in is not configured' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    return NextResponse.redirect(await beginOidcLogin(config, request.nextUrl.searchParams.get('returnTo')))
+  } catch (error) {
+    console.error('OIDC login error:', error)
+    return NextResponse.redirect(new URL('/login?error=The identity provider is unavailable', request.url))
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth, sessionTokenOf, SessionInfo, setupRequired, switchWorkspace } from '@/lib/auth'
+import { oidcConfigFromEnv } from '@/lib/oidc'
+import { workspacesFor } from '@/lib/workspaces'
+
+// Signed-out callers also learn whether setup is pending and OIDC is
+// available, which is all the login page needs.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'viewer')
+    const session: SessionInfo = { ...auth, workspaces: auth.user ? await workspacesFor(auth.user.id) : [] }
+
+    return NextResponse.json(session)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message, setupRequired: await setupRequired(), oidcEnabled: !!oidcConfigFromEnv() },
+        { status: error.status }
+      )
+    }
+
+    console.error('Session load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = await request.json()
+
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      return NextResponse.json(
+        { error: 'workspaceId is required' },
+        { status: 400 }
+      )
+    }
+
+    await switchWorkspace(sessionTokenOf(request), workspaceId)
+    return NextResponse.json({ workspaceId })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Workspace switch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    )
+  }
+}
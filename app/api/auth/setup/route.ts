@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, createSession, sessionCookie, setupFirstAdmin } from '@/lib/auth'
+import { AccountInputError, publicUser } from '@/lib/users'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const user = await setupFirstAdmin(body || {})
+    const { token, expiresAt } = await createSession(user)
+
+    const response = NextResponse.json({ user: publicUser(user) }, { status: 201 })
+    response.cookies.set(sessionCookie(token, expiresAt, request.nextUrl.protocol === 'https:'))
+    return response
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Setup error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create the admin account' },
+      { status: 500 }
+    )
+  }
+}
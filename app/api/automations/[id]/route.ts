@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AutomationInputError, deleteAutomationRule, updateAutomationRule } from '@/lib/automation'
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const rule = await updateAutomationRule(workspaceId, params.id, body)
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Automation rule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AutomationInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Automation rule update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update automation rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    if (!await deleteAutomationRule(workspaceId, params.id)) {
+      return NextResponse.json(
+        { error: 'Automation rule not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AutomationInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Automation rule delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete automation rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { retryDelivery } from '@/lib/automation'
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const delivery = await retryDelivery(workspaceId, params.id)
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    const { action, payload, ...entry } = delivery
+    return NextResponse.json({ ...entry, actionType: action.type })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Delivery retry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry delivery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { listDeliveries, retryDueDeliveries } from '@/lib/automation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '200') || 200, 1000)
+    return NextResponse.json({ deliveries: await listDeliveries(workspaceId, limit) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Delivery log load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load delivery log' },
+      { status: 500 }
+    )
+  }
+}
+
+// Lets a cron job with an admin API key drive retries when the server has
+// been restarted.
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json({ retried: await retryDueDeliveries(workspaceId) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Delivery retry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AutomationInputError, createAutomationRule, listAutomationRules } from '@/lib/automation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    return NextResponse.json({ rules: await listAutomationRules(workspaceId) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Automation rules load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load automation rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const rule = await createAutomationRule(workspaceId, body)
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AutomationInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Automation rule create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create automation rule' },
+      { status: 500 }
+    )
+  }
+}
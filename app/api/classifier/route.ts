@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { CLASSIFIER_CONFIDENCE, ClassifierInputError, listClassifierVersions, MIN_TRAINING_EXAMPLES, trainClassifier } from '@/lib/classifier'
+import { getHistoryRecords } from '@/lib/history'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    const versions = await listClassifierVersions(workspaceId)
+
+    return NextResponse.json({
+      current: versions[0],
+      versions,
+      minTrainingExamples: MIN_TRAINING_EXAMPLES,
+      confidence: CLASSIFIER_CONFIDENCE
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Classifier load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load classifier' },
+      { status: 500 }
+    )
+  }
+}
+
+// Feedback retrains on its own; this is for retraining on demand.
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const model = await trainClassifier(workspaceId, await getHistoryRecords(workspaceId))
+
+    return NextResponse.json(model, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof ClassifierInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Classifier training error:', error)
+    return NextResponse.json(
+      { error: 'Failed to train classifier' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { saveFeedback } from '@/lib/history'
+import { Intent, INTENTS, RISK_LEVELS, RiskLevel } from '@/lib/schema'
+
+// Either { correct: true } or the right riskLevel and/or intent.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'analyst')
+    const body: unknown = await request.json()
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Feedback must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const { correct, riskLevel, intent } = body as Record<string, unknown>
+
+    if (correct !== undefined && typeof correct !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Correct must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    if (riskLevel !== undefined && !RISK_LEVELS.includes(riskLevel as RiskLevel)) {
+      return NextResponse.json(
+        { error: `Risk level must be one of: ${RISK_LEVELS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (intent !== undefined && !INTENTS.includes(intent as Intent)) {
+      return NextResponse.json(
+        { error: `Intent must be one of: ${INTENTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (correct === true && (riskLevel !== undefined || intent !== undefined)) {
+      return NextResponse.json(
+        { error: 'A result marked correct keeps its own risk level and intent' },
+        { status: 400 }
+      )
+    }
+
+    if (correct !== true && riskLevel === undefined && intent === undefined) {
+      return NextResponse.json(
+        { error: 'Mark the result as correct or give the right risk level or intent' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await saveFeedback(workspaceId, params.id, { riskLevel: riskLevel as RiskLevel | undefined, intent: intent as Intent | undefined })
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Feedback must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Feedback save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save feedback' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { getHistoryRecord, REVIEW_STATUSES, reviewHistoryRecord, ReviewStatus } from '@/lib/history'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    const record = await getHistoryRecord(workspaceId, params.id)
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('History load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load analysis' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'analyst')
+    const { status, notes } = await request.json()
+
+    if (status !== undefined && !REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (notes !== undefined && typeof notes !== 'string') {
+      return NextResponse.json(
+        { error: 'Notes must be a string' },
+        { status: 400 }
+      )
+    }
+
+    const record = await reviewHistoryRecord(workspaceId, params.id, { status: status as ReviewStatus | undefined, notes })
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('History review error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review' },
+      { status: 500 }
+    )
+  }
+}
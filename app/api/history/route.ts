@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { HistoryQuery, queryHistory } from '@/lib/history'
+
+function numberParam(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    const params = request.nextUrl.searchParams
+    const query: HistoryQuery = {
+      riskLevel: params.get('riskLevel') || undefined,
+      intent: params.get('intent') || undefined,
+      minScore: numberParam(params.get('minScore')),
+      maxScore: numberParam(params.get('maxScore')),
+      sender: params.get('sender') || undefined,
+      q: params.get('q') || undefined,
+      status: params.get('status') || undefined,
+      source: params.get('source') || undefined,
+      campaign: params.get('campaign') || undefined,
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+      limit: Math.min(numberParam(params.get('limit')) || 50, 500),
+      offset: numberParam(params.get('offset'))
+    }
+
+    return NextResponse.json(await queryHistory(workspaceId, query))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('History query error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load history' },
+      { status: 500 }
+    )
+  }
+}
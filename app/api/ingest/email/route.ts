@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiKey, AuthError, requireAuth, requireRole } from '@/lib/auth'
+import { ingestEmail, IngestInputError, normalizeWebhookPayload } from '@/lib/ingest'
+import { enforceRateLimit, RateLimitError, rateLimitHeaders } from '@/lib/ratelimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Mail gateways that can't set headers pass the workspace API key as ?token=.
+    const token = request.nextUrl.searchParams.get('token')
+    const auth = token
+      ? requireRole(await authenticateApiKey(token), 'analyst')
+      : await requireAuth(request, 'analyst')
+    const rateLimit = enforceRateLimit(auth)
+
+    const isJson = (request.headers.get('content-type') || 'application/json').includes('json')
+    const payload = isJson ? await request.json() : await request.text()
+    const outcome = await ingestEmail(auth.workspaceId, normalizeWebhookPayload(payload), 'webhook')
+
+    return NextResponse.json(outcome, { status: outcome.status === 'analyzed' ? 201 : 200, headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds), ...rateLimitHeaders({ limit: error.limit, remaining: 0 }) } }
+      )
+    }
+
+    if (error instanceof IngestInputError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Ingest error:', error)
+    return NextResponse.json(
+      { error: 'Failed to ingest message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { deleteKnownPayee, PaymentInputError, updateKnownPayee } from '@/lib/payments'
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const payee = await updateKnownPayee(workspaceId, params.id, body)
+
+    if (!payee) {
+      return NextResponse.json(
+        { error: 'Known payee not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(payee)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof PaymentInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Known payee update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update known payee' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    if (!await deleteKnownPayee(workspaceId, params.id)) {
+      return NextResponse.json(
+        { error: 'Known payee not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Known payee delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete known payee' },
+      { status: 500 }
+    )
+  }
+}
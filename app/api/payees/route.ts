@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { createKnownPayee, listKnownPayees, PaymentInputError } from '@/lib/payments'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    return NextResponse.json({ payees: await listKnownPayees(workspaceId) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Known payees load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load known payees' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const payee = await createKnownPayee(workspaceId, body)
+
+    return NextResponse.json(payee, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof PaymentInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Known payee create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create known payee' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { getProfile, ProfileInputError, saveProfile } from '@/lib/profile'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    return NextResponse.json(await getProfile(workspaceId))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Profile load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const profile = await saveProfile(workspaceId, body)
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof ProfileInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Profile save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { updateQueueItem } from '@/lib/automation'
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'analyst')
+    const { status } = await request.json()
+
+    if (status !== 'open' && status !== 'done') {
+      return NextResponse.json(
+        { error: 'Status must be one of: open, done' },
+        { status: 400 }
+      )
+    }
+
+    const item = await updateQueueItem(workspaceId, params.id, status)
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Queue item not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(item)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Queue update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update queue item' },
+      { status: 500 }
+    )
+  }
+}
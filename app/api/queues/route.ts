@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { listQueueItems } from '@/lib/automation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'viewer')
+    const params = request.nextUrl.searchParams
+    const items = await listQueueItems(workspaceId, {
+      queue: params.get('queue') || undefined,
+      status: params.get('status') || undefined
+    })
+
+    return NextResponse.json({ items })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Queue load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load queues' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { enforceRateLimit, RateLimitError, rateLimitHeaders } from '@/lib/ratelimit'
+import { regenerateReply, ReplyInputError } from '@/lib/replies'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'analyst')
+    const rateLimit = enforceRateLimit(auth)
+    const body = await request.json()
+    const result = await regenerateReply(auth.workspaceId, body)
+
+    return NextResponse.json(result, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds), ...rateLimitHeaders({ limit: error.limit, remaining: 0 }) } }
+      )
+    }
+
+    if (error instanceof ReplyInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Reply regeneration error:', error)
+    return NextResponse.json(
+      { error: 'Failed to regenerate reply' },
+      { status: 500 }
+    )
+  }
+}
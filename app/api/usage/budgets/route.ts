@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { resetBudgets, saveBudgets, UsageInputError } from '@/lib/usage'
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+
+    return NextResponse.json(await saveBudgets(workspaceId, body))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof UsageInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Budget save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save budgets' },
+      { status: 500 }
+    )
+  }
+}
+
+// Goes back to the server-wide budgets.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json(await resetBudgets(workspaceId))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Budget reset error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset budgets' },
+      { status: 500 }
+    )
+  }
+}
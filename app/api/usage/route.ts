@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { usageReport } from '@/lib/usage'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30')
+
+    return NextResponse.json(await usageReport(workspaceId, Number.isFinite(days) ? days : 30))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Usage report error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth, revokeApiKey } from '@/lib/auth'
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+
+    if (!await revokeApiKey(workspaceId, params.id)) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('API key revoke error:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
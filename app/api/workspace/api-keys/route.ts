@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, createApiKey, listApiKeys, requireAuth } from '@/lib/auth'
+import { AccountInputError } from '@/lib/users'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json({ apiKeys: await listApiKeys(workspaceId) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('API key list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const created = await createApiKey(workspaceId, body || {})
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('API key create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
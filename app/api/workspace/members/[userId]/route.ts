@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AccountInputError } from '@/lib/users'
+import { removeMember, setMemberRole } from '@/lib/workspaces'
+
+export async function PATCH(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const { role } = await request.json()
+
+    if (!await setMemberRole(workspaceId, params.userId, role)) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ userId: params.userId, role })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Member update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+
+    if (!await removeMember(workspaceId, params.userId)) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Member remove error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+}
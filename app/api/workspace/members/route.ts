@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AccountInputError } from '@/lib/users'
+import { addMember, listMembers } from '@/lib/workspaces'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json({ members: await listMembers(workspaceId) })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Member list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load members' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+    const member = await addMember(workspaceId, body || {})
+
+    return NextResponse.json(member, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Member add error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add member' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AccountInputError } from '@/lib/users'
+import { describeWorkspaceProviders, resetWorkspaceProviders, saveWorkspaceProviders } from '@/lib/workspaces'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json(await describeWorkspaceProviders(workspaceId))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Provider settings load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load provider settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    const body = await request.json()
+
+    return NextResponse.json(await saveWorkspaceProviders(workspaceId, body))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Provider settings save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save provider settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// Goes back to the server-wide providers.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { workspaceId } = await requireAuth(request, 'admin')
+    return NextResponse.json(await resetWorkspaceProviders(workspaceId))
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Provider settings reset error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset provider settings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, requireAuth } from '@/lib/auth'
+import { AccountInputError } from '@/lib/users'
+import { createWorkspace, workspacesFor } from '@/lib/workspaces'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request, 'viewer')
+    return NextResponse.json({ workspaces: user ? await workspacesFor(user.id) : [] })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Workspace list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load workspaces' },
+      { status: 500 }
+    )
+  }
+}
+
+// Admins can start new workspaces, which they then administer on their own.
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth(request, 'admin')
+    if (!user) throw new AuthError('Workspaces can only be created by a signed-in user', 403)
+
+    const { name } = await request.json()
+    const workspace = await createWorkspace(name, user.id)
+
+    return NextResponse.json({ id: workspace.id, name: workspace.name, role: 'admin' }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    if (error instanceof AccountInputError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Workspace create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    )
+  }
+}
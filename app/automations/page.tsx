@@ -0,0 +1,415 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { AutomationAction, AutomationRule, AutomationRuleInput, DeliveryLogEntry, DeliveryStatus, QueueItem } from '@/lib/automation'
+import { describeAction, describeConditions, getRiskColor } from '@/lib/display'
+import { INTENT_LABELS } from '@/lib/intent'
+import { Intent, RISK_LEVELS, RiskLevel } from '@/lib/schema'
+
+interface RuleForm {
+  name: string
+  enabled: boolean
+  riskLevels: RiskLevel[]
+  minLeadScore: string
+  intents: Intent[]
+  senderDomains: string
+  webhookUrl: string
+  webhookSecret: string
+  emailTo: string
+  queue: string
+  otherActions: AutomationAction[]
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  enabled: true,
+  riskLevels: [],
+  minLeadScore: '',
+  intents: [],
+  senderDomains: '',
+  webhookUrl: '',
+  webhookSecret: '',
+  emailTo: '',
+  queue: '',
+  otherActions: []
+}
+
+const DELIVERY_COLORS: Record<DeliveryStatus, string> = {
+  pending: 'text-yellow-700 bg-yellow-50 border-yellow-200',
+  delivered: 'text-green-700 bg-green-50 border-green-200',
+  failed: 'text-red-700 bg-red-50 border-red-200'
+}
+
+// The form edits the first action of each type; any others are kept as-is.
+function toForm(rule: AutomationRule): RuleForm {
+  const webhook = rule.actions.find(action => action.type === 'webhook')
+  const email = rule.actions.find(action => action.type === 'email')
+  const queue = rule.actions.find(action => action.type === 'queue')
+
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    riskLevels: rule.conditions.riskLevels || [],
+    minLeadScore: rule.conditions.minLeadScore !== undefined ? String(rule.conditions.minLeadScore) : '',
+    intents: rule.conditions.intents || [],
+    senderDomains: (rule.conditions.senderDomains || []).join('\n'),
+    webhookUrl: webhook?.type === 'webhook' ? webhook.url : '',
+    webhookSecret: webhook?.type === 'webhook' ? webhook.secret || '' : '',
+    emailTo: email?.type === 'email' ? email.to.join(', ') : '',
+    queue: queue?.type === 'queue' ? queue.queue : '',
+    otherActions: rule.actions.filter(action => action !== webhook && action !== email && action !== queue)
+  }
+}
+
+function toInput(form: RuleForm): AutomationRuleInput {
+  const actions: AutomationAction[] = []
+  if (form.webhookUrl.trim()) actions.push({ type: 'webhook', url: form.webhookUrl.trim(), ...(form.webhookSecret && { secret: form.webhookSecret }) })
+  if (form.emailTo.trim()) actions.push({ type: 'email', to: form.emailTo.split(/[\s,;]+/).filter(Boolean) })
+  if (form.queue.trim()) actions.push({ type: 'queue', queue: form.queue.trim() })
+
+  return {
+    name: form.name,
+    enabled: form.enabled,
+    conditions: {
+      riskLevels: form.riskLevels,
+      minLeadScore: form.minLeadScore === '' ? undefined : Number(form.minLeadScore),
+      intents: form.intents,
+      senderDomains: form.senderDomains.split('\n').map(line => line.trim()).filter(Boolean)
+    },
+    actions: [...actions, ...form.otherActions]
+  }
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = response.status === 204 ? {} : await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || fallback)
+  }
+  return data
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+const labelClass = 'block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1'
+
+export default function AutomationsPage() {
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [deliveries, setDeliveries] = useState<DeliveryLogEntry[]>([])
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([])
+  const [queueFilter, setQueueFilter] = useState('')
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const load = useCallback(async () => {
+    try {
+      const [rulesData, deliveriesData, queueData] = await Promise.all([
+        fetch('/api/automations').then(response => readJson(response, 'Failed to load rules')),
+        fetch('/api/automations/deliveries').then(response => readJson(response, 'Failed to load delivery log')),
+        fetch('/api/queues?status=open').then(response => readJson(response, 'Failed to load queues'))
+      ])
+      setRules(rulesData.rules)
+      setDeliveries(deliveriesData.deliveries)
+      setQueueItems(queueData.items)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load automations. Please try again.')
+      console.error(err)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const startEditing = (rule: AutomationRule | null) => {
+    setEditingId(rule?.id || null)
+    setForm(rule ? toForm(rule) : EMPTY_FORM)
+    setError('')
+  }
+
+  const saveRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(editingId ? `/api/automations/${editingId}` : '/api/automations', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toInput(form)),
+      })
+      await readJson(response, 'Failed to save rule')
+      startEditing(null)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule. Please try again.')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setEnabled = async (rule: AutomationRule, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/automations/${rule.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...toInput(toForm(rule)), enabled }),
+      })
+      const updated: AutomationRule = await readJson(response, 'Failed to update rule')
+      setRules(current => current.map(item => item.id === updated.id ? updated : item))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule. Please try again.')
+      console.error(err)
+    }
+  }
+
+  const deleteRule = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return
+
+    try {
+      await readJson(await fetch(`/api/automations/${rule.id}`, { method: 'DELETE' }), 'Failed to delete rule')
+      if (editingId === rule.id) startEditing(null)
+      setRules(current => current.filter(item => item.id !== rule.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule. Please try again.')
+      console.error(err)
+    }
+  }
+
+  const retry = async (delivery: DeliveryLogEntry) => {
+    try {
+      const updated: DeliveryLogEntry = await readJson(await fetch(`/api/automations/deliveries/${delivery.id}`, { method: 'POST' }), 'Failed to retry delivery')
+      setDeliveries(current => current.map(item => item.id === updated.id ? updated : item))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry delivery. Please try again.')
+      console.error(err)
+    }
+  }
+
+  const markDone = async (item: QueueItem) => {
+    try {
+      const response = await fetch(`/api/queues/${item.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'done' }),
+      })
+      await readJson(response, 'Failed to update queue item')
+      setQueueItems(current => current.filter(existing => existing.id !== item.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update queue item. Please try again.')
+      console.error(err)
+    }
+  }
+
+  const queues = Array.from(new Set(queueItems.map(item => item.queue))).sort()
+  const visibleItems = queueItems.filter(item => !queueFilter || item.queue === queueFilter)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Automations
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Route analysis results to webhooks, email and work queues
+          </p>
+        </header>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-8">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+            <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-4">Rules</h2>
+            <div className="space-y-3">
+              {rules.map(rule => (
+                <div key={rule.id} className={`border rounded-lg p-4 ${editingId === rule.id ? 'border-blue-400' : 'border-slate-200 dark:border-slate-700'}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-semibold text-slate-900 dark:text-white">{rule.name}</div>
+                      <div className="text-sm text-slate-600 dark:text-slate-300">When {describeConditions(rule.conditions)}</div>
+                      <div className="text-sm text-slate-600 dark:text-slate-300">{rule.actions.map(describeAction).join(' • ')}</div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 whitespace-nowrap">
+                      <input type="checkbox" checked={rule.enabled} onChange={(e) => setEnabled(rule, e.target.checked)} />
+                      Enabled
+                    </label>
+                  </div>
+                  <div className="flex gap-4 mt-2 text-sm">
+                    <button onClick={() => startEditing(rule)} className="text-blue-600 hover:underline">Edit</button>
+                    {!rule.builtIn && <button onClick={() => deleteRule(rule)} className="text-red-600 hover:underline">Delete</button>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <form onSubmit={saveRule} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-slate-900 dark:text-white">{editingId ? 'Edit Rule' : 'New Rule'}</h2>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" value={form.name} onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))} className={inputClass} />
+            </div>
+
+            <div className="font-semibold text-slate-900 dark:text-white">When all of these match</div>
+            <div>
+              <label className={labelClass}>Risk Level</label>
+              <div className="flex flex-wrap gap-4 text-sm text-slate-700 dark:text-slate-300">
+                {RISK_LEVELS.map(level => (
+                  <label key={level} className="flex items-center gap-2">
+                    <input type="checkbox" checked={form.riskLevels.includes(level)} onChange={() => setForm(current => ({ ...current, riskLevels: toggle(current.riskLevels, level) }))} />
+                    {level}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Intent</label>
+              <div className="flex flex-wrap gap-4 text-sm text-slate-700 dark:text-slate-300">
+                {Object.entries(INTENT_LABELS).map(([value, label]) => (
+                  <label key={value} className="flex items-center gap-2">
+                    <input type="checkbox" checked={form.intents.includes(value as Intent)} onChange={() => setForm(current => ({ ...current, intents: toggle(current.intents, value as Intent) }))} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Minimum Lead Score</label>
+                <input type="number" min={0} max={10} value={form.minLeadScore} onChange={(e) => setForm(current => ({ ...current, minLeadScore: e.target.value }))} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Sender Domains (one per line, subdomains included)</label>
+                <textarea value={form.senderDomains} onChange={(e) => setForm(current => ({ ...current, senderDomains: e.target.value }))} className={`${inputClass} h-16 resize-y`} />
+              </div>
+            </div>
+
+            <div className="font-semibold text-slate-900 dark:text-white">Then</div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className={labelClass}>Webhook URL (Slack / Teams compatible)</label>
+                <input type="url" value={form.webhookUrl} onChange={(e) => setForm(current => ({ ...current, webhookUrl: e.target.value }))} placeholder="https://hooks.slack.com/services/..." className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Signing Secret</label>
+                <input type="password" value={form.webhookSecret} onChange={(e) => setForm(current => ({ ...current, webhookSecret: e.target.value }))} className={inputClass} />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className={labelClass}>Email To</label>
+                <input type="text" value={form.emailTo} onChange={(e) => setForm(current => ({ ...current, emailTo: e.target.value }))} placeholder="security@example.com" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Add to Queue</label>
+                <input type="text" value={form.queue} onChange={(e) => setForm(current => ({ ...current, queue: e.target.value }))} placeholder="security" className={inputClass} />
+              </div>
+            </div>
+            {form.otherActions.length > 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Also kept: {form.otherActions.map(describeAction).join(', ')}</p>
+            )}
+
+            <div className="flex items-center gap-4">
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+              >
+                {saving ? 'Saving...' : editingId ? 'Save Rule' : 'Add Rule'}
+              </button>
+              {editingId && <button type="button" onClick={() => startEditing(null)} className="text-sm text-slate-600 dark:text-slate-300 hover:underline">Cancel</button>}
+            </div>
+          </form>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-semibold text-slate-900 dark:text-white">Open Queue Items</h2>
+              <select value={queueFilter} onChange={(e) => setQueueFilter(e.target.value)} className={`${inputClass} w-auto`}>
+                <option value="">All queues</option>
+                {queues.map(queue => <option key={queue}>{queue}</option>)}
+              </select>
+            </div>
+            <div className="space-y-3">
+              {visibleItems.map(item => (
+                <div key={item.id} className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 text-sm">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-xs font-semibold uppercase text-slate-500">{item.queue}</span>
+                    <span className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold ${getRiskColor(item.riskLevel)}`}>{item.riskLevel}</span>
+                    {item.leadQualityScore > 0 && <span className="text-xs text-slate-500">Lead {item.leadQualityScore}/10</span>}
+                  </div>
+                  <div className="font-medium text-slate-900 dark:text-white">{item.subject || '(no subject)'}</div>
+                  <div className="text-slate-600 dark:text-slate-300">{item.sender}</div>
+                  <div className="text-slate-700 dark:text-slate-300 mt-1">{item.recommendedAction}</div>
+                  <div className="flex items-center justify-between mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    <span>{new Date(item.addedAt).toLocaleString()} • {item.ruleName}</span>
+                    <button onClick={() => markDone(item)} className="text-blue-600 hover:underline">Mark done</button>
+                  </div>
+                </div>
+              ))}
+              {visibleItems.length === 0 && (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-8">No open items</p>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 overflow-x-auto">
+            <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-4">Delivery Log</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Rule / Action</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="border-b border-slate-100 dark:border-slate-700 align-top">
+                    <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">
+                      <div className="font-medium">{delivery.ruleName}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{delivery.target}</div>
+                      {delivery.lastError && <div className="text-xs text-red-600">{delivery.lastError}</div>}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <span className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold ${DELIVERY_COLORS[delivery.status]}`}>{delivery.status}</span>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                        {delivery.nextAttemptAt && `, next ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                      </div>
+                    </td>
+                    <td className="py-2 text-right">
+                      {delivery.status !== 'delivered' && <button onClick={() => retry(delivery)} className="text-blue-600 hover:underline">Retry</button>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {deliveries.length === 0 && (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">No automations have fired yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import CampaignMatches from '@/components/CampaignMatches'
+import { getRiskColor, REVIEW_LABELS, SOURCE_LABELS } from '@/lib/display'
+import type { HistoryRecord, ReviewStatus } from '@/lib/history'
+import { INTENT_LABELS, intentLabel, intentOf } from '@/lib/intent'
+import { Intent, RISK_LEVELS, RiskLevel } from '@/lib/schema'
+
+const EMPTY_FILTERS = {
+  riskLevel: '',
+  intent: '',
+  minScore: '',
+  maxScore: '',
+  sender: '',
+  q: '',
+  status: '',
+  source: '',
+  campaign: ''
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+export default function HistoryPage() {
+  const [filters, setFilters] = useState(EMPTY_FILTERS)
+  const [records, setRecords] = useState<HistoryRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [selected, setSelected] = useState<HistoryRecord | null>(null)
+  const [reviewStatus, setReviewStatus] = useState<ReviewStatus>('open')
+  const [reviewNotes, setReviewNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [feedbackRisk, setFeedbackRisk] = useState<RiskLevel>('Safe')
+  const [feedbackIntent, setFeedbackIntent] = useState<Intent>('inquiry')
+  const [feedbackNotice, setFeedbackNotice] = useState('')
+
+  const loadHistory = useCallback(async (activeFilters: typeof EMPTY_FILTERS) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const params = new URLSearchParams(Object.entries(activeFilters).filter(([, value]) => value))
+      const response = await fetch(`/api/history?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to load history')
+      }
+
+      const data = await response.json()
+      setRecords(data.records)
+      setTotal(data.total)
+    } catch (err) {
+      setError('Failed to load history. Please try again.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const campaign = new URLSearchParams(window.location.search).get('campaign') || ''
+    setFilters(current => ({ ...current, campaign }))
+    loadHistory({ ...EMPTY_FILTERS, campaign })
+  }, [loadHistory])
+
+  const showCampaign = (campaign: string) => {
+    const next = { ...filters, campaign }
+    setFilters(next)
+    loadHistory(next)
+  }
+
+  const selectRecord = (record: HistoryRecord) => {
+    setSelected(record)
+    setReviewStatus(record.review.status)
+    setReviewNotes(record.review.notes)
+    setFeedbackRisk(record.feedback?.riskLevel || record.result.riskLevel)
+    setFeedbackIntent(record.feedback?.intent || intentOf(record.result)?.primary || 'inquiry')
+    setFeedbackNotice('')
+  }
+
+  const saveReview = async () => {
+    if (!selected) return
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/history/${selected.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: reviewStatus, notes: reviewNotes }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to save review')
+      }
+
+      const updated: HistoryRecord = await response.json()
+      setSelected(updated)
+      setRecords(current => current.map(record => record.id === updated.id ? updated : record))
+    } catch (err) {
+      setError('Failed to save review. Please try again.')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const sendFeedback = async (feedback: { correct: true } | { riskLevel: RiskLevel, intent: Intent }) => {
+    if (!selected) return
+    setSaving(true)
+    setFeedbackNotice('')
+
+    try {
+      const response = await fetch(`/api/history/${selected.id}/feedback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(feedback),
+      })
+      const data: { record: HistoryRecord, trainsAt: string, error?: string } = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save feedback')
+      }
+
+      setSelected(data.record)
+      setRecords(current => current.map(record => record.id === data.record.id ? data.record : record))
+      setFeedbackNotice(`Feedback saved; the classifier learns from it at ${new Date(data.trainsAt).toLocaleTimeString()}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save feedback. Please try again.')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateFilter = (key: keyof typeof EMPTY_FILTERS, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }))
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Analysis History
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Search past analyses and record review decisions
+          </p>
+        </header>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            loadHistory(filters)
+          }}
+          className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 mb-8 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-9 gap-4 items-end"
+        >
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Search</label>
+            <input type="text" value={filters.q} onChange={(e) => updateFilter('q', e.target.value)} placeholder="Text, reason, notes..." className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Risk Level</label>
+            <select value={filters.riskLevel} onChange={(e) => updateFilter('riskLevel', e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {RISK_LEVELS.map(level => <option key={level}>{level}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Intent</label>
+            <select value={filters.intent} onChange={(e) => updateFilter('intent', e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {Object.entries(INTENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Lead Score</label>
+            <div className="flex gap-1">
+              <input type="number" min={0} max={10} value={filters.minScore} onChange={(e) => updateFilter('minScore', e.target.value)} placeholder="min" className={inputClass} />
+              <input type="number" min={0} max={10} value={filters.maxScore} onChange={(e) => updateFilter('maxScore', e.target.value)} placeholder="max" className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Sender</label>
+            <input type="text" value={filters.sender} onChange={(e) => updateFilter('sender', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Review</label>
+            <select value={filters.status} onChange={(e) => updateFilter('status', e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {Object.entries(REVIEW_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Source</label>
+            <select value={filters.source} onChange={(e) => updateFilter('source', e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {Object.entries(SOURCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            {loading ? 'Loading...' : 'Filter'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-8">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+          <div className="lg:col-span-3 bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 overflow-x-auto">
+            <div className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+              {total} analyses
+              {filters.campaign && (
+                <>
+                  {' '}in one campaign ·{' '}
+                  <button onClick={() => showCampaign('')} className="text-blue-600 hover:text-blue-700">Show all</button>
+                </>
+              )}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Sender / Message</th>
+                  <th className="py-2 pr-4">Risk</th>
+                  <th className="py-2 pr-4">Intent</th>
+                  <th className="py-2 pr-4">Lead</th>
+                  <th className="py-2">Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {records.map(record => (
+                  <tr
+                    key={record.id}
+                    onClick={() => selectRecord(record)}
+                    className={`border-b border-slate-100 dark:border-slate-700 align-top cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700 ${selected?.id === record.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                  >
+                    <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">{new Date(record.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">
+                      <div className="font-medium">{record.result.email?.from || record.input.senderInfo || 'Unknown sender'}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{record.input.message}</div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold whitespace-nowrap ${getRiskColor(record.result.riskLevel)}`}>
+                        {record.result.riskLevel}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">{intentLabel(record.result)}</td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">{record.result.leadQualityScore || ''}</td>
+                    <td className="py-2 text-slate-700 dark:text-slate-300 whitespace-nowrap">{REVIEW_LABELS[record.review.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!loading && records.length === 0 && (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">No analyses match these filters</p>
+            )}
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected ? (
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+                <div className={`border-2 rounded-lg p-4 ${getRiskColor(selected.result.riskLevel)}`}>
+                  <div className="text-xl font-bold">{selected.result.riskLevel}</div>
+                  <div className="text-xs mt-1">
+                    {new Date(selected.createdAt).toLocaleString()} • {SOURCE_LABELS[selected.source || 'manual']} • {selected.provider}{selected.model && ` (${selected.model})`} • {selected.latencyMs} ms
+                  </div>
+                </div>
+
+                <div>
+                  <div className="font-semibold text-slate-900 dark:text-white mb-1">Message</div>
+                  <div className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap max-h-48 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg p-3">{selected.input.message}</div>
+                </div>
+
+                <div>
+                  <div className="font-semibold text-slate-900 dark:text-white mb-1">Reason</div>
+                  <div className="text-sm text-slate-700 dark:text-slate-300">{selected.result.reason}</div>
+                </div>
+
+                <div>
+                  <div className="font-semibold text-slate-900 dark:text-white mb-1">Recommended Action</div>
+                  <div className="text-sm text-slate-700 dark:text-slate-300">{selected.result.recommendedAction}</div>
+                </div>
+
+                {selected.result.duplicates && (
+                  <CampaignMatches duplicates={selected.result.duplicates} onShowCampaign={showCampaign} />
+                )}
+
+                <div className="border-t border-slate-200 dark:border-slate-700 pt-4 space-y-3">
+                  <div className="font-semibold text-slate-900 dark:text-white">Case Review</div>
+                  <select value={reviewStatus} onChange={(e) => setReviewStatus(e.target.value as ReviewStatus)} className={inputClass}>
+                    {Object.entries(REVIEW_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                  <textarea
+                    value={reviewNotes}
+                    onChange={(e) => setReviewNotes(e.target.value)}
+                    placeholder="Reviewer notes..."
+                    className={`${inputClass} h-24 resize-none`}
+                  />
+                  <button
+                    onClick={saveReview}
+                    disabled={saving}
+                    className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    {saving ? 'Saving...' : 'Save Review'}
+                  </button>
+                  {selected.review.updatedAt && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Last reviewed {new Date(selected.review.updatedAt).toLocaleString()}</div>
+                  )}
+                </div>
+
+                <div className="border-t border-slate-200 dark:border-slate-700 pt-4 space-y-3">
+                  <div className="font-semibold text-slate-900 dark:text-white">Verdict Feedback</div>
+                  <div className="text-sm text-slate-700 dark:text-slate-300">
+                    {selected.result.riskLevel} • {intentLabel(selected.result)}
+                    {selected.result.classifier && (
+                      <span className="text-xs text-slate-500 dark:text-slate-400"> (classifier v{selected.result.classifier.version}: {selected.result.classifier.riskLevel}, {Math.round(selected.result.classifier.riskConfidence * 100)}%)</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => sendFeedback({ correct: true })}
+                    disabled={saving}
+                    className="w-full border border-green-600 text-green-700 hover:bg-green-50 dark:hover:bg-slate-700 disabled:opacity-50 font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    Verdict Is Correct
+                  </button>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={feedbackRisk} onChange={(e) => setFeedbackRisk(e.target.value as RiskLevel)} className={inputClass}>
+                      {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                    <select value={feedbackIntent} onChange={(e) => setFeedbackIntent(e.target.value as Intent)} className={inputClass}>
+                      {Object.entries(INTENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => sendFeedback({ riskLevel: feedbackRisk, intent: feedbackIntent })}
+                    disabled={saving}
+                    className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+                  >
+                    Save Correction
+                  </button>
+                  {selected.feedback && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      {selected.feedback.correct ? 'Marked correct' : `Corrected to ${selected.feedback.riskLevel} • ${INTENT_LABELS[selected.feedback.intent]}`} {new Date(selected.feedback.updatedAt).toLocaleString()}
+                    </div>
+                  )}
+                  {feedbackNotice && <div className="text-xs text-green-700">{feedbackNotice}</div>}
+                </div>
+              </div>
+            ) : (
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-12 text-center text-slate-500 dark:text-slate-400">
+                Select an analysis to review it
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
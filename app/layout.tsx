@@ -1,5 +1,7 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import Link from 'next/link'
+import AccountMenu from '@/components/AccountMenu'
 import './globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -16,7 +18,19 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <nav className="bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
+          <div className="container mx-auto px-4 max-w-7xl flex gap-6 h-12 items-center text-sm font-medium">
+            <Link href="/" className="text-slate-700 dark:text-slate-200 hover:text-blue-600">Analyze</Link>
+            <Link href="/history" className="text-slate-700 dark:text-slate-200 hover:text-blue-600">History</Link>
+            <Link href="/analytics" className="text-slate-700 dark:text-slate-200 hover:text-blue-600">Analytics</Link>
+            <Link href="/automations" className="text-slate-700 dark:text-slate-200 hover:text-blue-600">Automations</Link>
+            <Link href="/settings" className="text-slate-700 dark:text-slate-200 hover:text-blue-600">Settings</Link>
+            <AccountMenu />
+          </div>
+        </nav>
+        {children}
+      </body>
     </html>
   )
 }
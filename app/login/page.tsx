@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+function safeReturnTo(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/login') ? value : '/'
+}
+
+export default function LoginPage() {
+  const [setupRequired, setSetupRequired] = useState(false)
+  const [oidcEnabled, setOidcEnabled] = useState(false)
+  const [returnTo, setReturnTo] = useState('/')
+  const [name, setName] = useState('')
+  const [workspaceName, setWorkspaceName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const target = safeReturnTo(params.get('returnTo'))
+    setReturnTo(target)
+    setError(params.get('error') || '')
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/auth/session')
+        const data = await response.json()
+        if (response.ok) {
+          window.location.href = target
+          return
+        }
+        setSetupRequired(!!data.setupRequired)
+        setOidcEnabled(!!data.oidcEnabled)
+      } catch (err) {
+        setError('Failed to reach the server. Please try again.')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(setupRequired ? { name, email, password, workspaceName } : { email, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign in')
+      }
+
+      window.location.href = returnTo
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in. Please try again.')
+      console.error(err)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-16 max-w-md">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">
+            {setupRequired ? 'Create the admin account' : 'Sign in'}
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            {setupRequired
+              ? 'No accounts exist yet. The first account administers the default workspace and keeps any existing data.'
+              : 'Sign in to analyze messages for your workspace'}
+          </p>
+        </header>
+
+        <form onSubmit={submit} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+          {setupRequired && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Name</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Workspace Name</label>
+                <input type="text" value={workspaceName} onChange={(e) => setWorkspaceName(e.target.value)} placeholder="Default workspace" className={inputClass} />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Email</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="username" required className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={setupRequired ? 'new-password' : 'current-password'}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || submitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+          >
+            {submitting ? 'Signing in...' : setupRequired ? 'Create Account' : 'Sign In'}
+          </button>
+
+          {oidcEnabled && !setupRequired && (
+            <a
+              href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(returnTo)}`}
+              className="block w-full text-center px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg"
+            >
+              Sign in with single sign-on
+            </a>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
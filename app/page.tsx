@@ -1,54 +1,126 @@
 'use client'
 
 import { useState } from 'react'
+import BulkAnalysis from '@/components/BulkAnalysis'
+import CampaignMatches from '@/components/CampaignMatches'
+import ReplyDrafts from '@/components/ReplyDrafts'
+import ThreadInput, { EMPTY_THREAD_ENTRY, ThreadEntry, threadRequest } from '@/components/ThreadInput'
+import ThreadTimeline from '@/components/ThreadTimeline'
+import type { AnalysisResult } from '@/lib/analyze'
+import { getRiskColor, paymentRows } from '@/lib/display'
+import { INTENT_LABELS, secondaryIntents } from '@/lib/intent'
+import { LANGUAGES, languageName, REPLY_LANGUAGE_AUTO } from '@/lib/language'
+import type { LinkRisk } from '@/lib/links'
+import { SENSITIVE_TYPE_LABELS } from '@/lib/redaction'
+import { readServerSentEvents } from '@/lib/sse'
 
-interface AnalysisResult {
-  riskLevel: string
-  reason: string
-  businessImpact: string
-  recommendedAction: string
-  suggestedReply?: string
-  leadQualityScore?: number
-  businessInsight: string
+type Tab = 'single' | 'bulk'
+type InputMode = 'message' | 'rawEmail' | 'thread'
+
+interface AttachmentUpload {
+  filename: string
+  contentType?: string
+  content: string
+}
+
+function readAttachment(file: File): Promise<AttachmentUpload> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve({ filename: file.name, contentType: file.type || undefined, content: String(reader.result).split(',')[1] || '' })
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} bytes`
 }
 
 export default function Home() {
+  const [tab, setTab] = useState<Tab>('single')
+  const [inputMode, setInputMode] = useState<InputMode>('message')
   const [message, setMessage] = useState('')
+  const [attachments, setAttachments] = useState<AttachmentUpload[]>([])
+  const [rawEmail, setRawEmail] = useState('')
+  const [threadEntries, setThreadEntries] = useState<ThreadEntry[]>([{ ...EMPTY_THREAD_ENTRY }, { ...EMPTY_THREAD_ENTRY }])
   const [senderInfo, setSenderInfo] = useState('')
   const [context, setContext] = useState('')
+  const [replyLanguage, setReplyLanguage] = useState(REPLY_LANGUAGE_AUTO)
   const [loading, setLoading] = useState(false)
-  const [result, setResult] = useState<AnalysisResult | null>(null)
+  const [result, setResult] = useState<Partial<AnalysisResult> | null>(null)
   const [error, setError] = useState('')
+  const [analyzedInput, setAnalyzedInput] = useState({ message: '', senderInfo: '', context: '', replyLanguage: REPLY_LANGUAGE_AUTO })
+
+  const thread = threadRequest(threadEntries)
+  const currentInput = inputMode === 'rawEmail' ? rawEmail : inputMode === 'thread' ? (thread.length > 0 ? 'thread' : '') : message || (attachments.length > 0 ? 'attachments' : '')
+
+  const loadEmailFile = async (file: File | undefined) => {
+    if (!file) return
+    setRawEmail(await file.text())
+    setInputMode('rawEmail')
+  }
+
+  const addAttachments = async (files: FileList | null) => {
+    if (!files) return
+    try {
+      const uploads = await Promise.all(Array.from(files).map(readAttachment))
+      setAttachments(current => [...current, ...uploads])
+    } catch (err) {
+      setError('Failed to read the attachment')
+      console.error(err)
+    }
+  }
 
   const analyzeMessage = async () => {
-    if (!message.trim()) {
-      setError('Please enter a message to analyze')
+    if (!currentInput.trim()) {
+      setError(inputMode === 'rawEmail' ? 'Please paste or upload a raw email to analyze' : inputMode === 'thread' ? 'Please add at least one thread message' : 'Please enter a message to analyze')
       return
     }
 
     setLoading(true)
     setError('')
     setResult(null)
+    const lastEntry = threadEntries.filter(entry => entry.message.trim()).pop()
+    setAnalyzedInput(inputMode === 'thread'
+      ? { message: lastEntry?.message || '', senderInfo: lastEntry?.sender || '', context, replyLanguage }
+      : { message, senderInfo, context, replyLanguage })
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          message,
-          senderInfo,
-          context,
-        }),
+        body: JSON.stringify(
+          inputMode === 'rawEmail'
+            ? { rawEmail, context, replyLanguage }
+            : inputMode === 'thread'
+              ? { thread, context, replyLanguage }
+              : { message, senderInfo, context, replyLanguage, ...(attachments.length > 0 && { attachments }) }
+        ),
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Analysis failed')
       }
 
-      const data = await response.json()
-      setResult(data)
+      let evidence: Partial<AnalysisResult> = {}
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data)
+        if (event.event === 'evidence') {
+          evidence = data
+          setResult(current => ({ ...current, ...data }))
+        } else if (event.event === 'field') {
+          setResult(current => ({ ...current, [data.name]: data.value }))
+        } else if (event.event === 'reset') {
+          setResult(evidence)
+        } else if (event.event === 'result') {
+          setResult(data)
+        } else if (event.event === 'error') {
+          throw new Error(data.error)
+        }
+      }
     } catch (err) {
       setError('Failed to analyze message. Please try again.')
       console.error(err)
@@ -57,12 +129,11 @@ export default function Home() {
     }
   }
 
-  const getRiskColor = (riskLevel: string) => {
-    const level = riskLevel.toLowerCase()
-    if (level.includes('safe')) return 'text-green-600 bg-green-50 border-green-200'
-    if (level.includes('suspicious')) return 'text-yellow-600 bg-yellow-50 border-yellow-200'
-    if (level.includes('high') || level.includes('fraud')) return 'text-red-600 bg-red-50 border-red-200'
-    return 'text-gray-600 bg-gray-50 border-gray-200'
+  const getLinkRiskColor = (risk: LinkRisk) => {
+    if (risk === 'dangerous') return 'text-red-700 bg-red-50 border-red-200'
+    if (risk === 'suspicious') return 'text-yellow-700 bg-yellow-50 border-yellow-200'
+    if (risk === 'trusted') return 'text-green-700 bg-green-50 border-green-200'
+    return 'text-slate-700 bg-slate-50 border-slate-200'
   }
 
   return (
@@ -77,172 +148,549 @@ export default function Home() {
           </p>
         </header>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="space-y-6">
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
-              <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-4">
-                Message Input
-              </h2>
-
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                    Message Content *
-                  </label>
-                  <textarea
-                    value={message}
-                    onChange={(e) => setMessage(e.target.value)}
-                    placeholder="Paste the email, chat message, or business inquiry here..."
-                    className="w-full h-40 px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white resize-none"
-                  />
-                </div>
+        <div className="flex justify-center mb-8">
+          <div className="inline-flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden">
+            {([['single', 'Single Message'], ['bulk', 'Bulk Upload']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTab(value)}
+                className={`px-6 py-2 font-medium transition-colors duration-200 ${tab === value ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                    Sender Information (Optional)
-                  </label>
-                  <input
-                    type="text"
-                    value={senderInfo}
-                    onChange={(e) => setSenderInfo(e.target.value)}
-                    placeholder="Email address, name, company, phone..."
-                    className="w-full px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-                  />
-                </div>
+        {tab === 'bulk' && <BulkAnalysis />}
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                    Business Context (Optional)
-                  </label>
-                  <input
-                    type="text"
-                    value={context}
-                    onChange={(e) => setContext(e.target.value)}
-                    placeholder="Industry, company size, previous interactions..."
-                    className="w-full px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
-                  />
-                </div>
+        {tab === 'single' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-6">
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+                <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-4">
+                  Message Input
+                </h2>
+
+                <div className="space-y-4">
+                  <div className="flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden">
+                    {([['message', 'Message'], ['rawEmail', 'Raw Email (.eml)'], ['thread', 'Thread']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setInputMode(mode)}
+                        className={`flex-1 py-2 text-sm font-medium transition-colors duration-200 ${inputMode === mode ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {inputMode === 'message' ? (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                          Message Content *
+                        </label>
+                        <textarea
+                          value={message}
+                          onChange={(e) => setMessage(e.target.value)}
+                          placeholder="Paste the email, chat message, or business inquiry here..."
+                          className="w-full h-40 px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white resize-none"
+                        />
+                      </div>
 
-                <button
-                  onClick={analyzeMessage}
-                  disabled={loading || !message.trim()}
-                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg disabled:cursor-not-allowed"
-                >
-                  {loading ? (
-                    <span className="flex items-center justify-center">
-                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Analyzing...
-                    </span>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                          Sender Information (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={senderInfo}
+                          onChange={(e) => setSenderInfo(e.target.value)}
+                          placeholder="Email address, name, company, phone..."
+                          className="w-full px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                          Attachments (Optional)
+                        </label>
+                        {attachments.length > 0 && (
+                          <ul className="mb-2 space-y-1 text-sm">
+                            {attachments.map((attachment, index) => (
+                              <li key={`${attachment.filename}-${index}`} className="flex items-center justify-between gap-2 text-slate-700 dark:text-slate-300">
+                                <span className="truncate">{attachment.filename}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => setAttachments(current => current.filter((_, position) => position !== index))}
+                                  className="text-xs text-red-600 hover:underline shrink-0"
+                                >
+                                  Remove
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <input
+                          type="file"
+                          multiple
+                          onChange={(e) => {
+                            addAttachments(e.target.files)
+                            e.target.value = ''
+                          }}
+                          className="block w-full text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                        />
+                        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                          Inspected on the server without opening them. Text from PDFs and Office documents is analyzed with the message.
+                        </p>
+                      </div>
+                    </>
+                  ) : inputMode === 'thread' ? (
+                    <ThreadInput entries={threadEntries} onChange={setThreadEntries} />
                   ) : (
-                    'Analyze Message'
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Raw Email Source *
+                      </label>
+                      <textarea
+                        value={rawEmail}
+                        onChange={(e) => setRawEmail(e.target.value)}
+                        placeholder="Paste the full email source including headers (Received, From, Authentication-Results...)"
+                        className="w-full h-56 px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white resize-none font-mono text-xs"
+                      />
+                      <input
+                        type="file"
+                        accept=".eml,message/rfc822,.txt"
+                        onChange={(e) => loadEmailFile(e.target.files?.[0])}
+                        className="mt-2 block w-full text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                      />
+                    </div>
                   )}
-                </button>
 
-                {error && (
-                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
-                    {error}
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Business Context (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={context}
+                      onChange={(e) => setContext(e.target.value)}
+                      placeholder="Industry, company size, previous interactions..."
+                      className="w-full px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Reply Language
+                    </label>
+                    <select
+                      value={replyLanguage}
+                      onChange={(e) => setReplyLanguage(e.target.value)}
+                      className="w-full px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                    >
+                      <option value={REPLY_LANGUAGE_AUTO}>Same as the sender</option>
+                      {LANGUAGES.map(code => (
+                        <option key={code} value={code}>{languageName(code)}</option>
+                      ))}
+                    </select>
                   </div>
-                )}
+
+                  <button
+                    onClick={analyzeMessage}
+                    disabled={loading || !currentInput.trim()}
+                    className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg disabled:cursor-not-allowed"
+                  >
+                    {loading ? (
+                      <span className="flex items-center justify-center">
+                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        Analyzing...
+                      </span>
+                    ) : (
+                      'Analyze Message'
+                    )}
+                  </button>
+
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                      {error}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-6">
-              <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">Features</h3>
-              <ul className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Intent & purpose detection</span>
-                </li>
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Fraud, phishing & scam detection</span>
-                </li>
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Business impact assessment</span>
-                </li>
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Professional response suggestions</span>
-                </li>
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Sales lead quality scoring</span>
-                </li>
-                <li className="flex items-start">
-                  <span className="mr-2">✓</span>
-                  <span>Actionable business recommendations</span>
-                </li>
-              </ul>
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-6">
+                <h3 className="font-semibold text-blue-900 dark:text-blue-100 mb-2">Features</h3>
+                <ul className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Intent & purpose detection</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Fraud, phishing & scam detection</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Business impact assessment</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Professional response suggestions</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Sales lead quality scoring</span>
+                  </li>
+                  <li className="flex items-start">
+                    <span className="mr-2">✓</span>
+                    <span>Actionable business recommendations</span>
+                  </li>
+                </ul>
+              </div>
             </div>
-          </div>
 
-          <div className="space-y-6">
-            {result && (
-              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-6">
-                <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-4">
-                  Analysis Results
-                </h2>
+            <div className="space-y-6">
+              {result && (
+                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-6">
+                  <div className="flex items-baseline justify-between mb-4">
+                    <h2 className="text-2xl font-semibold text-slate-900 dark:text-white">
+                      Analysis Results
+                    </h2>
+                    {result.provider && (
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        {result.provider}{result.model && ` · ${result.model}`}
+                        {result.usage && ` · ${(result.usage.inputTokens + result.usage.outputTokens).toLocaleString()} tokens${result.usage.estimated ? ' (est.)' : ''} · $${result.usage.costUsd.toFixed(4)}`}
+                      </span>
+                    )}
+                  </div>
 
-                <div className={`border-2 rounded-lg p-4 ${getRiskColor(result.riskLevel)}`}>
-                  <div className="font-semibold text-lg mb-1">Risk Level</div>
-                  <div className="text-2xl font-bold">{result.riskLevel}</div>
-                </div>
+                  {result.budgetExceeded && (
+                    <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                      The {result.budgetExceeded} model spending budget is used up, so this message was analyzed with the built-in rules only.
+                    </div>
+                  )}
 
-                <div className="border-l-4 border-slate-300 pl-4">
-                  <div className="font-semibold text-slate-900 dark:text-white mb-2">Reason</div>
-                  <div className="text-slate-700 dark:text-slate-300">{result.reason}</div>
-                </div>
+                  {result.parseStatus === 'degraded' && (
+                    <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                      <div className="font-semibold">The model response did not match the expected format</div>
+                      <div>Missing or invalid fields were filled in with safe defaults. Verify this result manually before acting on it.</div>
+                      {result.parseErrors && result.parseErrors.length > 0 && (
+                        <ul className="list-disc list-inside mt-2 text-xs">
+                          {result.parseErrors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  )}
 
-                <div className="border-l-4 border-slate-300 pl-4">
-                  <div className="font-semibold text-slate-900 dark:text-white mb-2">Business Impact</div>
-                  <div className="text-slate-700 dark:text-slate-300">{result.businessImpact}</div>
-                </div>
+                  {result.parseStatus === 'repaired' && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      The model response was corrected after failing validation.
+                    </div>
+                  )}
 
-                <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-                  <div className="font-semibold text-blue-900 dark:text-blue-100 mb-2">Recommended Action</div>
-                  <div className="text-blue-800 dark:text-blue-200">{result.recommendedAction}</div>
-                </div>
+                  {result.riskLevel && (
+                    <div className={`border-2 rounded-lg p-4 ${getRiskColor(result.riskLevel)}`}>
+                      <div className="font-semibold text-lg mb-1">Risk Level</div>
+                      <div className="text-2xl font-bold">{result.riskLevel}</div>
+                    </div>
+                  )}
 
-                {result.suggestedReply && (
-                  <div className="border border-slate-300 dark:border-slate-600 rounded-lg p-4 bg-slate-50 dark:bg-slate-700">
-                    <div className="font-semibold text-slate-900 dark:text-white mb-2">Suggested Reply</div>
-                    <div className="text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{result.suggestedReply}</div>
-                  </div>
-                )}
+                  {result.language && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-slate-900 dark:text-white">Language</span>
+                      <span className="inline-block rounded-full border border-slate-200 bg-slate-50 text-slate-700 px-3 py-1 text-xs font-medium">
+                        {languageName(result.language)}
+                      </span>
+                    </div>
+                  )}
 
-                {result.leadQualityScore !== undefined && result.leadQualityScore > 0 && (
-                  <div className="flex items-center space-x-4">
-                    <div className="font-semibold text-slate-900 dark:text-white">Lead Quality Score:</div>
-                    <div className="flex items-center">
-                      <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">{result.leadQualityScore}</div>
-                      <div className="text-slate-500 dark:text-slate-400 ml-1">/10</div>
+                  {result.intent?.primary && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-semibold text-slate-900 dark:text-white">Intent</span>
+                      <span className="inline-block rounded-full bg-blue-600 text-white px-3 py-1 text-sm font-semibold">
+                        {INTENT_LABELS[result.intent.primary]}
+                        {result.intent.scores && ` · ${Math.round(result.intent.scores[result.intent.primary] * 100)}%`}
+                      </span>
+                      {result.intent.scores && secondaryIntents(result.intent).map(intent => (
+                        <span key={intent} className="inline-block rounded-full border border-blue-200 bg-blue-50 text-blue-700 px-3 py-1 text-xs font-medium">
+                          {INTENT_LABELS[intent]} · {Math.round(result.intent!.scores[intent] * 100)}%
+                        </span>
+                      ))}
                     </div>
-                  </div>
-                )}
+                  )}
+
+                  {result.duplicates && <CampaignMatches duplicates={result.duplicates} />}
+
+                  {result.thread && <ThreadTimeline thread={result.thread} />}
+
+                  {result.email && (
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 text-sm space-y-1">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Parsed Email</div>
+                      {[
+                        ['From', result.email.from],
+                        ['Reply-To', result.email.replyTo],
+                        ['Return-Path', result.email.returnPath],
+                        ['Subject', result.email.subject],
+                        ['Date', result.email.date],
+                        ['Received hops', String(result.email.receivedHops)],
+                        ['SPF / DKIM / DMARC', [result.email.authenticationResults.spf, result.email.authenticationResults.dkim, result.email.authenticationResults.dmarc].map(value => value || 'n/a').join(' / ')]
+                      ].filter(([, value]) => value).map(([label, value]) => (
+                        <div key={label} className="flex">
+                          <span className="w-40 shrink-0 text-slate-500 dark:text-slate-400">{label}</span>
+                          <span className="text-slate-700 dark:text-slate-300 break-all">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {result.injectionSignals && result.injectionSignals.length > 0 && (
+                    <div className="border-l-4 border-red-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Prompt Injection Checks</div>
+                      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                        {result.injectionSignals.map((signal, index) => (
+                          <li key={index}>
+                            <span className="font-semibold uppercase text-xs mr-2">{signal.severity}</span>
+                            {signal.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.redaction && result.redaction.findings.length > 0 && (
+                    <div className="border-l-4 border-amber-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-1">Sensitive Data</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                        {result.redaction.blocked
+                          ? 'Blocked by the redaction policy: analyzed offline without calling a model provider.'
+                          : result.provider === 'fallback'
+                            ? 'Analyzed offline; nothing was sent to a model provider.'
+                            : result.redaction.policy === 'mask'
+                              ? 'Masked before the message was sent to the model provider and restored in the results.'
+                              : 'Replaced with placeholders before the message was sent to the model provider and restored in the results.'}
+                      </div>
+                      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                        {result.redaction.findings.map(finding => (
+                          <li key={finding.placeholder}>
+                            <span className="font-semibold text-xs mr-2">{SENSITIVE_TYPE_LABELS[finding.type]}</span>
+                            {finding.preview}
+                            <span className="text-xs text-slate-500 dark:text-slate-400 ml-2">{finding.placeholder}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.profileSignals && result.profileSignals.length > 0 && (
+                    <div className="border-l-4 border-red-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Organization Profile Checks</div>
+                      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                        {result.profileSignals.map((signal, index) => (
+                          <li key={index}>
+                            <span className="font-semibold uppercase text-xs mr-2">{signal.severity}</span>
+                            {signal.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.paymentSignals && result.paymentSignals.length > 0 && (
+                    <div className="border-l-4 border-red-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Payment Checks</div>
+                      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                        {result.paymentSignals.map((signal, index) => (
+                          <li key={index}>
+                            <span className="font-semibold uppercase text-xs mr-2">{signal.severity}</span>
+                            {signal.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.headerSignals && result.headerSignals.length > 0 && (
+                    <div className="border-l-4 border-red-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Header Signals</div>
+                      <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+                        {result.headerSignals.map(signal => (
+                          <li key={signal.id}>
+                            <span className="font-semibold uppercase text-xs mr-2">{signal.severity}</span>
+                            {signal.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
 
-                <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
-                  <div className="font-semibold text-green-900 dark:text-green-100 mb-2">Business Insight</div>
-                  <div className="text-green-800 dark:text-green-200">{result.businessInsight}</div>
+                  {result.reason && (
+                    <div className="border-l-4 border-slate-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Reason</div>
+                      <div className="text-slate-700 dark:text-slate-300">{result.reason}</div>
+                    </div>
+                  )}
+
+                  {result.signals && result.signals.length > 0 && (
+                    <div>
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Detection Signals</div>
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {result.signals.map(signal => (
+                            <tr key={signal.ruleId} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                              <td className="py-1 pr-2 font-mono text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">{signal.ruleId}</td>
+                              <td className="py-1 pr-2 text-slate-700 dark:text-slate-300">
+                                {signal.description}
+                                <div className="text-xs text-slate-500 dark:text-slate-400">{signal.matches.join(', ')}</div>
+                              </td>
+                              <td className="py-1 text-right font-semibold text-slate-900 dark:text-white">+{signal.score}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {result.links && result.links.length > 0 && (
+                    <div>
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Links ({result.links.length})</div>
+                      <ul className="space-y-2">
+                        {result.links.map((link, index) => (
+                          <li key={`${link.url}-${index}`} className={`border rounded-lg p-3 text-sm ${getLinkRiskColor(link.risk)}`}>
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-mono break-all">{link.url}</span>
+                              <span className="font-semibold uppercase text-xs shrink-0">{link.risk}</span>
+                            </div>
+                            {link.displayText && link.flags.includes('anchor-mismatch') && (
+                              <div className="mt-1 text-xs">Shown as: {link.displayText}</div>
+                            )}
+                            {link.details.length > 0 && (
+                              <ul className="mt-1 list-disc list-inside text-xs space-y-0.5">
+                                {link.details.map(detail => <li key={detail}>{detail}</li>)}
+                              </ul>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.attachments && result.attachments.length > 0 && (
+                    <div>
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Attachments ({result.attachments.length})</div>
+                      <ul className="space-y-2">
+                        {result.attachments.map((attachment, index) => (
+                          <li key={`${attachment.sha256}-${index}`} className={`border rounded-lg p-3 text-sm ${getLinkRiskColor(attachment.risk)}`}>
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium break-all">{attachment.filename}</span>
+                              <span className="font-semibold uppercase text-xs shrink-0">{attachment.risk}</span>
+                            </div>
+                            <div className="mt-1 text-xs">
+                              {attachment.kind} · {formatSize(attachment.size)}
+                              {attachment.extractedChars > 0 && ` · ${attachment.extractedChars.toLocaleString()} characters of text analyzed`}
+                              {attachment.entries && ` · ${attachment.entries.length} files inside`}
+                            </div>
+                            <div className="mt-1 font-mono text-xs break-all opacity-75">SHA-256 {attachment.sha256}</div>
+                            {attachment.details.length > 0 && (
+                              <ul className="mt-1 list-disc list-inside text-xs space-y-0.5">
+                                {attachment.details.map(detail => <li key={detail}>{detail}</li>)}
+                              </ul>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {result.entities && paymentRows(result.entities).length > 0 && (
+                    <div>
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Payment Details</div>
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {paymentRows(result.entities).map(row => (
+                            <tr key={row.label} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                              <td className="py-1 pr-4 text-slate-500 dark:text-slate-400 whitespace-nowrap">{row.label}</td>
+                              <td className="py-1 text-slate-700 dark:text-slate-300">
+                                {row.values.map(value => <div key={value} className="break-all">{value}</div>)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {result.businessImpact && (
+                    <div className="border-l-4 border-slate-300 pl-4">
+                      <div className="font-semibold text-slate-900 dark:text-white mb-2">Business Impact</div>
+                      <div className="text-slate-700 dark:text-slate-300">{result.businessImpact}</div>
+                    </div>
+                  )}
+
+                  {result.recommendedAction && (
+                    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                      <div className="font-semibold text-blue-900 dark:text-blue-100 mb-2">Recommended Action</div>
+                      <div className="text-blue-800 dark:text-blue-200">{result.recommendedAction}</div>
+                      {result.automations && result.automations.length > 0 && (
+                        <ul className="mt-3 space-y-1 text-sm text-blue-800 dark:text-blue-200">
+                          {result.automations.map(firing => (
+                            <li key={firing.ruleId}>✓ {firing.ruleName}: {firing.actions.join(', ')}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {result.replies && result.replies.length > 0 && (
+                    <ReplyDrafts
+                      replies={result.replies}
+                      original={result.email
+                        ? { from: result.email.from, subject: result.email.subject, date: result.email.date, messageId: result.email.messageId, body: result.email.body }
+                        : { from: analyzedInput.senderInfo || undefined, body: analyzedInput.message }}
+                      senderInfo={analyzedInput.senderInfo}
+                      context={analyzedInput.context}
+                      replyLanguage={analyzedInput.replyLanguage}
+                    />
+                  )}
+
+                  {result.leadQualityScore !== undefined && result.leadQualityScore > 0 && (
+                    <div className="flex items-center space-x-4">
+                      <div className="font-semibold text-slate-900 dark:text-white">Lead Quality Score:</div>
+                      <div className="flex items-center">
+                        <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">{result.leadQualityScore}</div>
+                        <div className="text-slate-500 dark:text-slate-400 ml-1">/10</div>
+                      </div>
+                    </div>
+                  )}
+
+                  {result.businessInsight && (
+                    <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                      <div className="font-semibold text-green-900 dark:text-green-100 mb-2">Business Insight</div>
+                      <div className="text-green-800 dark:text-green-200">{result.businessInsight}</div>
+                    </div>
+                  )}
                 </div>
-              </div>
-            )}
-
-            {!result && !loading && (
-              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-12 text-center">
-                <svg className="mx-auto h-24 w-24 text-slate-300 dark:text-slate-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-                <p className="text-slate-500 dark:text-slate-400 text-lg">
-                  Enter a message to analyze and get instant business intelligence
-                </p>
-              </div>
-            )}
+              )}
+
+              {!result && !loading && (
+                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-12 text-center">
+                  <svg className="mx-auto h-24 w-24 text-slate-300 dark:text-slate-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <p className="text-slate-500 dark:text-slate-400 text-lg">
+                    Enter a message to analyze and get instant business intelligence
+                  </p>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         <footer className="mt-12 text-center text-slate-500 dark:text-slate-400 text-sm">
           <p>Enterprise-grade message analysis powered by AI</p>
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import ClassifierStatus from '@/components/ClassifierStatus'
+import KnownPayees from '@/components/KnownPayees'
+import type { OrganizationProfile, ProfileInput } from '@/lib/profile'
+
+type ListField = Exclude<keyof ProfileInput, 'companyName'>
+
+const LIST_FIELDS: { field: ListField, label: string, help: string, placeholder: string }[] = [
+  { field: 'companyDomains', label: 'Company Domains', help: 'Senders and links that imitate these domains are treated as impersonation.', placeholder: 'example.com' },
+  { field: 'vipNames', label: 'Executives & VIPs', help: 'Flagged when the name appears on mail from outside the company domains.', placeholder: 'Jane Smith' },
+  { field: 'vendorDomains', label: 'Vendor Domains', help: 'Trusted suppliers. Lookalikes are flagged as impersonation.', placeholder: 'supplier.com' },
+  { field: 'customerDomains', label: 'Customer Domains', help: 'Trusted customers. Lookalikes are flagged as impersonation.', placeholder: 'customer.com' },
+  { field: 'blockedSenders', label: 'Blocked Senders', help: 'Addresses or whole domains that are always high risk.', placeholder: 'scammer@example.net or example.net' },
+  { field: 'policies', label: 'Official Policies', help: 'Given to the model verbatim. Payment, gift card and credential policies are also checked offline.', placeholder: 'We never change bank details by email' }
+]
+
+type FormState = Record<ListField, string> & { companyName: string }
+
+const EMPTY_FORM: FormState = {
+  companyName: '',
+  companyDomains: '',
+  vipNames: '',
+  vendorDomains: '',
+  customerDomains: '',
+  blockedSenders: '',
+  policies: ''
+}
+
+function toForm(profile: OrganizationProfile): FormState {
+  const form = { ...EMPTY_FORM, companyName: profile.companyName }
+  for (const { field } of LIST_FIELDS) form[field] = profile[field].join('\n')
+  return form
+}
+
+function toInput(form: FormState): ProfileInput {
+  const input: ProfileInput = { companyName: form.companyName }
+  for (const { field } of LIST_FIELDS) input[field] = form[field].split('\n').map(line => line.trim()).filter(Boolean)
+  return input
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+export default function SettingsPage() {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM)
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/profile')
+        if (!response.ok) {
+          throw new Error('Failed to load profile')
+        }
+
+        const profile: OrganizationProfile = await response.json()
+        setForm(toForm(profile))
+        setUpdatedAt(profile.updatedAt)
+      } catch (err) {
+        setError('Failed to load the organization profile. Please try again.')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toInput(form)),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save profile')
+      }
+
+      const profile: OrganizationProfile = data
+      setForm(toForm(profile))
+      setUpdatedAt(profile.updatedAt)
+      setNotice('Profile saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile. Please try again.')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Organization Profile
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Business context used in every analysis to catch impersonation and policy violations
+          </p>
+        </header>
+
+        <form onSubmit={save} className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Company Name</label>
+            <input
+              type="text"
+              value={form.companyName}
+              onChange={(e) => setForm(current => ({ ...current, companyName: e.target.value }))}
+              disabled={loading}
+              className={inputClass}
+            />
+          </div>
+
+          {LIST_FIELDS.map(({ field, label, help, placeholder }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{label}</label>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">{help} One per line.</p>
+              <textarea
+                value={form[field]}
+                onChange={(e) => setForm(current => ({ ...current, [field]: e.target.value }))}
+                placeholder={placeholder}
+                disabled={loading}
+                className={`${inputClass} ${field === 'policies' ? 'h-32' : 'h-20'} resize-y`}
+              />
+            </div>
+          ))}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={loading || saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+            >
+              {saving ? 'Saving...' : 'Save Profile'}
+            </button>
+            {notice && <span className="text-sm text-green-700">{notice}</span>}
+            {updatedAt && (
+              <span className="text-xs text-slate-500 dark:text-slate-400">Last saved {new Date(updatedAt).toLocaleString()}</span>
+            )}
+          </div>
+        </form>
+
+        <KnownPayees />
+        <ClassifierStatus />
+      </div>
+    </div>
+  )
+}
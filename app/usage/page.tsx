@@ -0,0 +1,236 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { Budgets, UsageReport, UsageTotals } from '@/lib/usage'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+const buttonClass = 'px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg disabled:opacity-50'
+
+const RANGES = [7, 30, 90]
+
+function money(value: number): string {
+  return `$${value.toFixed(value >= 1 ? 2 : 4)}`
+}
+
+function budgetInput(value: string): number | null {
+  return value.trim() ? Number(value) : null
+}
+
+function SpendCard({ label, totals, budget }: { label: string, totals: UsageTotals, budget?: number }) {
+  const share = budget ? Math.min(totals.costUsd / budget, 1) : 0
+  const used = budget !== undefined && totals.costUsd >= budget
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+      <div className="text-sm text-slate-500 dark:text-slate-400 mb-1">{label}</div>
+      <div className="text-3xl font-bold text-slate-900 dark:text-white">{money(totals.costUsd)}</div>
+      <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        {totals.requests} calls · {(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens
+      </div>
+      {budget !== undefined ? (
+        <>
+          <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full mt-4 overflow-hidden">
+            <div className={`h-full ${used ? 'bg-red-500' : share > 0.8 ? 'bg-amber-500' : 'bg-blue-600'}`} style={{ width: `${share * 100}%` }} />
+          </div>
+          <div className={`text-xs mt-1 ${used ? 'text-red-600 font-semibold' : 'text-slate-500 dark:text-slate-400'}`}>
+            {used ? `Budget of ${money(budget)} used up: analyses use the built-in rules only` : `of ${money(budget)} budget`}
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-slate-500 dark:text-slate-400 mt-4">No budget</div>
+      )}
+    </div>
+  )
+}
+
+export default function UsagePage() {
+  const [report, setReport] = useState<UsageReport | undefined>()
+  const [days, setDays] = useState(30)
+  const [budgetForm, setBudgetForm] = useState({ dailyUsd: '', monthlyUsd: '' })
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const showBudgets = (budgets: Budgets) => {
+    setBudgetForm({ dailyUsd: budgets.dailyUsd?.toString() ?? '', monthlyUsd: budgets.monthlyUsd?.toString() ?? '' })
+  }
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/usage?days=${days}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load usage')
+      setReport(data)
+      showBudgets(data.budgets)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage')
+      console.error(err)
+    }
+  }, [days])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const updateBudgets = async (init: RequestInit, message: string) => {
+    setBusy(true)
+    setError('')
+    setNotice('')
+    try {
+      const response = await fetch('/api/usage/budgets', init)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save budgets')
+      setNotice(message)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budgets')
+      console.error(err)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveBudgets = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateBudgets({
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ dailyUsd: budgetInput(budgetForm.dailyUsd), monthlyUsd: budgetInput(budgetForm.monthlyUsd) }),
+    }, 'Budgets saved')
+  }
+
+  const peak = Math.max(...(report?.days.map(day => day.costUsd) || []), 0)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <header className="mb-2">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Model Usage
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Tokens and estimated cost of model provider calls in this workspace. Days and months are counted in UTC.
+          </p>
+        </header>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <SpendCard label="Today" totals={report.today} budget={report.budgets.dailyUsd} />
+            <SpendCard label="This month" totals={report.month} budget={report.budgets.monthlyUsd} />
+          </div>
+        )}
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">Budgets</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            {report?.budgets.source === 'workspace'
+              ? 'This workspace has its own budgets. Leave a field empty for no limit.'
+              : 'This workspace uses the server-wide budgets. Save below to set its own.'}
+            {' '}Once a budget is used up, analyses fall back to the built-in rules until the day or month ends.
+          </p>
+          <form onSubmit={saveBudgets} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Daily (USD)</label>
+              <input type="number" min={0} step="0.01" value={budgetForm.dailyUsd} onChange={(e) => setBudgetForm(current => ({ ...current, dailyUsd: e.target.value }))} placeholder="No limit" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Monthly (USD)</label>
+              <input type="number" min={0} step="0.01" value={budgetForm.monthlyUsd} onChange={(e) => setBudgetForm(current => ({ ...current, monthlyUsd: e.target.value }))} placeholder="No limit" className={inputClass} />
+            </div>
+            <button
+              type="submit"
+              disabled={busy || !report}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-200"
+            >
+              Save Budgets
+            </button>
+            {report?.budgets.source === 'workspace' && (
+              <button type="button" disabled={busy} onClick={() => updateBudgets({ method: 'DELETE' }, 'Using the server-wide budgets')} className={buttonClass}>
+                Use Server Budgets
+              </button>
+            )}
+          </form>
+          {notice && <div className="text-sm text-green-700 mt-3">{notice}</div>}
+        </section>
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-white">By Day</h2>
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white">
+              {RANGES.map(range => <option key={range} value={range}>Last {range} days</option>)}
+            </select>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2">Day</th>
+                <th className="py-2 text-right">Calls</th>
+                <th className="py-2 text-right">Input tokens</th>
+                <th className="py-2 text-right">Output tokens</th>
+                <th className="py-2 text-right">Cost</th>
+                <th className="py-2 w-1/4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {report && [...report.days].reverse().map(day => (
+                <tr key={day.day} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                  <td className="py-2">{day.day}</td>
+                  <td className="py-2 text-right">{day.requests}</td>
+                  <td className="py-2 text-right">{day.inputTokens.toLocaleString()}</td>
+                  <td className="py-2 text-right">{day.outputTokens.toLocaleString()}</td>
+                  <td className="py-2 text-right">{money(day.costUsd)}</td>
+                  <td className="py-2 pl-4">
+                    <div className="h-2 bg-blue-600 rounded-full" style={{ width: `${peak > 0 ? (day.costUsd / peak) * 100 : 0}%` }} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">By Model</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Over the selected days. Prices come from the server&apos;s price table; models without a price count as free.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2">Provider</th>
+                <th className="py-2">Model</th>
+                <th className="py-2 text-right">Calls</th>
+                <th className="py-2 text-right">Input tokens</th>
+                <th className="py-2 text-right">Output tokens</th>
+                <th className="py-2 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report?.models.length === 0 && (
+                <tr><td colSpan={6} className="py-3 text-slate-500 dark:text-slate-400">No model calls yet</td></tr>
+              )}
+              {report?.models.map(model => (
+                <tr key={`${model.provider}:${model.model}`} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                  <td className="py-2">{model.provider}</td>
+                  <td className="py-2 font-mono text-xs">{model.model}</td>
+                  <td className="py-2 text-right">{model.requests}</td>
+                  <td className="py-2 text-right">{model.inputTokens.toLocaleString()}</td>
+                  <td className="py-2 text-right">{model.outputTokens.toLocaleString()}</td>
+                  <td className="py-2 text-right">{money(model.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,328 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { PublicApiKey } from '@/lib/auth'
+import { Role, ROLE_DESCRIPTIONS, ROLES } from '@/lib/roles'
+import type { WorkspaceMember, WorkspaceProviders } from '@/lib/workspaces'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+const buttonClass = 'px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg disabled:opacity-50'
+
+const primaryButtonClass = 'bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-200'
+
+const PROVIDERS_EXAMPLE = `{
+  "chain": ["claude"],
+  "providers": {
+    "claude": { "type": "anthropic", "model": "claude-3-5-sonnet-20241022", "apiKey": "sk-ant-..." }
+  }
+}`
+
+// The editor never shows stored keys; leaving apiKey out keeps them.
+function toEditor(providers: WorkspaceProviders): string {
+  if (providers.source === 'server') return ''
+  const entries = Object.fromEntries(Object.entries(providers.providers).map(([id, { hasApiKey, ...entry }]) => [id, entry]))
+  return JSON.stringify({ ...(providers.chain && { chain: providers.chain }), providers: entries }, null, 2)
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init?.body ? { ...init, headers: { 'Content-Type': 'application/json' } } : init)
+  if (response.status === 204) return undefined as T
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Request failed')
+  return data
+}
+
+export default function WorkspacePage() {
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [apiKeys, setApiKeys] = useState<PublicApiKey[]>([])
+  const [providers, setProviders] = useState<WorkspaceProviders | undefined>()
+  const [providersText, setProvidersText] = useState('')
+  const [memberForm, setMemberForm] = useState({ email: '', name: '', password: '', role: 'analyst' as Role })
+  const [keyForm, setKeyForm] = useState({ name: '', role: 'analyst' as Role, rateLimitPerMinute: '' })
+  const [newKey, setNewKey] = useState('')
+  const [workspaceName, setWorkspaceName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const load = useCallback(async () => {
+    try {
+      const [memberData, keyData, providerData] = await Promise.all([
+        request<{ members: WorkspaceMember[] }>('/api/workspace/members'),
+        request<{ apiKeys: PublicApiKey[] }>('/api/workspace/api-keys'),
+        request<WorkspaceProviders>('/api/workspace/providers')
+      ])
+      setMembers(memberData.members)
+      setApiKeys(keyData.apiKeys)
+      setProviders(providerData)
+      setProvidersText(toEditor(providerData))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the workspace')
+      console.error(err)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true)
+    setError('')
+    setNotice('')
+    try {
+      const message = await action()
+      if (message) setNotice(message)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      console.error(err)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addMember = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const member = await request<WorkspaceMember>('/api/workspace/members', { method: 'POST', body: JSON.stringify(memberForm) })
+      setMemberForm({ email: '', name: '', password: '', role: 'analyst' })
+      return `${member.email} added as ${member.role}`
+    })
+  }
+
+  const createKey = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const { rateLimitPerMinute, ...fields } = keyForm
+      const body = { ...fields, ...(rateLimitPerMinute.trim() && { rateLimitPerMinute: Number(rateLimitPerMinute) }) }
+      const created = await request<{ key: string }>('/api/workspace/api-keys', { method: 'POST', body: JSON.stringify(body) })
+      setNewKey(created.key)
+      setKeyForm({ name: '', role: 'analyst', rateLimitPerMinute: '' })
+    })
+  }
+
+  const saveProviders = () => run(async () => {
+    let config: unknown
+    try {
+      config = JSON.parse(providersText)
+    } catch {
+      throw new Error('Provider settings must be valid JSON')
+    }
+    await request('/api/workspace/providers', { method: 'PUT', body: JSON.stringify(config) })
+    return 'Provider settings saved'
+  })
+
+  const createWorkspace = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const workspace = await request<{ id: string }>('/api/workspaces', { method: 'POST', body: JSON.stringify({ name: workspaceName }) })
+      await request('/api/auth/session', { method: 'PUT', body: JSON.stringify({ workspaceId: workspace.id }) })
+      window.location.reload()
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <header className="mb-2">
+          <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">
+            Workspace
+          </h1>
+          <p className="text-slate-600 dark:text-slate-300">
+            Members, API keys and model providers. History, the profile and automation rules are kept separately for each workspace.
+          </p>
+        </header>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+            {notice}
+          </div>
+        )}
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">Members</h2>
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2">Name</th>
+                <th className="py-2">Email</th>
+                <th className="py-2">Sign-in</th>
+                <th className="py-2">Role</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.id} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                  <td className="py-2">{member.name}</td>
+                  <td className="py-2">{member.email}</td>
+                  <td className="py-2">{member.passwordLogin ? 'Password' : 'Single sign-on'}</td>
+                  <td className="py-2">
+                    <select
+                      value={member.role}
+                      disabled={busy}
+                      onChange={(e) => run(async () => {
+                        await request(`/api/workspace/members/${member.id}`, { method: 'PATCH', body: JSON.stringify({ role: e.target.value }) })
+                      })}
+                      className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      disabled={busy}
+                      onClick={() => run(async () => {
+                        await request(`/api/workspace/members/${member.id}`, { method: 'DELETE' })
+                        return `${member.email} removed`
+                      })}
+                      className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <form onSubmit={addMember} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <input type="email" required placeholder="Email" value={memberForm.email} onChange={(e) => setMemberForm(current => ({ ...current, email: e.target.value }))} className={inputClass} />
+            <input type="text" placeholder="Name" value={memberForm.name} onChange={(e) => setMemberForm(current => ({ ...current, name: e.target.value }))} className={inputClass} />
+            <input type="password" placeholder="Password (blank for SSO only)" value={memberForm.password} onChange={(e) => setMemberForm(current => ({ ...current, password: e.target.value }))} autoComplete="new-password" className={inputClass} />
+            <select value={memberForm.role} onChange={(e) => setMemberForm(current => ({ ...current, role: e.target.value as Role }))} className={inputClass}>
+              {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <button type="submit" disabled={busy} className={primaryButtonClass}>Add Member</button>
+          </form>
+          <ul className="mt-3 text-xs text-slate-500 dark:text-slate-400 space-y-1">
+            {ROLES.map(role => <li key={role}><span className="font-medium">{role}:</span> {ROLE_DESCRIPTIONS[role]}</li>)}
+          </ul>
+        </section>
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">API Keys</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Send as <code>Authorization: Bearer &lt;key&gt;</code> to /api/analyze and the other API routes, or as <code>?token=</code> on the inbound email webhook.
+          </p>
+
+          {newKey && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-4 text-sm">
+              Copy this key now. It will not be shown again.
+              <code className="block mt-2 font-mono break-all">{newKey}</code>
+            </div>
+          )}
+
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2">Name</th>
+                <th className="py-2">Key</th>
+                <th className="py-2">Role</th>
+                <th className="py-2">Rate limit</th>
+                <th className="py-2">Last used</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.length === 0 && (
+                <tr><td colSpan={6} className="py-3 text-slate-500 dark:text-slate-400">No API keys yet</td></tr>
+              )}
+              {apiKeys.map(apiKey => (
+                <tr key={apiKey.id} className="border-b border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+                  <td className="py-2">{apiKey.name}</td>
+                  <td className="py-2 font-mono">{apiKey.prefix}…</td>
+                  <td className="py-2">{apiKey.role}</td>
+                  <td className="py-2">
+                    {apiKey.rateLimitPerMinute === undefined ? 'Default' : apiKey.rateLimitPerMinute === 0 ? 'Unlimited' : `${apiKey.rateLimitPerMinute}/min`}
+                  </td>
+                  <td className="py-2">{apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      disabled={busy}
+                      onClick={() => run(async () => {
+                        await request(`/api/workspace/api-keys/${apiKey.id}`, { method: 'DELETE' })
+                        return `${apiKey.name} revoked`
+                      })}
+                      className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <form onSubmit={createKey} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <input type="text" required placeholder="Key name, e.g. Mail gateway" value={keyForm.name} onChange={(e) => setKeyForm(current => ({ ...current, name: e.target.value }))} className={inputClass} />
+            <select value={keyForm.role} onChange={(e) => setKeyForm(current => ({ ...current, role: e.target.value as Role }))} className={inputClass}>
+              {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <input
+              type="number"
+              min={0}
+              placeholder="Analyses per minute (0 = unlimited)"
+              value={keyForm.rateLimitPerMinute}
+              onChange={(e) => setKeyForm(current => ({ ...current, rateLimitPerMinute: e.target.value }))}
+              className={inputClass}
+            />
+            <button type="submit" disabled={busy} className={primaryButtonClass}>Create API Key</button>
+          </form>
+        </section>
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">Model Providers</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            {providers?.source === 'workspace'
+              ? 'This workspace uses its own providers and keys. Leave apiKey out to keep a stored key.'
+              : 'This workspace uses the server-wide providers. Save a configuration below to use its own keys instead.'}
+          </p>
+          {providers?.source === 'workspace' && (
+            <ul className="text-xs text-slate-600 dark:text-slate-300 mb-3 space-y-1">
+              {Object.entries(providers.providers).map(([id, entry]) => (
+                <li key={id}><span className="font-medium">{id}</span>: {entry.type} {entry.model || ''} · {entry.hasApiKey ? 'key stored' : 'no key'}</li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            value={providersText}
+            onChange={(e) => setProvidersText(e.target.value)}
+            placeholder={PROVIDERS_EXAMPLE}
+            className={`${inputClass} h-48 font-mono resize-y`}
+          />
+          <div className="flex gap-3 mt-3">
+            <button onClick={saveProviders} disabled={busy || !providersText.trim()} className={primaryButtonClass}>Save Providers</button>
+            {providers?.source === 'workspace' && (
+              <button
+                onClick={() => run(async () => {
+                  await request('/api/workspace/providers', { method: 'DELETE' })
+                  return 'Now using the server-wide providers'
+                })}
+                disabled={busy}
+                className={buttonClass}
+              >
+                Use Server Providers
+              </button>
+            )}
+          </div>
+        </section>
+
+        <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">New Workspace</h2>
+          <form onSubmit={createWorkspace} className="flex gap-3">
+            <input type="text" required placeholder="Workspace name" value={workspaceName} onChange={(e) => setWorkspaceName(e.target.value)} className={inputClass} />
+            <button type="submit" disabled={busy} className={`${primaryButtonClass} whitespace-nowrap`}>Create and Switch</button>
+          </form>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import type { SessionInfo } from '@/lib/auth'
+import { hasRole } from '@/lib/roles'
+
+export default function AccountMenu() {
+  const pathname = usePathname()
+  const [session, setSession] = useState<SessionInfo | undefined>()
+
+  useEffect(() => {
+    if (pathname === '/login') return
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/auth/session')
+        if (response.status === 401) {
+          window.location.href = `/login?returnTo=${encodeURIComponent(pathname)}`
+          return
+        }
+        if (!response.ok) throw new Error('Failed to load session')
+        setSession(await response.json())
+      } catch (err) {
+        console.error(err)
+      }
+    }
+    load()
+  }, [pathname])
+
+  if (pathname === '/login' || !session?.user) return null
+
+  const switchWorkspace = async (workspaceId: string) => {
+    const response = await fetch('/api/auth/session', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ workspaceId }),
+    })
+    if (response.ok) window.location.reload()
+  }
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    window.location.href = '/login'
+  }
+
+  return (
+    <div className="ml-auto flex items-center gap-3 text-xs font-normal text-slate-600 dark:text-slate-300">
+      {hasRole(session.role, 'admin') && (
+        <>
+          <Link href="/usage" className="text-sm font-medium text-slate-700 dark:text-slate-200 hover:text-blue-600">Usage</Link>
+          <Link href="/workspace" className="text-sm font-medium text-slate-700 dark:text-slate-200 hover:text-blue-600">Workspace</Link>
+        </>
+      )}
+      <select
+        value={session.workspaceId}
+        onChange={(e) => switchWorkspace(e.target.value)}
+        className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+      >
+        {session.workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+        ))}
+      </select>
+      <span>{session.user.name} · {session.role}</span>
+      <button onClick={logout} className="text-slate-700 dark:text-slate-200 hover:text-blue-600">Sign out</button>
+    </div>
+  )
+}
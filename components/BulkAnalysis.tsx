@@ -0,0 +1,257 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { BatchItemResult, BatchSummary, DEFAULT_CSV_COLUMNS, toCsv } from '@/lib/batch'
+import { download, getRiskColor } from '@/lib/display'
+import { INTENT_LABELS, intentLabel, matchesIntent } from '@/lib/intent'
+
+type UploadFormat = 'csv' | 'mbox' | 'json'
+type SortKey = 'index' | 'risk' | 'intent' | 'lead'
+
+const RISK_ORDER: Record<string, number> = {
+  'High Risk Fraud': 2,
+  'Suspicious': 1,
+  'Safe': 0
+}
+
+function detectFormat(fileName: string): UploadFormat {
+  if (/\.json$/i.test(fileName)) return 'json'
+  if (/\.(mbox|mbx)$/i.test(fileName)) return 'mbox'
+  return 'csv'
+}
+
+export default function BulkAnalysis() {
+  const [fileName, setFileName] = useState('')
+  const [fileContent, setFileContent] = useState('')
+  const [format, setFormat] = useState<UploadFormat>('csv')
+  const [columns, setColumns] = useState({ ...DEFAULT_CSV_COLUMNS })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [results, setResults] = useState<BatchItemResult[]>([])
+  const [summary, setSummary] = useState<BatchSummary | null>(null)
+  const [sortKey, setSortKey] = useState<SortKey>('index')
+  const [sortDescending, setSortDescending] = useState(false)
+  const [intentFilter, setIntentFilter] = useState('')
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setFormat(detectFormat(file.name))
+    setFileContent(await file.text())
+  }
+
+  const analyzeBatch = async () => {
+    setLoading(true)
+    setError('')
+    setResults([])
+    setSummary(null)
+
+    try {
+      let payload: object
+      if (format === 'json') {
+        const parsed = JSON.parse(fileContent)
+        payload = { items: Array.isArray(parsed) ? parsed : parsed.items }
+      } else if (format === 'mbox') {
+        payload = { mbox: fileContent }
+      } else {
+        payload = { csv: fileContent, columns }
+      }
+
+      const response = await fetch('/api/analyze/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Batch analysis failed')
+      }
+
+      setResults(data.results)
+      setSummary(data.summary)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze batch. Please try again.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const sortedResults = useMemo(() => {
+    const value = (item: BatchItemResult): number | string => {
+      if (sortKey === 'risk') return RISK_ORDER[item.result?.riskLevel || ''] ?? -1
+      if (sortKey === 'intent') return intentLabel(item.result)
+      if (sortKey === 'lead') return item.result?.leadQualityScore ?? -1
+      return item.index
+    }
+    const visible = intentFilter ? results.filter(item => matchesIntent(item.result, intentFilter)) : results
+    return [...visible].sort((a, b) => {
+      const left = value(a)
+      const right = value(b)
+      const order = left < right ? -1 : left > right ? 1 : 0
+      return sortDescending ? -order : order
+    })
+  }, [results, sortKey, sortDescending, intentFilter])
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending)
+    } else {
+      setSortKey(key)
+      setSortDescending(key !== 'index')
+    }
+  }
+
+  const exportCsv = () => {
+    const rows = results.map(item => [
+      item.index + 1,
+      item.result?.email?.from || item.senderInfo,
+      item.preview,
+      item.result?.riskLevel,
+      intentLabel(item.result),
+      item.result?.leadQualityScore,
+      item.result?.reason,
+      item.result?.recommendedAction,
+      item.error
+    ])
+    download('analysis-results.csv', toCsv([
+      ['#', 'Sender', 'Preview', 'Risk Level', 'Intent', 'Lead Score', 'Reason', 'Recommended Action', 'Error'],
+      ...rows
+    ]), 'text/csv')
+  }
+
+  const exportJson = () => {
+    download('analysis-results.json', JSON.stringify({ summary, results }, null, 2), 'application/json')
+  }
+
+  const sortIndicator = (key: SortKey) => sortKey === key ? (sortDescending ? ' ▼' : ' ▲') : ''
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+        <h2 className="text-2xl font-semibold text-slate-900 dark:text-white">
+          Bulk Upload
+        </h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          Upload a CSV export, an mbox mailbox file, or a JSON array of {'{ message, senderInfo, context }'} items.
+        </p>
+
+        <input
+          type="file"
+          accept=".csv,.mbox,.mbx,.json,text/csv,application/mbox,application/json"
+          onChange={(e) => loadFile(e.target.files?.[0])}
+          className="block w-full text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+
+        {fileName && (
+          <div className="flex items-center gap-4 text-sm text-slate-700 dark:text-slate-300">
+            <span>{fileName}</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as UploadFormat)}
+              className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg dark:bg-slate-700"
+            >
+              <option value="csv">CSV</option>
+              <option value="mbox">mbox</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+        )}
+
+        {format === 'csv' && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([['message', 'Message column *'], ['senderInfo', 'Sender column'], ['context', 'Context column']] as const).map(([key, label]) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{label}</label>
+                <input
+                  type="text"
+                  value={columns[key] || ''}
+                  onChange={(e) => setColumns({ ...columns, [key]: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={analyzeBatch}
+          disabled={loading || !fileContent}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-4 px-6 rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg disabled:cursor-not-allowed"
+        >
+          {loading ? 'Analyzing batch...' : 'Analyze Batch'}
+        </button>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {summary && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="text-slate-700 dark:text-slate-300">
+              <span className="font-semibold">{summary.total}</span> analyzed • <span className="text-green-600">{summary.succeeded} succeeded</span> • <span className="text-red-600">{summary.failed} failed</span>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={intentFilter}
+                onChange={(e) => setIntentFilter(e.target.value)}
+                className="px-2 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg dark:bg-slate-700 dark:text-white"
+              >
+                <option value="">All intents</option>
+                {Object.entries(INTENT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+              <button onClick={exportCsv} className="px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg">
+                Export CSV
+              </button>
+              <button onClick={exportJson} className="px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg">
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-4 cursor-pointer" onClick={() => toggleSort('index')}>#{sortIndicator('index')}</th>
+                  <th className="py-2 pr-4">Sender / Preview</th>
+                  <th className="py-2 pr-4 cursor-pointer" onClick={() => toggleSort('risk')}>Risk{sortIndicator('risk')}</th>
+                  <th className="py-2 pr-4 cursor-pointer" onClick={() => toggleSort('intent')}>Intent{sortIndicator('intent')}</th>
+                  <th className="py-2 cursor-pointer" onClick={() => toggleSort('lead')}>Lead Score{sortIndicator('lead')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map(item => (
+                  <tr key={item.index} className="border-b border-slate-100 dark:border-slate-700 align-top">
+                    <td className="py-2 pr-4 text-slate-500">{item.index + 1}</td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">
+                      <div className="font-medium">{item.result?.email?.from || item.senderInfo || 'Unknown sender'}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{item.preview}</div>
+                      {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {item.result && (
+                        <span className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold ${getRiskColor(item.result.riskLevel)}`}>
+                          {item.result.riskLevel}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">{intentLabel(item.result)}</td>
+                    <td className="py-2 text-slate-700 dark:text-slate-300">{item.result?.leadQualityScore || ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link'
+import { getRiskColor, REVIEW_LABELS } from '@/lib/display'
+import type { DuplicateSummary } from '@/lib/duplicates'
+import type { ReviewStatus } from '@/lib/history'
+import type { RiskLevel } from '@/lib/schema'
+
+export default function CampaignMatches({ duplicates, onShowCampaign }: { duplicates: DuplicateSummary, onShowCampaign?: (campaignId: string) => void }) {
+  const { count, exactCount, firstSeenAt, lastSeenAt, riskLevels, reviews, cachedFrom, reconciled, campaignId } = duplicates
+  const reviewed = (Object.entries(reviews) as [ReviewStatus, number][]).filter(([status]) => status !== 'open')
+  const linkClass = 'text-xs font-medium text-blue-600 hover:text-blue-700'
+
+  return (
+    <div className="border-l-4 border-purple-300 pl-4">
+      <div className="font-semibold text-slate-900 dark:text-white mb-1">Campaign</div>
+      <div className="text-sm text-slate-700 dark:text-slate-300">
+        Matches {count} earlier {count === 1 ? 'message' : 'messages'}, first seen on {new Date(firstSeenAt).toLocaleString()}
+        {count > 1 && `, last on ${new Date(lastSeenAt).toLocaleString()}`}
+        {exactCount > 0 && ` (${exactCount} identical)`}.
+      </div>
+      <div className="flex flex-wrap gap-2 my-2">
+        {(Object.entries(riskLevels) as [RiskLevel, number][]).map(([level, levelCount]) => (
+          <span key={level} className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold ${getRiskColor(level)}`}>
+            {level} × {levelCount}
+          </span>
+        ))}
+      </div>
+      {reviewed.length > 0 && (
+        <div className="text-xs text-slate-600 dark:text-slate-300">
+          Reviewed as {reviewed.map(([status, statusCount]) => `${REVIEW_LABELS[status]} × ${statusCount}`).join(', ')}
+        </div>
+      )}
+      {cachedFrom && (
+        <div className="text-xs text-slate-500 dark:text-slate-400">The verdict was reused from an identical message; no model was called.</div>
+      )}
+      {reconciled && (
+        <div className="text-xs text-red-700 mt-1">{reconciled}</div>
+      )}
+      <div className="mt-2">
+        {onShowCampaign ? (
+          <button onClick={() => onShowCampaign(campaignId)} className={linkClass}>Show every message in this campaign</button>
+        ) : (
+          <Link href={`/history?campaign=${encodeURIComponent(campaignId)}`} className={linkClass}>Show every message in this campaign</Link>
+        )}
+      </div>
+    </div>
+  )
+}
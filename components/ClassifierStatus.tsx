@@ -0,0 +1,119 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ClassifierInfo } from '@/lib/classifier'
+
+interface ClassifierReport {
+  current?: ClassifierInfo
+  versions: ClassifierInfo[]
+  minTrainingExamples: number
+  confidence: number
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+function status(report: ClassifierReport): string {
+  const { current, minTrainingExamples } = report
+  if (!current) return 'Not trained yet. Give feedback on analyses in the history to train it.'
+  if (current.active) return 'In use: it can raise offline and model verdicts it is confident about, never lower them.'
+  if (current.trainingSize < minTrainingExamples) return `Not in use until it has feedback on ${minTrainingExamples} analyses.`
+  return 'Not in use: it is not yet more accurate than the verdicts it learned from.'
+}
+
+export default function ClassifierStatus() {
+  const [report, setReport] = useState<ClassifierReport | null>(null)
+  const [training, setTraining] = useState(false)
+  const [error, setError] = useState('')
+
+  const load = async () => {
+    const response = await fetch('/api/classifier')
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load classifier')
+    }
+    setReport(data)
+  }
+
+  useEffect(() => {
+    load().catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load classifier. Please try again.')
+      console.error(err)
+    })
+  }, [])
+
+  const retrain = async () => {
+    setTraining(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/classifier', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to train classifier')
+      }
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to train classifier. Please try again.')
+      console.error(err)
+    } finally {
+      setTraining(false)
+    }
+  }
+
+  const current = report?.current
+
+  return (
+    <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">Learned Classifier</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+        A naive Bayes model trained on reviewer feedback, over the words of each message and the evidence the rules found.{report && ` It only changes a verdict when at least ${percent(report.confidence)} sure.`}
+      </p>
+
+      {report && (
+        <div className="text-sm text-slate-700 dark:text-slate-300 space-y-2 mb-4">
+          <div>{status(report)}</div>
+          {current && (
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Version</dt>
+                <dd className="font-semibold">v{current.version} • {new Date(current.trainedAt).toLocaleString()}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Training Size</dt>
+                <dd className="font-semibold">{current.trainingSize} analyses</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Risk Accuracy ({current.validation?.folds ?? 5}-fold)</dt>
+                <dd className="font-semibold">
+                  {current.validation ? `${percent(current.validation.riskAccuracy)} vs ${percent(current.validation.baselineRiskAccuracy)} before review` : 'Too few examples'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-slate-500 dark:text-slate-400">Intent Accuracy</dt>
+                <dd className="font-semibold">
+                  {current.validation ? `${percent(current.validation.intentAccuracy)} vs ${percent(current.validation.baselineIntentAccuracy)} before review` : 'Too few examples'}
+                </dd>
+              </div>
+            </dl>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={retrain}
+        disabled={training}
+        className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+      >
+        {training ? 'Training...' : 'Retrain Now'}
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { KnownPayee, KnownPayeeInput } from '@/lib/payments'
+
+interface PayeeForm {
+  name: string
+  senders: string
+  accounts: string
+}
+
+const EMPTY_FORM: PayeeForm = { name: '', senders: '', accounts: '' }
+
+function toForm(payee: KnownPayee): PayeeForm {
+  return { name: payee.name, senders: payee.senders.join('\n'), accounts: payee.accounts.join('\n') }
+}
+
+function toInput(form: PayeeForm): KnownPayeeInput {
+  const lines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+  return { name: form.name, senders: lines(form.senders), accounts: lines(form.accounts) }
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = response.status === 204 ? {} : await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || fallback)
+  }
+  return data
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+const labelClass = 'block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1'
+
+export default function KnownPayees() {
+  const [payees, setPayees] = useState<KnownPayee[]>([])
+  const [form, setForm] = useState<PayeeForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetch('/api/payees')
+      .then(response => readJson(response, 'Failed to load known payees'))
+      .then(data => setPayees(data.payees))
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to load known payees. Please try again.')
+        console.error(err)
+      })
+  }, [])
+
+  const startEditing = (payee: KnownPayee | null) => {
+    setEditingId(payee?.id || null)
+    setForm(payee ? toForm(payee) : EMPTY_FORM)
+    setError('')
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch(editingId ? `/api/payees/${editingId}` : '/api/payees', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toInput(form)),
+      })
+      const saved: KnownPayee = await readJson(response, 'Failed to save payee')
+      setPayees(current => [...current.filter(item => item.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      startEditing(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save payee. Please try again.')
+      console.error(err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (payee: KnownPayee) => {
+    if (!confirm(`Delete the payment details of "${payee.name}"?`)) return
+
+    try {
+      await readJson(await fetch(`/api/payees/${payee.id}`, { method: 'DELETE' }), 'Failed to delete payee')
+      if (editingId === payee.id) startEditing(null)
+      setPayees(current => current.filter(item => item.id !== payee.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete payee. Please try again.')
+      console.error(err)
+    }
+  }
+
+  return (
+    <section className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">Known Payees</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+        Verified payment details of vendors and partners. Bank details in a message from one of their senders that are not listed here are treated as changed and raise the risk to High Risk Fraud.
+      </p>
+
+      {payees.length > 0 && (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 mb-6">
+          {payees.map(payee => (
+            <li key={payee.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="text-sm">
+                <div className="font-medium text-slate-900 dark:text-white">{payee.name}</div>
+                <div className="text-slate-600 dark:text-slate-300">{payee.senders.join(', ')}</div>
+                <div className="font-mono text-xs text-slate-500 dark:text-slate-400 break-all">{payee.accounts.join(', ')}</div>
+              </div>
+              <div className="flex gap-3 shrink-0">
+                <button onClick={() => startEditing(payee)} className="text-sm font-medium text-blue-600 hover:text-blue-700">Edit</button>
+                <button onClick={() => remove(payee)} className="text-sm font-medium text-red-600 hover:text-red-700">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={save} className="space-y-4">
+        <div>
+          <label className={labelClass}>Payee Name</label>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))}
+            placeholder="Acme Supplies Ltd"
+            className={inputClass}
+          />
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Sender Addresses or Domains (one per line)</label>
+            <textarea
+              value={form.senders}
+              onChange={(e) => setForm(current => ({ ...current, senders: e.target.value }))}
+              placeholder="billing@acme.com or acme.com"
+              className={`${inputClass} h-20 resize-y`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>IBANs or Account Numbers (one per line)</label>
+            <textarea
+              value={form.accounts}
+              onChange={(e) => setForm(current => ({ ...current, accounts: e.target.value }))}
+              placeholder="GB29 NWBK 6016 1331 9268 19"
+              className={`${inputClass} h-20 resize-y font-mono`}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+          >
+            {saving ? 'Saving...' : editingId ? 'Update Payee' : 'Add Payee'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={() => startEditing(null)} className="text-sm font-medium text-slate-600 hover:text-slate-800 dark:text-slate-300">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </section>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { download } from '@/lib/display'
+import { buildReplyEml, OriginalMessage } from '@/lib/eml'
+import type { RegeneratedReply } from '@/lib/replies'
+import { REPLY_TONE_LABELS, ReplyDraft, ReplyTone } from '@/lib/schema'
+
+interface ReplyDraftsProps {
+  replies: ReplyDraft[]
+  original: OriginalMessage
+  senderInfo?: string
+  context?: string
+  replyLanguage?: string
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+const buttonClass = 'px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg disabled:opacity-50'
+
+export default function ReplyDrafts({ replies, original, senderInfo, context, replyLanguage }: ReplyDraftsProps) {
+  const [drafts, setDrafts] = useState<ReplyDraft[]>(replies)
+  const [activeTone, setActiveTone] = useState<ReplyTone | undefined>(replies[0]?.tone)
+  const [instructions, setInstructions] = useState('')
+  const [regenerating, setRegenerating] = useState(false)
+  const [notice, setNotice] = useState('')
+
+  useEffect(() => {
+    setDrafts(replies)
+    setActiveTone(replies[0]?.tone)
+    setNotice('')
+  }, [replies])
+
+  const active = drafts.find(draft => draft.tone === activeTone)
+  if (!active) return null
+
+  const updateActive = (changes: Partial<ReplyDraft>) => {
+    setDrafts(current => current.map(draft => draft.tone === active.tone ? { ...draft, ...changes } : draft))
+  }
+
+  const regenerate = async () => {
+    setRegenerating(true)
+    setNotice('')
+
+    try {
+      const response = await fetch('/api/reply', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: original.body,
+          senderInfo: original.from || senderInfo,
+          context,
+          tone: active.tone,
+          subject: active.subject,
+          body: active.body,
+          instructions,
+          replyLanguage
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to regenerate reply')
+      }
+
+      const regenerated: RegeneratedReply = data
+      updateActive({ subject: regenerated.reply.subject, body: regenerated.reply.body })
+      setNotice(regenerated.note || '')
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to regenerate reply. Please try again.')
+      console.error(err)
+    } finally {
+      setRegenerating(false)
+    }
+  }
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(active.body)
+    setNotice('Reply copied to clipboard')
+  }
+
+  const downloadEml = () => {
+    download('reply.eml', buildReplyEml(original, active), 'message/rfc822')
+  }
+
+  return (
+    <div className="border border-slate-300 dark:border-slate-600 rounded-lg p-4 bg-slate-50 dark:bg-slate-700 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold text-slate-900 dark:text-white">Reply Drafts</div>
+        <div className="inline-flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden">
+          {drafts.map(draft => (
+            <button
+              key={draft.tone}
+              type="button"
+              onClick={() => setActiveTone(draft.tone)}
+              className={`px-3 py-1 text-xs font-medium transition-colors duration-200 ${draft.tone === active.tone ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+            >
+              {REPLY_TONE_LABELS[draft.tone]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={active.subject}
+        onChange={(e) => updateActive({ subject: e.target.value })}
+        placeholder="Subject"
+        className={inputClass}
+      />
+      <textarea
+        value={active.body}
+        onChange={(e) => updateActive({ body: e.target.value })}
+        className={`${inputClass} h-64 resize-y`}
+      />
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder='Instructions, e.g. "shorter" or "mention our SLA"'
+          className={inputClass}
+        />
+        <button type="button" onClick={regenerate} disabled={regenerating} className={`${buttonClass} whitespace-nowrap`}>
+          {regenerating ? 'Regenerating...' : 'Regenerate'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={copy} className={buttonClass}>Copy</button>
+        <button type="button" onClick={downloadEml} className={buttonClass}>Download .eml</button>
+        {notice && <span className="text-xs text-slate-500 dark:text-slate-400">{notice}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+export interface ThreadEntry {
+  sender: string
+  timestamp: string
+  message: string
+  rawEmail?: string
+  fileName?: string
+}
+
+export const EMPTY_THREAD_ENTRY: ThreadEntry = { sender: '', timestamp: '', message: '' }
+
+export function threadRequest(entries: ThreadEntry[]) {
+  return entries
+    .filter(entry => entry.rawEmail || entry.message.trim())
+    .map(entry => entry.rawEmail
+      ? { rawEmail: entry.rawEmail }
+      : { sender: entry.sender, timestamp: entry.timestamp ? new Date(entry.timestamp).toISOString() : undefined, message: entry.message })
+}
+
+interface ThreadInputProps {
+  entries: ThreadEntry[]
+  onChange: (entries: ThreadEntry[]) => void
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-slate-700 dark:text-white text-sm'
+
+export default function ThreadInput({ entries, onChange }: ThreadInputProps) {
+  const update = (index: number, changes: Partial<ThreadEntry>) => {
+    onChange(entries.map((entry, current) => current === index ? { ...entry, ...changes } : entry))
+  }
+
+  const importEmails = async (files: FileList | null) => {
+    if (!files) return
+    const imported = await Promise.all(Array.from(files).map(async file => ({
+      ...EMPTY_THREAD_ENTRY,
+      rawEmail: await file.text(),
+      fileName: file.name
+    })))
+    onChange([...entries.filter(entry => entry.rawEmail || entry.message.trim()), ...imported])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-slate-600 dark:text-slate-300">
+        Add the messages oldest first. Changes between messages, such as new payment details or a new reply-to address, are flagged.
+      </div>
+
+      {entries.map((entry, index) => (
+        <div key={index} className="border border-slate-200 dark:border-slate-600 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">Message {index + 1}</span>
+            {entries.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(entries.filter((_, current) => current !== index))}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          {entry.rawEmail ? (
+            <div className="text-sm text-slate-700 dark:text-slate-300">Raw email: {entry.fileName}</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={entry.sender}
+                  onChange={(e) => update(index, { sender: e.target.value })}
+                  placeholder="Sender, e.g. Anna <anna@vendor.com>"
+                  className={inputClass}
+                />
+                <input
+                  type="datetime-local"
+                  value={entry.timestamp}
+                  onChange={(e) => update(index, { timestamp: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <textarea
+                value={entry.message}
+                onChange={(e) => update(index, { message: e.target.value })}
+                placeholder="Message text..."
+                className={`${inputClass} h-24 resize-none`}
+              />
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onChange([...entries, { ...EMPTY_THREAD_ENTRY }])}
+          className="px-4 py-2 text-sm font-medium bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 dark:text-white rounded-lg"
+        >
+          Add Message
+        </button>
+        <input
+          type="file"
+          multiple
+          accept=".eml,message/rfc822,.txt"
+          onChange={(e) => importEmails(e.target.files)}
+          className="text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+      </div>
+    </div>
+  )
+}
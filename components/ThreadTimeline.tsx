@@ -0,0 +1,53 @@
+import { getRiskColor } from '@/lib/display'
+import type { ThreadSummary } from '@/lib/thread'
+
+const SEVERITY_COLORS = {
+  high: 'text-red-700',
+  medium: 'text-yellow-700',
+  low: 'text-slate-500'
+}
+
+export default function ThreadTimeline({ thread }: { thread: ThreadSummary }) {
+  return (
+    <div className="border-l-4 border-blue-300 pl-4">
+      <div className="font-semibold text-slate-900 dark:text-white mb-2">Thread Timeline</div>
+      <ol className="space-y-3">
+        {thread.messages.map(message => {
+          const changes = thread.changes.filter(change => change.messageIndex === message.index)
+          const introducedRisk = thread.riskIntroducedAt === message.index
+          return (
+            <li
+              key={message.index}
+              className={`rounded-lg p-3 text-sm border ${introducedRisk ? 'border-red-400 bg-red-50 dark:bg-red-900/20' : 'border-slate-200 dark:border-slate-600'}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-slate-900 dark:text-white">
+                  {message.index + 1}. {message.sender}
+                </span>
+                <span className={`inline-block border rounded px-2 py-0.5 text-xs font-semibold ${getRiskColor(message.riskLevel)}`}>
+                  {message.riskLevel}
+                </span>
+              </div>
+              {message.timestamp && (
+                <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(message.timestamp).toLocaleString()}</div>
+              )}
+              <div className="text-slate-700 dark:text-slate-300 mt-1">{message.preview}</div>
+              {introducedRisk && (
+                <div className="text-xs font-semibold text-red-700 mt-2">Risk introduced here</div>
+              )}
+              {changes.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {changes.map(change => (
+                    <li key={change.type} className={SEVERITY_COLORS[change.severity]}>
+                      [{change.severity}] {change.description.replace(/^Message \d+: /, '')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+import { toCsv } from './batch'
+import { REVIEW_LABELS } from './display'
+import { parseAddress } from './email'
+import { getHistoryRecords, HISTORY_SOURCES, HistoryRecord, HistorySource, senderOf } from './history'
+import { intentOf } from './intent'
+import { emptyIntentScores, Intent, INTENTS, RISK_LEVELS, RiskLevel } from './schema'
+
+export type AnalyticsInterval = 'day' | 'week'
+
+export const ANALYTICS_DATASETS = ['series', 'domains', 'leads', 'reviews', 'analyses'] as const
+
+export type AnalyticsDataset = typeof ANALYTICS_DATASETS[number]
+
+export interface AnalyticsQuery {
+  since?: string
+  until?: string
+  interval?: string
+}
+
+export interface SeriesPoint {
+  period: string
+  total: number
+  risk: Record<RiskLevel, number>
+  intents: Record<Intent, number>
+}
+
+export interface SenderDomainStats {
+  domain: string
+  total: number
+  highRisk: number
+  suspicious: number
+  riskRate: number
+}
+
+export interface ReviewStats {
+  riskLevel: RiskLevel
+  total: number
+  reviewed: number
+  confirmedFraud: number
+  falsePositive: number
+  falsePositiveRate?: number
+}
+
+export interface AnalyticsReport {
+  range: { since: string, until: string, interval: AnalyticsInterval }
+  workspaces: { id: string, name: string }[]
+  totals: {
+    analyses: number
+    risk: Record<RiskLevel, number>
+    intents: Record<Intent, number>
+  }
+  series: SeriesPoint[]
+  senderDomains: SenderDomainStats[]
+  leads: {
+    total: number
+    averageScore?: number
+    distribution: { score: number, count: number }[]
+    bySource: { source: HistorySource, leads: number, averageScore?: number, counts: number[] }[]
+  }
+  reviews: {
+    byRiskLevel: ReviewStats[]
+    falsePositiveRate?: number
+  }
+  complaints: {
+    total: number
+    handled: number
+    open: number
+    averageHoursToHandle?: number
+    medianHoursToHandle?: number
+  }
+}
+
+export class AnalyticsInputError extends Error {}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+const DAILY_LIMIT_DAYS = 62
+const TOP_DOMAINS = 20
+
+function emptyRiskCounts(): Record<RiskLevel, number> {
+  return { Safe: 0, Suspicious: 0, 'High Risk Fraud': 0 }
+}
+
+function day(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function parseDay(value: string | undefined, field: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(`${value.slice(0, 10)}T00:00:00.000Z`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.slice(0, 10)) || Number.isNaN(date.getTime())) {
+    throw new AnalyticsInputError(`${field} must be a date like 2024-01-31`)
+  }
+  return date
+}
+
+/**
+ * Dates are whole UTC days and both ends are included. Ranges longer than two
+ * months are bucketed by week (starting Monday) unless an interval is given.
+ */
+export function resolveRange(query: AnalyticsQuery): AnalyticsReport['range'] {
+  const until = parseDay(query.until, 'until') || new Date(`${day(new Date())}T00:00:00.000Z`)
+  const since = parseDay(query.since, 'since') || new Date(until.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+  const days = Math.round((until.getTime() - since.getTime()) / DAY_MS) + 1
+
+  if (days < 1) throw new AnalyticsInputError('since must not be after until')
+  if (days > MAX_RANGE_DAYS) throw new AnalyticsInputError(`Date ranges are limited to ${MAX_RANGE_DAYS} days`)
+  if (query.interval && query.interval !== 'day' && query.interval !== 'week') throw new AnalyticsInputError('interval must be day or week')
+
+  const interval = (query.interval as AnalyticsInterval | undefined) || (days > DAILY_LIMIT_DAYS ? 'week' : 'day')
+  return { since: day(since), until: day(until), interval }
+}
+
+function periodOf(createdAt: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${createdAt.slice(0, 10)}T00:00:00.000Z`)
+  if (interval === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+  return day(date)
+}
+
+function periods(range: AnalyticsReport['range']): string[] {
+  const result: string[] = []
+  for (let period = periodOf(range.since, range.interval); period <= range.until;) {
+    result.push(period)
+    const next = new Date(`${period}T00:00:00.000Z`)
+    next.setUTCDate(next.getUTCDate() + (range.interval === 'week' ? 7 : 1))
+    period = day(next)
+  }
+  return result
+}
+
+export function senderDomainOf(record: HistoryRecord): string | undefined {
+  return parseAddress(senderOf(record))?.address.split('@')[1]
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  return Math.round(value * 10) / 10
+}
+
+function rate(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round(part / whole * 1000) / 1000 : undefined
+}
+
+function scoreCounts(records: HistoryRecord[]): number[] {
+  const counts = new Array<number>(10).fill(0)
+  for (const record of records) counts[Math.min(Math.max(Math.round(record.result.leadQualityScore), 1), 10) - 1]++
+  return counts
+}
+
+function primaryIntent(record: HistoryRecord): Intent {
+  return intentOf(record.result)?.primary || 'inquiry'
+}
+
+async function recordsInRange(workspaceIds: string[], range: AnalyticsReport['range']): Promise<HistoryRecord[]> {
+  const end = day(new Date(new Date(`${range.until}T00:00:00.000Z`).getTime() + DAY_MS))
+  const records = await Promise.all(workspaceIds.map(workspaceId => getHistoryRecords(workspaceId)))
+  return records.flat().filter(record => record.createdAt >= range.since && record.createdAt < end)
+}
+
+/**
+ * Aggregates stored analyses for the dashboard. Lead quality only counts
+ * analyses with a score, and false-positive rates only count flagged analyses
+ * a reviewer has labelled as confirmed fraud or false positive.
+ */
+export async function analyticsReport(workspaces: { id: string, name: string }[], query: AnalyticsQuery): Promise<AnalyticsReport> {
+  const range = resolveRange(query)
+  const records = await recordsInRange(workspaces.map(workspace => workspace.id), range)
+
+  const series = new Map(periods(range).map(period => [period, { period, total: 0, risk: emptyRiskCounts(), intents: emptyIntentScores() }]))
+  const totals = { analyses: records.length, risk: emptyRiskCounts(), intents: emptyIntentScores() }
+  const domains = new Map<string, SenderDomainStats>()
+  const reviews = new Map(RISK_LEVELS.map(riskLevel => [riskLevel, { riskLevel, total: 0, reviewed: 0, confirmedFraud: 0, falsePositive: 0 } as ReviewStats]))
+  const complaintHours: number[] = []
+  let complaints = 0
+  let openComplaints = 0
+
+  for (const record of records) {
+    const { riskLevel } = record.result
+    const intent = primaryIntent(record)
+    const point = series.get(periodOf(record.createdAt, range.interval))
+    if (point) {
+      point.total++
+      point.risk[riskLevel]++
+      point.intents[intent]++
+    }
+    totals.risk[riskLevel]++
+    totals.intents[intent]++
+
+    const domain = senderDomainOf(record)
+    if (domain) {
+      const stats = domains.get(domain) || { domain, total: 0, highRisk: 0, suspicious: 0, riskRate: 0 }
+      stats.total++
+      if (riskLevel === 'High Risk Fraud') stats.highRisk++
+      if (riskLevel === 'Suspicious') stats.suspicious++
+      domains.set(domain, stats)
+    }
+
+    const review = reviews.get(riskLevel)!
+    review.total++
+    if (record.review.status !== 'open') review.reviewed++
+    if (record.review.status === 'confirmed_fraud') review.confirmedFraud++
+    if (record.review.status === 'false_positive') review.falsePositive++
+
+    if (intent === 'complaint') {
+      complaints++
+      if (record.review.status === 'open') openComplaints++
+      const handledAt = record.review.status === 'handled' ? record.review.handledAt || record.review.updatedAt : undefined
+      if (handledAt) complaintHours.push((Date.parse(handledAt) - Date.parse(record.createdAt)) / (60 * 60 * 1000))
+    }
+  }
+
+  const scored = records.filter(record => (record.result.leadQualityScore || 0) > 0)
+  const flagged = Array.from(reviews.values()).filter(stats => stats.riskLevel !== 'Safe')
+
+  return {
+    range,
+    workspaces: workspaces.map(({ id, name }) => ({ id, name })),
+    totals,
+    series: Array.from(series.values()),
+    senderDomains: Array.from(domains.values())
+      .map(stats => ({ ...stats, riskRate: rate(stats.highRisk + stats.suspicious, stats.total) || 0 }))
+      .sort((a, b) => b.highRisk - a.highRisk || b.suspicious - a.suspicious || b.total - a.total)
+      .slice(0, TOP_DOMAINS),
+    leads: {
+      total: scored.length,
+      averageScore: average(scored.map(record => record.result.leadQualityScore)),
+      distribution: scoreCounts(scored).map((count, index) => ({ score: index + 1, count })),
+      bySource: HISTORY_SOURCES.map(source => {
+        const leads = scored.filter(record => (record.source || 'manual') === source)
+        return { source, leads: leads.length, averageScore: average(leads.map(record => record.result.leadQualityScore)), counts: scoreCounts(leads) }
+      })
+    },
+    reviews: {
+      byRiskLevel: Array.from(reviews.values()).map(stats => ({
+        ...stats,
+        falsePositiveRate: rate(stats.falsePositive, stats.falsePositive + stats.confirmedFraud)
+      })),
+      falsePositiveRate: rate(
+        flagged.reduce((sum, stats) => sum + stats.falsePositive, 0),
+        flagged.reduce((sum, stats) => sum + stats.falsePositive + stats.confirmedFraud, 0)
+      )
+    },
+    complaints: {
+      total: complaints,
+      handled: complaintHours.length,
+      open: openComplaints,
+      averageHoursToHandle: average(complaintHours),
+      medianHoursToHandle: median(complaintHours)
+    }
+  }
+}
+
+/**
+ * One flat CSV per dashboard panel, plus the individual analyses behind it.
+ */
+export async function analyticsCsv(workspaces: { id: string, name: string }[], query: AnalyticsQuery, dataset: string): Promise<string> {
+  if (!ANALYTICS_DATASETS.includes(dataset as AnalyticsDataset)) {
+    throw new AnalyticsInputError(`dataset must be one of: ${ANALYTICS_DATASETS.join(', ')}`)
+  }
+
+  if (dataset === 'analyses') {
+    const range = resolveRange(query)
+    const rows = (await Promise.all(workspaces.map(async workspace => (await recordsInRange([workspace.id], range)).map(record => [
+      workspace.name,
+      record.createdAt,
+      record.source || 'manual',
+      senderOf(record),
+      senderDomainOf(record),
+      record.result.riskLevel,
+      primaryIntent(record),
+      record.result.leadQualityScore || '',
+      REVIEW_LABELS[record.review.status],
+      record.review.handledAt,
+      record.provider
+    ])))).flat().sort((a, b) => String(a[1]).localeCompare(String(b[1])))
+    return toCsv([
+      ['Workspace', 'Analyzed At', 'Source', 'Sender', 'Sender Domain', 'Risk Level', 'Intent', 'Lead Score', 'Review', 'Handled At', 'Provider'],
+      ...rows
+    ])
+  }
+
+  const report = await analyticsReport(workspaces, query)
+
+  if (dataset === 'series') {
+    return toCsv([
+      ['Period', 'Total', ...RISK_LEVELS, ...INTENTS],
+      ...report.series.map(point => [point.period, point.total, ...RISK_LEVELS.map(level => point.risk[level]), ...INTENTS.map(intent => point.intents[intent])])
+    ])
+  }
+
+  if (dataset === 'domains') {
+    return toCsv([
+      ['Sender Domain', 'Analyses', 'High Risk Fraud', 'Suspicious', 'Risk Rate'],
+      ...report.senderDomains.map(stats => [stats.domain, stats.total, stats.highRisk, stats.suspicious, stats.riskRate])
+    ])
+  }
+
+  if (dataset === 'leads') {
+    return toCsv([
+      ['Source', 'Leads', 'Average Score', ...report.leads.distribution.map(bucket => `Score ${bucket.score}`)],
+      ...report.leads.bySource.map(source => [source.source, source.leads, source.averageScore, ...source.counts]),
+      ['all', report.leads.total, report.leads.averageScore, ...report.leads.distribution.map(bucket => bucket.count)]
+    ])
+  }
+
+  return toCsv([
+    ['Risk Level', 'Analyses', 'Reviewed', 'Confirmed Fraud', 'False Positive', 'False Positive Rate'],
+    ...report.reviews.byRiskLevel.map(stats => [stats.riskLevel, stats.total, stats.reviewed, stats.confirmedFraud, stats.falsePositive, stats.falsePositiveRate])
+  ])
+}
@@ -0,0 +1,519 @@
+import { createHash } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { constants, inflateRawSync, inflateSync } from 'zlib'
+import { htmlToText } from './email'
+
+export type AttachmentKind = 'pdf' | 'office' | 'legacy-office' | 'archive' | 'executable' | 'text' | 'other'
+
+export type AttachmentFlag =
+  | 'known-bad-hash'
+  | 'executable'
+  | 'double-extension'
+  | 'hidden-extension'
+  | 'type-mismatch'
+  | 'disk-image'
+  | 'macro-enabled'
+  | 'remote-template'
+  | 'encrypted-archive'
+  | 'archive-executable'
+  | 'unscannable-archive'
+  | 'decompression-limit'
+  | 'encrypted-document'
+  | 'pdf-javascript'
+  | 'pdf-launch'
+  | 'pdf-embedded-file'
+  | 'pdf-auto-action'
+
+export type AttachmentRisk = 'safe' | 'suspicious' | 'dangerous'
+
+export interface AttachmentInput {
+  filename: string
+  contentType?: string
+  content: Uint8Array
+}
+
+export interface AttachmentFinding {
+  filename: string
+  contentType?: string
+  kind: AttachmentKind
+  size: number
+  sha256: string
+  flags: AttachmentFlag[]
+  details: string[]
+  score: number
+  risk: AttachmentRisk
+  links: string[]
+  entries?: string[]
+  extractedChars: number
+}
+
+export interface InspectedAttachment {
+  finding: AttachmentFinding
+  text: string
+}
+
+export const MAX_ATTACHMENTS = 10
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+const MAX_TEXT_CHARS = 20000
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024
+const MAX_LISTED_ENTRIES = 50
+
+const EXECUTABLE_EXTENSIONS = [
+  'exe', 'scr', 'com', 'pif', 'bat', 'cmd', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'wsh', 'hta', 'msi', 'msp',
+  'lnk', 'ps1', 'psm1', 'jar', 'cpl', 'reg', 'dll', 'scf', 'inf', 'chm', 'appx', 'msix', 'apk', 'url', 'application'
+]
+
+const DISK_IMAGE_EXTENSIONS = ['iso', 'img', 'vhd', 'vhdx']
+
+const MACRO_EXTENSIONS = ['docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'potm', 'ppam', 'ppsm', 'sldm']
+
+const DOCUMENT_EXTENSIONS = [
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'rtf', 'txt', 'csv', 'jpg', 'jpeg', 'png', 'gif',
+  'zip', 'htm', 'html', 'mp3', 'mp4', 'wav'
+]
+
+const BIDI_CONTROL = /[\u202a-\u202e\u2066-\u2069]/
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }
+
+const FLAG_WEIGHTS: Record<AttachmentFlag, number> = {
+  'known-bad-hash': 6,
+  'executable': 4,
+  'double-extension': 4,
+  'hidden-extension': 4,
+  'type-mismatch': 3,
+  'disk-image': 3,
+  'macro-enabled': 3,
+  'remote-template': 4,
+  'encrypted-archive': 3,
+  'archive-executable': 4,
+  'unscannable-archive': 1,
+  'decompression-limit': 2,
+  'encrypted-document': 2,
+  'pdf-javascript': 3,
+  'pdf-launch': 4,
+  'pdf-embedded-file': 2,
+  'pdf-auto-action': 1
+}
+
+interface ZipEntry {
+  name: string
+  encrypted: boolean
+  method: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+class Findings {
+  readonly flags: AttachmentFlag[] = []
+  readonly details: string[] = []
+  readonly links: string[] = []
+
+  add(flag: AttachmentFlag, detail: string) {
+    if (this.flags.includes(flag)) return
+    this.flags.push(flag)
+    this.details.push(detail)
+  }
+
+  link(url: string) {
+    if (/^https?:\/\//i.test(url) && !this.links.includes(url)) this.links.push(url)
+  }
+}
+
+let knownBad: { file: string, mtimeMs: number, hashes: Map<string, string> } | null = null
+
+function knownBadFilePath(): string {
+  return process.env.KNOWN_BAD_HASHES_FILE || path.join(process.cwd(), 'config', 'known-bad-hashes.txt')
+}
+
+/**
+ * One MD5, SHA-1 or SHA-256 hash per line, optionally followed by a label.
+ * Lines starting with # are comments. A missing file means an empty list.
+ */
+export function loadKnownBadHashes(): Map<string, string> {
+  const file = knownBadFilePath()
+
+  try {
+    const { mtimeMs } = fs.statSync(file)
+    if (knownBad && knownBad.file === file && knownBad.mtimeMs === mtimeMs) return knownBad.hashes
+
+    const hashes = new Map<string, string>()
+    for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+      const [hash, ...label] = line.trim().split(/\s+/)
+      if (hash && !hash.startsWith('#') && /^[0-9a-f]{32,64}$/i.test(hash)) hashes.set(hash.toLowerCase(), label.join(' '))
+    }
+    knownBad = { file, mtimeMs, hashes }
+    return hashes
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Failed to load known-bad hashes from ${file}:`, error)
+    return new Map()
+  }
+}
+
+function extensionsOf(filename: string): string[] {
+  return filename.toLowerCase().split('.').slice(1).map(part => part.trim())
+}
+
+function startsWith(buffer: Buffer, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => buffer[offset + index] === byte)
+}
+
+function looksExecutable(buffer: Buffer): boolean {
+  return startsWith(buffer, [0x4d, 0x5a]) ||
+    startsWith(buffer, [0x7f, 0x45, 0x4c, 0x46]) ||
+    [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xcf, 0xfa, 0xed, 0xfe], [0xce, 0xfa, 0xed, 0xfe]].some(magic => startsWith(buffer, magic))
+}
+
+function codePoint(value: number): string {
+  return value <= 0x10ffff ? String.fromCodePoint(value) : ''
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => codePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => codePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function readZipEntries(buffer: Buffer): ZipEntry[] | undefined {
+  const lowest = Math.max(0, buffer.length - 65557)
+  for (let end = buffer.length - 22; end >= lowest; end--) {
+    if (buffer.readUInt32LE(end) !== 0x06054b50) continue
+
+    const entries: ZipEntry[] = []
+    const count = buffer.readUInt16LE(end + 10)
+    let offset = buffer.readUInt32LE(end + 16)
+    for (let index = 0; index < count && offset + 46 <= buffer.length; index++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) break
+      const flags = buffer.readUInt16LE(offset + 8)
+      const nameLength = buffer.readUInt16LE(offset + 28)
+      entries.push({
+        name: buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength),
+        encrypted: (flags & 1) === 1,
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        size: buffer.readUInt32LE(offset + 24),
+        offset: buffer.readUInt32LE(offset + 42)
+      })
+      offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32)
+    }
+    return entries
+  }
+  return undefined
+}
+
+/**
+ * Declared sizes come from the file itself, so inflating is capped as well,
+ * by a budget shared with the file's other entries. An entry that overruns it
+ * uses the budget up.
+ */
+function readZipEntry(buffer: Buffer, entry: ZipEntry, budget: { inflated: number }): Buffer | undefined {
+  const remaining = MAX_INFLATED_BYTES - budget.inflated
+  if (entry.encrypted || remaining <= 0 || entry.size > remaining) return undefined
+  if (entry.offset + 30 > buffer.length || buffer.readUInt32LE(entry.offset) !== 0x04034b50) return undefined
+
+  const start = entry.offset + 30 + buffer.readUInt16LE(entry.offset + 26) + buffer.readUInt16LE(entry.offset + 28)
+  const data = buffer.subarray(start, start + entry.compressedSize)
+  try {
+    if (entry.method === 0) return data
+    if (entry.method === 8) {
+      const inflated = inflateRawSync(data, { maxOutputLength: remaining })
+      budget.inflated += inflated.length
+      return inflated
+    }
+  } catch (error) {
+    if (error instanceof RangeError) budget.inflated = MAX_INFLATED_BYTES
+    return undefined
+  }
+  return undefined
+}
+
+function checkBudget(budget: { inflated: number }, findings: Findings) {
+  if (budget.inflated < MAX_INFLATED_BYTES) return
+  findings.add('decompression-limit', `Decompresses to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB, so only part of it was inspected; oversized content is a way to get past file checks.`)
+}
+
+function checkFilename(filename: string, findings: Findings, prefix = '') {
+  const extensions = extensionsOf(filename.replace(new RegExp(BIDI_CONTROL.source, 'g'), ''))
+  const last = extensions[extensions.length - 1] || ''
+
+  if (BIDI_CONTROL.test(filename)) {
+    findings.add('hidden-extension', `${prefix}File name contains text-direction characters that disguise its real extension (.${last}).`)
+  }
+  if (EXECUTABLE_EXTENSIONS.includes(last)) {
+    findings.add(prefix ? 'archive-executable' : 'executable', `${prefix}.${last} files run code when opened.`)
+    const shown = extensions[extensions.length - 2]
+    if (shown && DOCUMENT_EXTENSIONS.includes(shown)) {
+      findings.add('double-extension', `${prefix}"${filename}" poses as a .${shown} file but is a .${last} file.`)
+    }
+  }
+  if (DISK_IMAGE_EXTENSIONS.includes(last)) {
+    findings.add('disk-image', `${prefix}.${last} disk images are used to slip executables past mail filters and download warnings.`)
+  }
+  if (MACRO_EXTENSIONS.includes(last)) {
+    findings.add('macro-enabled', `${prefix}.${last} is a macro-enabled Office format.`)
+  }
+}
+
+function officeText(xml: string): string {
+  return decodeXmlEntities(xml
+    .replace(/<\/(w:p|a:p|si|text:p)>/g, '\n')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim()
+}
+
+function inspectOffice(buffer: Buffer, entries: ZipEntry[], filename: string, findings: Findings): string {
+  const budget = { inflated: 0 }
+  const read = (entry: ZipEntry) => readZipEntry(buffer, entry, budget)?.toString('utf8') || ''
+  const contentTypes = entries.find(entry => entry.name === '[Content_Types].xml')
+
+  if (entries.some(entry => /vbaProject\.bin$/i.test(entry.name)) || (contentTypes && /macroEnabled/i.test(read(contentTypes)))) {
+    const extension = extensionsOf(filename).pop()
+    findings.add('macro-enabled', `Contains VBA macros${extension && !MACRO_EXTENSIONS.includes(extension) ? ` despite its .${extension} name` : ''}; macros can install malware once enabled.`)
+  }
+
+  for (const entry of entries.filter(entry => /_rels\/[^/]*\.rels$/.test(entry.name))) {
+    for (const relationship of read(entry).match(/<Relationship\b[^>]*>/g) || []) {
+      if (!/TargetMode="External"/.test(relationship)) continue
+      const target = decodeXmlEntities(relationship.match(/Target="([^"]*)"/)?.[1] || '')
+      if (/\/(attachedTemplate|oleObject|frame|subDocument)"/.test(relationship)) {
+        findings.add('remote-template', `Loads a template or object from ${target} when opened, a common way to fetch malware after delivery.`)
+      }
+      findings.link(target)
+    }
+  }
+
+  const parts = entries
+    .filter(entry => /^(word\/(document|header\d*|footer\d*|footnotes)|xl\/sharedStrings|ppt\/slides\/slide\d+|content)\.xml$/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  const text = parts.map(entry => officeText(read(entry))).filter(Boolean).join('\n\n')
+  checkBudget(budget, findings)
+  return text
+}
+
+function inspectArchive(entries: ZipEntry[], findings: Findings): string[] {
+  const names = entries.map(entry => entry.name).filter(name => !name.endsWith('/'))
+  const encrypted = entries.filter(entry => entry.encrypted).length
+  if (encrypted > 0) {
+    findings.add('encrypted-archive', `Password-protected archive (${encrypted} of ${names.length} files encrypted); its contents can't be scanned, which is why malware is often sent this way.`)
+  }
+  for (const name of names) checkFilename(name.split('/').pop() || name, findings, `Archive contains ${name}: `)
+  return names
+}
+
+// Strings starting with a byte order mark are UTF-16BE, the rest single-byte.
+function pdfText(bytes: Buffer): string {
+  if (bytes[0] !== 0xfe || bytes[1] !== 0xff) return bytes.toString('latin1')
+  return Buffer.from(bytes.subarray(2, bytes.length - (bytes.length % 2))).swap16().toString('utf16le')
+}
+
+function decodePdfString(raw: string): string {
+  if (raw.startsWith('<')) {
+    const hex = raw.slice(1, -1).replace(/\s+/g, '')
+    return pdfText(Buffer.from(hex.length % 2 ? hex + '0' : hex, 'hex'))
+  }
+
+  return pdfText(Buffer.from(raw.slice(1, -1).replace(/\\(\r?\n|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8) & 0xff)
+    if (escape.startsWith('\n') || escape.startsWith('\r')) return ''
+    return PDF_ESCAPES[escape] ?? escape
+  }), 'latin1'))
+}
+
+const PDF_STRING = String.raw`\((?:[^()\\]|\\[\s\S]|\((?:[^()\\]|\\[\s\S])*\))*\)|<[0-9A-Fa-f\s]*>`
+const PDF_TEXT_OPERATORS = new RegExp(String.raw`\[((?:${PDF_STRING}|[^\]])*)\]\s*TJ|(${PDF_STRING})\s*(?:Tj|'|")|(?<![\w*])(T\*|Td|TD|Tm|ET)(?![\w*])`, 'g')
+
+// Only text drawn with standard fonts decodes this way; glyph ids of embedded
+// subset fonts are skipped rather than turned into noise.
+function pdfContentText(content: string): string {
+  let text = ''
+  for (const match of content.matchAll(PDF_TEXT_OPERATORS)) {
+    if (match[3]) {
+      if (!text.endsWith('\n')) text += match[3] === 'Td' || match[3] === 'TD' ? ' ' : '\n'
+      continue
+    }
+    const shown = match[1] !== undefined
+      ? Array.from(match[1].matchAll(new RegExp(`(${PDF_STRING})|(-?\\d+(?:\\.\\d+)?)`, 'g')))
+        .map(part => part[1] ? decodePdfString(part[1]) : Number(part[2]) < -200 ? ' ' : '')
+        .join('')
+      : decodePdfString(match[2])
+    if (!/[\x00-\x08\x0e-\x1f]/.test(shown)) text += shown
+  }
+  return text
+}
+
+function pdfStreams(buffer: Buffer, source: string, budget: { inflated: number }): { dictionary: string, data: Buffer }[] {
+  const streams: { dictionary: string, data: Buffer }[] = []
+
+  for (let index = source.indexOf('stream'); index !== -1; index = source.indexOf('stream', index + 6)) {
+    if (source.slice(index - 3, index) === 'end') continue
+    const start = index + 6 + (source.startsWith('\r\n', index + 6) ? 2 : source[index + 6] === '\n' ? 1 : 0)
+    const end = source.indexOf('endstream', start)
+    if (end === -1) break
+
+    const dictionary = source.slice(Math.max(source.lastIndexOf('obj', index), index - 2000), index)
+    const raw = buffer.subarray(start, end)
+    if (/\/Filter\s*\[?\s*\/FlateDecode\s*\]?/.test(dictionary)) {
+      try {
+        const data = inflateSync(raw, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: MAX_INFLATED_BYTES - budget.inflated })
+        budget.inflated += data.length
+        streams.push({ dictionary, data })
+      } catch (error) {
+        // Damaged or truncated streams are common in real PDFs and just skipped; one overrunning the budget ends it.
+        if (error instanceof RangeError) budget.inflated = MAX_INFLATED_BYTES
+      }
+    } else if (!/\/Filter/.test(dictionary)) {
+      streams.push({ dictionary, data: raw })
+    }
+    if (budget.inflated >= MAX_INFLATED_BYTES) break
+    index = end
+  }
+  return streams
+}
+
+function inspectPdf(buffer: Buffer, findings: Findings): string {
+  const source = buffer.toString('latin1')
+  const budget = { inflated: 0 }
+  const streams = pdfStreams(buffer, source, budget)
+  checkBudget(budget, findings)
+  // Names may hide behind #xx escapes (/J#61vaScript), and objects behind compressed object streams.
+  const objects = [source, ...streams.filter(stream => /\/Type\s*\/ObjStm/.test(stream.dictionary)).map(stream => stream.data.toString('latin1'))]
+    .join('\n')
+    .replace(/#([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+
+  if (/\/Encrypt\b/.test(objects)) {
+    findings.add('encrypted-document', 'The PDF is encrypted, so its text and scripts could not be fully inspected.')
+  }
+  if (/\/(JavaScript|JS)\b/.test(objects)) {
+    findings.add('pdf-javascript', 'Contains JavaScript, which PDF readers run when the document is opened or clicked.')
+  }
+  if (/\/Launch\b/.test(objects)) {
+    findings.add('pdf-launch', 'Contains a Launch action that can start programs or open files on the reader\'s computer.')
+  }
+  if (/\/EmbeddedFiles?\b/.test(objects)) {
+    findings.add('pdf-embedded-file', 'Carries embedded files that the reader can be asked to open.')
+  }
+  if (/\/(OpenAction|AA)\b/.test(objects) && /\/(JavaScript|JS|Launch|URI|SubmitForm)\b/.test(objects)) {
+    findings.add('pdf-auto-action', 'Runs an action automatically when the document is opened.')
+  }
+  for (const match of objects.matchAll(new RegExp(`/URI\\s*(${PDF_STRING})`, 'g'))) findings.link(decodePdfString(match[1]).trim())
+
+  return streams
+    .filter(stream => stream.data.includes('BT') && !/\/(Type\s*\/(ObjStm|XRef|EmbeddedFile|Metadata)|Subtype\s*\/Image|Length[123])\b/.test(stream.dictionary))
+    .map(stream => pdfContentText(stream.data.toString('latin1')))
+    .join('\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim()
+}
+
+function detectKind(buffer: Buffer, entries: ZipEntry[] | undefined, contentType: string, extension: string): AttachmentKind {
+  if (buffer.subarray(0, 1024).includes('%PDF-')) return 'pdf'
+  if (looksExecutable(buffer)) return 'executable'
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'legacy-office'
+  if (entries) return entries.some(entry => entry.name === '[Content_Types].xml' || entry.name === 'mimetype') ? 'office' : 'archive'
+  if (startsWith(buffer, [0x52, 0x61, 0x72, 0x21]) || startsWith(buffer, [0x37, 0x7a, 0xbc, 0xaf]) || startsWith(buffer, [0x1f, 0x8b])) return 'archive'
+  if (contentType.startsWith('text/') || ['txt', 'csv', 'htm', 'html', 'xml', 'json', 'eml'].includes(extension)) return 'text'
+  return 'other'
+}
+
+/**
+ * Inspects one attachment without opening or running it: identifies the real
+ * file type from its content, extracts readable text from PDFs, Office
+ * documents and text files, and flags the tricks malware delivery relies on.
+ */
+export function inspectAttachment(attachment: AttachmentInput): InspectedAttachment {
+  const buffer = Buffer.from(attachment.content)
+  const contentType = (attachment.contentType || '').toLowerCase()
+  const extension = extensionsOf(attachment.filename).pop() || ''
+  const sha256 = createHash('sha256').update(buffer).digest('hex')
+  const findings = new Findings()
+
+  const hashes = loadKnownBadHashes()
+  const known = [sha256, createHash('sha1').update(buffer).digest('hex'), createHash('md5').update(buffer).digest('hex')].find(hash => hashes.has(hash))
+  if (known) findings.add('known-bad-hash', `File hash is on the known-bad list${hashes.get(known) ? ` (${hashes.get(known)})` : ''}.`)
+
+  checkFilename(attachment.filename, findings)
+
+  const entries = startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) ? readZipEntries(buffer) : undefined
+  const kind = detectKind(buffer, entries, contentType, extension)
+  let text = ''
+  let listed: string[] | undefined
+
+  if (kind === 'executable' && !EXECUTABLE_EXTENSIONS.includes(extension)) {
+    findings.add('executable', 'The file is a program.')
+    findings.add('type-mismatch', `Named like a .${extension || 'extensionless'} file but its content is an executable program.`)
+  }
+
+  if (kind === 'pdf') text = inspectPdf(buffer, findings)
+
+  if (kind === 'office' && entries) text = inspectOffice(buffer, entries, attachment.filename, findings)
+
+  if (kind === 'legacy-office') {
+    if (['_VBA_PROJECT', 'Macros'].some(name => buffer.includes(Buffer.from(name, 'utf16le')))) {
+      findings.add('macro-enabled', 'Contains VBA macros; macros can install malware once enabled.')
+    }
+    if (buffer.includes(Buffer.from('EncryptedPackage', 'utf16le'))) {
+      findings.add('encrypted-document', 'The document is password-protected, so its contents could not be inspected.')
+    }
+  }
+
+  if (kind === 'archive') {
+    if (entries) {
+      listed = inspectArchive(entries, findings)
+    } else {
+      findings.add('unscannable-archive', 'Archive format that can\'t be listed here; its contents were not checked.')
+    }
+  }
+
+  if (kind === 'text') {
+    const content = buffer.toString('utf8')
+    const html = extension.startsWith('htm') || contentType === 'text/html'
+    for (const match of html ? content.matchAll(/\bhref\s*=\s*["']([^"']+)["']/gi) : []) findings.link(match[1].replace(/&amp;/g, '&'))
+    text = html ? htmlToText(content) : content
+  }
+
+  text = text.slice(0, MAX_TEXT_CHARS)
+  const score = findings.flags.reduce((total, flag) => total + FLAG_WEIGHTS[flag], 0)
+  const risk: AttachmentRisk = score >= 4 ? 'dangerous' : score >= 2 ? 'suspicious' : 'safe'
+
+  return {
+    finding: {
+      filename: attachment.filename,
+      ...(attachment.contentType && { contentType: attachment.contentType }),
+      kind,
+      size: buffer.length,
+      sha256,
+      flags: findings.flags,
+      details: findings.details,
+      score,
+      risk,
+      links: findings.links,
+      ...(listed && { entries: listed.slice(0, MAX_LISTED_ENTRIES) }),
+      extractedChars: text.length
+    },
+    text
+  }
+}
+
+/**
+ * Extracted text is analyzed as part of the message, one section per file.
+ * Embedded links are listed too, so link forensics covers them.
+ */
+export function formatAttachments(attachments: InspectedAttachment[]): string {
+  return attachments.map(({ finding, text }, index) => [
+    `Attachment ${index + 1}: ${finding.filename} (${finding.kind}, ${finding.size} bytes, sha256 ${finding.sha256})`,
+    text || '[no text extracted]',
+    finding.links.length > 0 && `Links in attachment: ${finding.links.join(' ')}`
+  ].filter(Boolean).join('\n')).join('\n\n')
+}
@@ -0,0 +1,255 @@
+import { createHash, randomBytes } from 'crypto'
+import { hasRole, Role } from './roles'
+import { DEFAULT_WORKSPACE_ID, JsonCollection } from './store'
+import { AccountInputError, createUser, findUserByEmail, getUser, hasUsers, normalizeEmail, PublicUser, publicUser, updateUser, User, verifyPassword } from './users'
+import { createWorkspace, getWorkspace, readRole, roleIn, WorkspaceSummary, workspacesFor } from './workspaces'
+
+export interface AuthContext {
+  workspaceId: string
+  role: Role
+  user?: PublicUser
+  apiKey?: { id: string, name: string, rateLimitPerMinute?: number }
+}
+
+export interface SessionInfo extends AuthContext {
+  workspaces: WorkspaceSummary[]
+}
+
+export interface ApiKey {
+  id: string
+  workspaceId: string
+  name: string
+  role: Role
+  prefix: string
+  hash: string
+  rateLimitPerMinute?: number
+  createdAt: string
+  lastUsedAt?: string
+}
+
+export type PublicApiKey = Omit<ApiKey, 'hash'>
+
+interface Session {
+  id: string
+  userId: string
+  workspaceId: string
+  createdAt: string
+  expiresAt: string
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403 = 401) {
+    super(message)
+  }
+}
+
+export const SESSION_COOKIE = 'bi_session'
+
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_HOURS || '168') * 60 * 60 * 1000
+const API_KEY_PREFIX = 'bia_'
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+const API_KEY_NAME_MAX_LENGTH = 80
+const API_KEY_RATE_LIMIT_MAX = 10000
+
+// Sessions and API keys are stored as hashes, so a leaked data directory
+// doesn't hand out working credentials.
+const sessions = new JsonCollection<Session>('sessions')
+const apiKeys = new JsonCollection<ApiKey>('api-keys')
+
+function digest(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function cookieValue(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get('cookie') || '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return undefined
+}
+
+function apiKeyOf(request: Request): string | undefined {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  return bearer || request.headers.get('x-api-key') || undefined
+}
+
+export function sessionTokenOf(request: Request): string | undefined {
+  return cookieValue(request, SESSION_COOKIE)
+}
+
+export function sessionCookie(token: string, expiresAt: string, secure: boolean) {
+  return { name: SESSION_COOKIE, value: token, httpOnly: true, sameSite: 'lax' as const, secure, path: '/', expires: new Date(expiresAt) }
+}
+
+export async function createSession(user: User, workspaceId?: string): Promise<{ token: string, expiresAt: string }> {
+  const memberships = await workspacesFor(user.id)
+  const workspace = memberships.find(membership => membership.id === workspaceId) || memberships[0]
+  if (!workspace) throw new AuthError('Your account is not a member of any workspace', 403)
+
+  const token = randomBytes(32).toString('base64url')
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+  await sessions.insert({ id: digest(token), userId: user.id, workspaceId: workspace.id, createdAt: now.toISOString(), expiresAt })
+  return { token, expiresAt }
+}
+
+export async function endSession(token: string | undefined) {
+  if (token) await sessions.remove(digest(token))
+}
+
+export async function switchWorkspace(token: string | undefined, workspaceId: string) {
+  const session = token ? await sessions.get(digest(token)) : undefined
+  if (!session) throw new AuthError('Not signed in')
+  if (!roleIn(await getWorkspace(workspaceId), session.userId)) throw new AuthError('You are not a member of that workspace', 403)
+  await sessions.update(session.id, { workspaceId })
+}
+
+async function authenticateSession(token: string): Promise<AuthContext> {
+  const session = await sessions.get(digest(token))
+  if (!session) throw new AuthError('Your session has ended. Please sign in again.')
+  if (session.expiresAt < new Date().toISOString()) {
+    await sessions.remove(session.id)
+    throw new AuthError('Your session has expired. Please sign in again.')
+  }
+
+  const user = await getUser(session.userId)
+  const role = user && roleIn(await getWorkspace(session.workspaceId), user.id)
+  if (!user || !role) throw new AuthError('You no longer have access to this workspace', 403)
+  return { workspaceId: session.workspaceId, role, user: publicUser(user) }
+}
+
+export async function authenticateApiKey(key: string): Promise<AuthContext> {
+  const apiKey = key.startsWith(API_KEY_PREFIX) ? await apiKeys.get(digest(key)) : undefined
+  if (!apiKey) throw new AuthError('Invalid API key')
+
+  if (!apiKey.lastUsedAt || Date.now() - Date.parse(apiKey.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    await apiKeys.update(apiKey.id, { lastUsedAt: new Date().toISOString() })
+  }
+  return {
+    workspaceId: apiKey.workspaceId,
+    role: apiKey.role,
+    apiKey: { id: apiKey.prefix, name: apiKey.name, rateLimitPerMinute: apiKey.rateLimitPerMinute }
+  }
+}
+
+export function requireRole(auth: AuthContext, minimum: Role): AuthContext {
+  if (!hasRole(auth.role, minimum)) throw new AuthError(`This action needs the ${minimum} role`, 403)
+  return auth
+}
+
+/**
+ * Resolves the caller from an API key (Authorization: Bearer or X-API-Key)
+ * or the session cookie, and checks their role in the workspace. Roles are
+ * read on every request, so changes and removals apply immediately.
+ */
+export async function requireAuth(request: Request, minimum: Role): Promise<AuthContext> {
+  const key = apiKeyOf(request)
+  const token = sessionTokenOf(request)
+  if (!key && !token) throw new AuthError('Sign in or provide an API key')
+
+  return requireRole(key ? await authenticateApiKey(key) : await authenticateSession(token!), minimum)
+}
+
+/**
+ * The workspaces a cross-workspace report covers: the current one by default,
+ * another one the user belongs to, or "all" of them. API keys only ever see
+ * their own workspace.
+ */
+export async function selectWorkspaces(auth: AuthContext, selection: string | null): Promise<WorkspaceSummary[]> {
+  const current = await getWorkspace(auth.workspaceId)
+  const readable = auth.user
+    ? await workspacesFor(auth.user.id)
+    : [{ id: auth.workspaceId, name: current?.name || auth.workspaceId, role: auth.role }]
+
+  if (!selection || selection === auth.workspaceId) return readable.filter(workspace => workspace.id === auth.workspaceId)
+  if (selection === 'all') return readable
+
+  const selected = readable.filter(workspace => workspace.id === selection)
+  if (selected.length === 0) throw new AuthError('You are not a member of that workspace', 403)
+  return selected
+}
+
+export async function setupRequired(): Promise<boolean> {
+  return !await hasUsers()
+}
+
+/**
+ * Creates the first admin and the default workspace, which keeps any data
+ * stored before accounts existed.
+ */
+export async function setupFirstAdmin(input: { name?: unknown, email?: unknown, password?: unknown, workspaceName?: unknown }): Promise<User> {
+  if (!await setupRequired()) throw new AuthError('Setup has already been completed', 403)
+
+  const user = await createUser({
+    email: normalizeEmail(input.email),
+    name: typeof input.name === 'string' ? input.name : undefined,
+    password: typeof input.password === 'string' ? input.password : ''
+  })
+  const name = typeof input.workspaceName === 'string' && input.workspaceName.trim() ? input.workspaceName : 'Default workspace'
+  if (!await getWorkspace(DEFAULT_WORKSPACE_ID)) await createWorkspace(name, user.id, DEFAULT_WORKSPACE_ID)
+  return user
+}
+
+// Compared against when the email is unknown, so both cases take as long.
+const UNKNOWN_USER_HASH = 'scrypt$AAAAAAAAAAAAAAAAAAAAAA==$AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=='
+
+export async function loginWithPassword(email: unknown, password: unknown): Promise<User> {
+  let user: User | undefined
+  try {
+    user = await findUserByEmail(normalizeEmail(email))
+  } catch (error) {
+    if (!(error instanceof AccountInputError)) throw error
+  }
+
+  const valid = await verifyPassword(typeof password === 'string' ? password : '', user?.passwordHash || UNKNOWN_USER_HASH)
+  if (!user || !user.passwordHash || !valid) throw new AuthError('Invalid email or password')
+  return (await updateUser(user.id, { lastLoginAt: new Date().toISOString() })) || user
+}
+
+export async function listApiKeys(workspaceId: string): Promise<PublicApiKey[]> {
+  return (await apiKeys.all())
+    .filter(apiKey => apiKey.workspaceId === workspaceId)
+    .map(({ hash, ...apiKey }) => apiKey)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+function readRateLimit(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > API_KEY_RATE_LIMIT_MAX) {
+    throw new AccountInputError(`Rate limits must be whole numbers of requests per minute from 0 to ${API_KEY_RATE_LIMIT_MAX}`)
+  }
+  return value
+}
+
+/**
+ * Returns the only copy of the key; afterwards just its prefix is shown.
+ * Without its own rate limit a key gets RATE_LIMIT_PER_MINUTE; 0 means none.
+ */
+export async function createApiKey(workspaceId: string, input: { name?: unknown, role?: unknown, rateLimitPerMinute?: unknown }): Promise<{ key: string, apiKey: PublicApiKey }> {
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name || name.length > API_KEY_NAME_MAX_LENGTH) throw new AccountInputError(`API key names need 1 to ${API_KEY_NAME_MAX_LENGTH} characters`)
+  const rateLimitPerMinute = readRateLimit(input.rateLimitPerMinute)
+
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  const hash = digest(key)
+  const apiKey: ApiKey = {
+    id: hash,
+    workspaceId,
+    name,
+    role: readRole(input.role, 'analyst'),
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    hash,
+    ...(rateLimitPerMinute !== undefined && { rateLimitPerMinute }),
+    createdAt: new Date().toISOString()
+  }
+  await apiKeys.insert(apiKey)
+
+  const { hash: _hash, ...publicKey } = apiKey
+  return { key, apiKey: publicKey }
+}
+
+export async function revokeApiKey(workspaceId: string, id: string): Promise<boolean> {
+  const apiKey = await apiKeys.get(id)
+  if (!apiKey || apiKey.workspaceId !== workspaceId) return false
+  return apiKeys.remove(id)
+}
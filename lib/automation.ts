@@ -0,0 +1,464 @@
+import { createHmac } from 'crypto'
+import { domainOf, parseAddress } from './email'
+import type { HistoryRecord } from './history'
+import { describeAction } from './display'
+import { intentLabel, matchesIntent } from './intent'
+import { assertPublicUrl, isBlockedHost } from './network'
+import { normalizeDomain } from './profile'
+import { AnalysisResult, Intent, INTENTS, RISK_LEVELS, RiskLevel } from './schema'
+import { sendMail, smtpConfigFromEnv } from './smtp'
+import { generateId, WorkspaceCollection } from './store'
+
+export type AutomationAction =
+  | { type: 'webhook', url: string, secret?: string }
+  | { type: 'email', to: string[] }
+  | { type: 'queue', queue: string }
+
+export interface AutomationConditions {
+  riskLevels?: RiskLevel[]
+  minLeadScore?: number
+  intents?: Intent[]
+  senderDomains?: string[]
+}
+
+export interface AutomationRule {
+  id: string
+  name: string
+  enabled: boolean
+  builtIn?: boolean
+  conditions: AutomationConditions
+  actions: AutomationAction[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type AutomationRuleInput = Partial<Pick<AutomationRule, 'name' | 'enabled' | 'conditions' | 'actions'>>
+
+export class AutomationInputError extends Error {}
+
+export interface AlertPayload {
+  historyId: string
+  ruleName: string
+  riskLevel: RiskLevel
+  leadQualityScore: number
+  intent: string
+  sender: string
+  subject: string
+  reason: string
+  recommendedAction: string
+  analyzedAt: string
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface AlertDelivery {
+  id: string
+  ruleId: string
+  ruleName: string
+  historyId: string
+  action: AutomationAction
+  target: string
+  payload: AlertPayload
+  status: DeliveryStatus
+  attempts: number
+  lastError?: string
+  nextAttemptAt?: string
+  createdAt: string
+  deliveredAt?: string
+}
+
+export type DeliveryLogEntry = Omit<AlertDelivery, 'action' | 'payload'> & { actionType: AutomationAction['type'] }
+
+export type QueueItemStatus = 'open' | 'done'
+
+export interface QueueItem {
+  id: string
+  queue: string
+  historyId: string
+  ruleName: string
+  riskLevel: RiskLevel
+  leadQualityScore: number
+  sender: string
+  subject: string
+  reason: string
+  recommendedAction: string
+  status: QueueItemStatus
+  addedAt: string
+  updatedAt?: string
+}
+
+export interface AutomationFiring {
+  ruleId: string
+  ruleName: string
+  actions: string[]
+}
+
+const QUEUE_NAME = /^[a-z0-9][a-z0-9_-]{0,39}$/
+const EMAIL_ADDRESS = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/
+const ACTIONS_LIMIT = 10
+const MAX_ATTEMPTS = parseInt(process.env.ALERT_MAX_ATTEMPTS || '5')
+const RETRY_BASE_MS = parseInt(process.env.ALERT_RETRY_BASE_MS || '30000')
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '10000')
+
+const automationRules = new WorkspaceCollection<AutomationRule>('automation-rules')
+const deliveries = new WorkspaceCollection<AlertDelivery>('alert-deliveries')
+const queueItems = new WorkspaceCollection<QueueItem>('queue-items')
+const attempting = new Set<string>()
+
+// These make "Report to IT security team" and "Escalate to sales team" real
+// out of the box. They can be edited or disabled but not deleted.
+const BUILT_IN_RULES: Omit<AutomationRule, 'createdAt'>[] = [
+  {
+    id: 'escalate-fraud',
+    name: 'Report high risk fraud to security',
+    enabled: true,
+    builtIn: true,
+    conditions: { riskLevels: ['High Risk Fraud'] },
+    actions: [{ type: 'queue', queue: 'security' }]
+  },
+  {
+    id: 'escalate-hot-leads',
+    name: 'Escalate hot leads to sales',
+    enabled: true,
+    builtIn: true,
+    conditions: { riskLevels: ['Safe'], minLeadScore: 9 },
+    actions: [{ type: 'queue', queue: 'sales' }]
+  }
+]
+
+export async function listAutomationRules(workspaceId: string): Promise<AutomationRule[]> {
+  const collection = automationRules.in(workspaceId)
+  const rules = await collection.all()
+  for (const builtIn of BUILT_IN_RULES) {
+    if (rules.some(rule => rule.id === builtIn.id)) continue
+    rules.push(await collection.insert({ ...builtIn, createdAt: new Date().toISOString() }))
+  }
+  return rules.sort((a, b) => Number(!!b.builtIn) - Number(!!a.builtIn) || a.createdAt.localeCompare(b.createdAt))
+}
+
+function readSubset<T extends string>(value: unknown, allowed: readonly T[], field: string): T[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.some(item => !allowed.includes(item))) {
+    throw new AutomationInputError(`${field} must be a list of: ${allowed.join(', ')}`)
+  }
+  return value.length > 0 ? Array.from(new Set(value as T[])) : undefined
+}
+
+function readConditions(value: unknown): AutomationConditions {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AutomationInputError('conditions must be an object')
+  }
+  const input = value as Record<string, unknown>
+
+  let minLeadScore: number | undefined
+  if (input.minLeadScore !== undefined && input.minLeadScore !== null) {
+    if (typeof input.minLeadScore !== 'number' || input.minLeadScore < 0 || input.minLeadScore > 10) {
+      throw new AutomationInputError('minLeadScore must be a number from 0 to 10')
+    }
+    minLeadScore = input.minLeadScore
+  }
+
+  let senderDomains: string[] | undefined
+  if (input.senderDomains !== undefined) {
+    if (!Array.isArray(input.senderDomains) || input.senderDomains.some(item => typeof item !== 'string')) {
+      throw new AutomationInputError('senderDomains must be a list of strings')
+    }
+    const domains = (input.senderDomains as string[]).filter(item => item.trim()).map(item => {
+      const domain = normalizeDomain(item)
+      if (!domain) throw new AutomationInputError(`"${item}" is not a valid domain`)
+      return domain
+    })
+    senderDomains = domains.length > 0 ? Array.from(new Set(domains)) : undefined
+  }
+
+  const conditions: AutomationConditions = {
+    riskLevels: readSubset(input.riskLevels, RISK_LEVELS, 'riskLevels'),
+    minLeadScore,
+    intents: readSubset(input.intents, INTENTS, 'intents'),
+    senderDomains
+  }
+  if (Object.values(conditions).every(condition => condition === undefined)) {
+    throw new AutomationInputError('A rule needs at least one condition')
+  }
+  return JSON.parse(JSON.stringify(conditions))
+}
+
+function readAction(value: unknown, index: number): AutomationAction {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const label = `Action ${index + 1}`
+
+  if (input.type === 'webhook') {
+    let url: URL | undefined
+    try {
+      url = typeof input.url === 'string' ? new URL(input.url) : undefined
+    } catch {
+      url = undefined
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) throw new AutomationInputError(`${label}: webhook url must be an http(s) URL`)
+    if (isBlockedHost(url.hostname)) throw new AutomationInputError(`${label}: webhook url must not point to a local or private address`)
+    if (input.secret !== undefined && typeof input.secret !== 'string') throw new AutomationInputError(`${label}: secret must be a string`)
+    return { type: 'webhook', url: url.toString(), ...(input.secret && { secret: input.secret as string }) }
+  }
+
+  if (input.type === 'email') {
+    const to = Array.isArray(input.to) ? input.to : [input.to]
+    if (to.length === 0 || to.some(address => typeof address !== 'string' || !EMAIL_ADDRESS.test(address.trim()))) {
+      throw new AutomationInputError(`${label}: to must be a list of email addresses`)
+    }
+    return { type: 'email', to: (to as string[]).map(address => address.trim()) }
+  }
+
+  if (input.type === 'queue') {
+    const queue = typeof input.queue === 'string' ? input.queue.trim().toLowerCase() : ''
+    if (!QUEUE_NAME.test(queue)) throw new AutomationInputError(`${label}: queue names use letters, digits, "-" and "_"`)
+    return { type: 'queue', queue }
+  }
+
+  throw new AutomationInputError(`${label}: type must be webhook, email or queue`)
+}
+
+function readActions(value: unknown): AutomationAction[] {
+  if (!Array.isArray(value) || value.length === 0) throw new AutomationInputError('A rule needs at least one action')
+  if (value.length > ACTIONS_LIMIT) throw new AutomationInputError(`A rule is limited to ${ACTIONS_LIMIT} actions`)
+  return value.map(readAction)
+}
+
+export function validateAutomationRule(input: unknown): Required<AutomationRuleInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AutomationInputError('Rule must be an object')
+  }
+  const record = input as Record<string, unknown>
+  if (typeof record.name !== 'string' || !record.name.trim()) throw new AutomationInputError('name is required')
+  if (record.enabled !== undefined && typeof record.enabled !== 'boolean') throw new AutomationInputError('enabled must be a boolean')
+
+  return {
+    name: record.name.trim(),
+    enabled: record.enabled ?? true,
+    conditions: readConditions(record.conditions),
+    actions: readActions(record.actions)
+  }
+}
+
+export async function createAutomationRule(workspaceId: string, input: unknown): Promise<AutomationRule> {
+  return automationRules.in(workspaceId).insert({ id: generateId(), ...validateAutomationRule(input), createdAt: new Date().toISOString() })
+}
+
+export async function updateAutomationRule(workspaceId: string, id: string, input: unknown): Promise<AutomationRule | undefined> {
+  await listAutomationRules(workspaceId)
+  const collection = automationRules.in(workspaceId)
+  if (!await collection.get(id)) return undefined
+  return collection.update(id, { ...validateAutomationRule(input), updatedAt: new Date().toISOString() })
+}
+
+export async function deleteAutomationRule(workspaceId: string, id: string): Promise<boolean> {
+  const collection = automationRules.in(workspaceId)
+  const rule = await collection.get(id)
+  if (rule?.builtIn) throw new AutomationInputError('Built-in rules can be disabled but not deleted')
+  return collection.remove(id)
+}
+
+function senderDomain(record: HistoryRecord): string {
+  const sender = parseAddress(record.result.email?.from || record.input.senderInfo)
+  return sender ? domainOf(sender.address) : ''
+}
+
+export function matchesConditions(conditions: AutomationConditions, result: AnalysisResult, domain: string): boolean {
+  if (conditions.riskLevels && !conditions.riskLevels.includes(result.riskLevel)) return false
+  if (conditions.minLeadScore !== undefined && (result.leadQualityScore || 0) < conditions.minLeadScore) return false
+  if (conditions.intents && !conditions.intents.some(intent => matchesIntent(result, intent))) return false
+  if (conditions.senderDomains && !conditions.senderDomains.some(known => domain === known || domain.endsWith('.' + known))) return false
+  return true
+}
+
+function alertText(payload: AlertPayload): string {
+  return [
+    `[${payload.riskLevel}] ${payload.ruleName}: ${payload.subject || '(no subject)'} from ${payload.sender || 'an unknown sender'}`,
+    payload.leadQualityScore > 0 && `Lead score: ${payload.leadQualityScore}/10`,
+    payload.reason,
+    `Recommended action: ${payload.recommendedAction}`
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * Slack and Teams incoming webhooks both render the top-level "text"; other
+ * receivers get the structured fields alongside it. With a secret, the body
+ * is signed as HMAC-SHA256 over "<timestamp>.<body>".
+ */
+async function deliverWebhook(action: Extract<AutomationAction, { type: 'webhook' }>, payload: AlertPayload) {
+  const body = JSON.stringify({ text: alertText(payload), ...payload })
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Alert-Timestamp': timestamp }
+  if (action.secret) {
+    headers['X-Alert-Signature'] = `sha256=${createHmac('sha256', action.secret).update(`${timestamp}.${body}`).digest('hex')}`
+  }
+
+  // Redirects are refused so a receiver can't bounce the request inward.
+  await assertPublicUrl(action.url)
+  const response = await fetch(action.url, { method: 'POST', headers, body, redirect: 'error', signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`Webhook returned ${response.status}`)
+}
+
+async function deliverEmail(action: Extract<AutomationAction, { type: 'email' }>, payload: AlertPayload) {
+  const config = smtpConfigFromEnv()
+  if (!config) throw new Error('SMTP is not configured (set SMTP_HOST)')
+  await sendMail(config, { to: action.to, subject: `[${payload.riskLevel}] ${payload.ruleName}: ${payload.subject || payload.sender}`, text: alertText(payload) })
+}
+
+async function deliverToQueue(workspaceId: string, action: Extract<AutomationAction, { type: 'queue' }>, payload: AlertPayload) {
+  const collection = queueItems.in(workspaceId)
+  const existing = (await collection.all()).find(item => item.queue === action.queue && item.historyId === payload.historyId)
+  if (existing) return
+
+  await collection.insert({
+    id: generateId(),
+    queue: action.queue,
+    historyId: payload.historyId,
+    ruleName: payload.ruleName,
+    riskLevel: payload.riskLevel,
+    leadQualityScore: payload.leadQualityScore,
+    sender: payload.sender,
+    subject: payload.subject,
+    reason: payload.reason,
+    recommendedAction: payload.recommendedAction,
+    status: 'open',
+    addedAt: new Date().toISOString()
+  })
+}
+
+function deliver(workspaceId: string, action: AutomationAction, payload: AlertPayload): Promise<void> {
+  if (action.type === 'webhook') return deliverWebhook(action, payload)
+  if (action.type === 'email') return deliverEmail(action, payload)
+  return deliverToQueue(workspaceId, action, payload)
+}
+
+function scheduleRetry(workspaceId: string, id: string, delayMs: number) {
+  setTimeout(() => { attemptDelivery(workspaceId, id).catch(error => console.error('Alert retry failed:', error)) }, delayMs).unref?.()
+}
+
+/**
+ * Makes one delivery attempt and records the outcome. Failures back off
+ * exponentially until ALERT_MAX_ATTEMPTS is reached, then stay failed until
+ * retried by hand.
+ */
+export async function attemptDelivery(workspaceId: string, id: string): Promise<AlertDelivery | undefined> {
+  const collection = deliveries.in(workspaceId)
+  const key = `${workspaceId}:${id}`
+  if (attempting.has(key)) return collection.get(id)
+  const delivery = await collection.get(id)
+  if (!delivery || delivery.status === 'delivered') return delivery
+
+  attempting.add(key)
+  try {
+    const attempts = delivery.attempts + 1
+    try {
+      await deliver(workspaceId, delivery.action, delivery.payload)
+      return await collection.update(id, { status: 'delivered', attempts, lastError: undefined, nextAttemptAt: undefined, deliveredAt: new Date().toISOString() })
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error)
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`Alert delivery ${id} (${delivery.target}) failed for good:`, lastError)
+        return await collection.update(id, { status: 'failed', attempts, lastError, nextAttemptAt: undefined })
+      }
+
+      const delayMs = RETRY_BASE_MS * 2 ** (attempts - 1)
+      scheduleRetry(workspaceId, id, delayMs)
+      return await collection.update(id, { status: 'pending', attempts, lastError, nextAttemptAt: new Date(Date.now() + delayMs).toISOString() })
+    }
+  } finally {
+    attempting.delete(key)
+  }
+}
+
+/**
+ * Picks up retries whose in-process timer was lost, e.g. to a restart.
+ */
+export async function retryDueDeliveries(workspaceId: string): Promise<number> {
+  const now = new Date().toISOString()
+  const stale = new Date(Date.now() - RETRY_BASE_MS).toISOString()
+  const due = (await deliveries.in(workspaceId).all()).filter(delivery =>
+    delivery.status === 'pending' && (delivery.nextAttemptAt ? delivery.nextAttemptAt <= now : delivery.createdAt <= stale)
+  )
+  for (const delivery of due) await attemptDelivery(workspaceId, delivery.id)
+  return due.length
+}
+
+export async function retryDelivery(workspaceId: string, id: string): Promise<AlertDelivery | undefined> {
+  const collection = deliveries.in(workspaceId)
+  const delivery = await collection.get(id)
+  if (!delivery || delivery.status === 'delivered') return delivery
+  await collection.update(id, { status: 'pending', attempts: Math.min(delivery.attempts, MAX_ATTEMPTS - 1) })
+  return attemptDelivery(workspaceId, id)
+}
+
+function toPayload(record: HistoryRecord, rule: AutomationRule): AlertPayload {
+  const { result } = record
+  return {
+    historyId: record.id,
+    ruleName: rule.name,
+    riskLevel: result.riskLevel,
+    leadQualityScore: result.leadQualityScore || 0,
+    intent: intentLabel(result),
+    sender: result.email?.from || record.input.senderInfo || '',
+    subject: result.email?.subject || record.input.message.split('\n')[0].replace(/^Subject:\s*/i, '').slice(0, 120),
+    reason: result.reason,
+    recommendedAction: result.recommendedAction,
+    analyzedAt: record.createdAt
+  }
+}
+
+/**
+ * Fires every enabled rule that matches a recorded analysis. Each action is
+ * logged before it is attempted; queue items are added before this returns,
+ * while webhooks and email are delivered in the background.
+ */
+export async function runAutomations(workspaceId: string, record: HistoryRecord): Promise<AutomationFiring[]> {
+  const domain = senderDomain(record)
+  const rules = (await listAutomationRules(workspaceId)).filter(rule => rule.enabled && matchesConditions(rule.conditions, record.result, domain))
+  const firings: AutomationFiring[] = []
+
+  for (const rule of rules) {
+    const payload = toPayload(record, rule)
+    for (const action of rule.actions) {
+      const delivery = await deliveries.in(workspaceId).insert({
+        id: generateId(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        historyId: record.id,
+        action,
+        target: describeAction(action),
+        payload,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString()
+      })
+
+      const attempt = attemptDelivery(workspaceId, delivery.id)
+      if (action.type === 'queue') {
+        await attempt
+      } else {
+        attempt.catch(error => console.error('Alert delivery failed:', error))
+      }
+    }
+    firings.push({ ruleId: rule.id, ruleName: rule.name, actions: rule.actions.map(describeAction) })
+  }
+
+  retryDueDeliveries(workspaceId).catch(error => console.error('Alert retry sweep failed:', error))
+  return firings
+}
+
+export async function listDeliveries(workspaceId: string, limit = 200): Promise<DeliveryLogEntry[]> {
+  return (await deliveries.in(workspaceId).all())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map(({ action, payload, ...entry }) => ({ ...entry, actionType: action.type }))
+}
+
+export async function listQueueItems(workspaceId: string, query: { queue?: string, status?: string }): Promise<QueueItem[]> {
+  return (await queueItems.in(workspaceId).all())
+    .filter(item => (!query.queue || item.queue === query.queue) && (!query.status || item.status === query.status))
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+}
+
+export async function updateQueueItem(workspaceId: string, id: string, status: QueueItemStatus): Promise<QueueItem | undefined> {
+  return queueItems.in(workspaceId).update(id, { status, updatedAt: new Date().toISOString() })
+}
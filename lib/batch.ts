@@ -0,0 +1,147 @@
+import type { AnalysisResult } from './analyze'
+
+export interface BatchItem {
+  message?: string
+  senderInfo?: string
+  context?: string
+  rawEmail?: string
+}
+
+export interface BatchItemResult {
+  index: number
+  senderInfo?: string
+  preview: string
+  result?: AnalysisResult
+  error?: string
+}
+
+export interface BatchSummary {
+  total: number
+  succeeded: number
+  failed: number
+}
+
+export interface CsvColumnMapping {
+  message: string
+  senderInfo?: string
+  context?: string
+}
+
+export const DEFAULT_CSV_COLUMNS: CsvColumnMapping = {
+  message: 'message',
+  senderInfo: 'sender',
+  context: 'context'
+}
+
+export class BatchInputError extends Error {}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+export function csvToItems(text: string, columns: Partial<CsvColumnMapping> = {}): BatchItem[] {
+  const mapping = { ...DEFAULT_CSV_COLUMNS, ...columns }
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new BatchInputError('CSV is empty')
+
+  const names = header.map(name => name.trim().toLowerCase())
+  const indexOf = (column?: string) => column ? names.indexOf(column.trim().toLowerCase()) : -1
+  const messageIndex = indexOf(mapping.message)
+  const senderIndex = indexOf(mapping.senderInfo)
+  const contextIndex = indexOf(mapping.context)
+
+  if (messageIndex === -1) {
+    throw new BatchInputError(`CSV has no "${mapping.message}" column (found: ${header.join(', ')})`)
+  }
+
+  return rows.map(cells => ({
+    message: cells[messageIndex] || '',
+    senderInfo: senderIndex === -1 ? undefined : cells[senderIndex],
+    context: contextIndex === -1 ? undefined : cells[contextIndex]
+  }))
+}
+
+export function splitMbox(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n')
+  const messages: string[] = []
+  let current: string[] | null = null
+
+  for (const line of normalized.split('\n')) {
+    if (line.startsWith('From ')) {
+      if (current) messages.push(current.join('\n'))
+      current = []
+    } else if (current) {
+      current.push(line.replace(/^>(>*From )/, '$1'))
+    }
+  }
+
+  if (current) messages.push(current.join('\n'))
+  return messages.map(message => message.trim()).filter(Boolean)
+}
+
+// Text from a message may start like a formula, which a spreadsheet would run on opening.
+function escapeCsvCell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: (string | number | undefined)[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\n')
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run))
+  return results
+}
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto'
+import type { HistoryRecord } from './history'
+import { stripInvisible } from './injection'
+import { intentOf } from './intent'
+import type { AnalysisResult, Intent, RiskLevel } from './schema'
+import { generateId, WorkspaceCollection } from './store'
+
+export type ClassifierEvidence = Pick<AnalysisResult, 'signals' | 'headerSignals' | 'profileSignals' | 'injectionSignals' | 'links' | 'attachments' | 'paymentSignals'>
+
+interface LabelCounts {
+  documents: number
+  tokens: number
+  counts: Record<string, number>
+}
+
+// A multinomial naive Bayes model over the distinct features of a message.
+interface NaiveBayes {
+  labels: Record<string, LabelCounts>
+  vocabularySize: number
+}
+
+export interface ClassifierValidation {
+  folds: number
+  riskAccuracy: number
+  intentAccuracy: number
+  baselineRiskAccuracy: number
+  baselineIntentAccuracy: number
+}
+
+export interface ClassifierInfo {
+  id: string
+  version: number
+  trainedAt: string
+  trainingSize: number
+  labels: { riskLevel: Record<string, number>, intent: Record<string, number> }
+  validation?: ClassifierValidation
+  active: boolean
+}
+
+export interface ClassifierModel extends ClassifierInfo {
+  risk: NaiveBayes
+  intent: NaiveBayes
+}
+
+export interface ClassifierVerdict {
+  version: number
+  riskLevel: RiskLevel
+  riskConfidence: number
+  intent: Intent
+  intentConfidence: number
+}
+
+interface Example {
+  id: string
+  features: string[]
+  riskLevel: RiskLevel
+  intent: Intent
+  baseline: { riskLevel: RiskLevel, intent: Intent }
+}
+
+export class ClassifierInputError extends Error {}
+
+export const MIN_TRAINING_EXAMPLES = 20
+// Only this sure does the classifier change a verdict.
+export const CLASSIFIER_CONFIDENCE = 0.8
+
+const FOLDS = 5
+const VOCABULARY_LIMIT = 5000
+const MAX_TOKENS = 2000
+const VERSIONS_KEPT = 10
+// Feedback comes in bursts while reviewing, so it is trained on together.
+const TRAINING_DELAY_MS = 30 * 1000
+
+const models = new WorkspaceCollection<ClassifierModel>('classifier-models')
+
+// Training runs one at a time per workspace so versions are never reused.
+const training = new Map<string, Promise<unknown>>()
+const scheduled = new Map<string, Date>()
+
+/**
+ * The words of the message plus the heuristic evidence already gathered for
+ * it. Evidence features contain a colon, which no word token can.
+ */
+export function classifierFeatures(message: string, evidence: ClassifierEvidence): string[] {
+  const words = (stripInvisible(message).toLowerCase().match(/\p{L}[\p{L}\p{N}'-]*/gu) || [])
+    .filter(word => word.length > 1)
+    .slice(0, MAX_TOKENS)
+
+  return [...new Set([
+    ...words,
+    ...(evidence.signals || []).map(signal => `rule:${signal.ruleId}`),
+    ...(evidence.headerSignals || []).map(signal => `headers:${signal.severity}`),
+    ...(evidence.profileSignals || []).map(signal => `profile:${signal.severity}`),
+    ...(evidence.injectionSignals || []).map(signal => `injection:${signal.severity}`),
+    ...(evidence.paymentSignals || []).map(signal => `payments:${signal.severity}`),
+    ...(evidence.links || []).map(link => `links:${link.risk}`),
+    ...(evidence.attachments || []).map(attachment => `attachments:${attachment.risk}`)
+  ])]
+}
+
+function trainNaiveBayes(examples: { features: string[], label: string }[]): NaiveBayes {
+  const frequency = new Map<string, number>()
+  for (const { features } of examples) {
+    for (const feature of features) frequency.set(feature, (frequency.get(feature) || 0) + 1)
+  }
+  const vocabulary = new Set([...frequency.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, VOCABULARY_LIMIT)
+    .map(([feature]) => feature))
+
+  const labels: Record<string, LabelCounts> = {}
+  for (const { features, label } of examples) {
+    const counts = labels[label] ??= { documents: 0, tokens: 0, counts: {} }
+    counts.documents++
+    for (const feature of features) {
+      if (!vocabulary.has(feature)) continue
+      counts.counts[feature] = (counts.counts[feature] || 0) + 1
+      counts.tokens++
+    }
+  }
+
+  return { labels, vocabularySize: vocabulary.size }
+}
+
+// Laplace smoothing keeps an unseen feature from ruling a label out.
+function predict(model: NaiveBayes, features: string[]): { label: string, confidence: number } {
+  const entries = Object.entries(model.labels)
+  const documents = entries.reduce((sum, [, counts]) => sum + counts.documents, 0)
+  const known = features.filter(feature => entries.some(([, counts]) => feature in counts.counts))
+
+  const scores = entries.map(([label, counts]) => {
+    let score = Math.log((counts.documents + 1) / (documents + entries.length))
+    for (const feature of known) {
+      score += Math.log(((counts.counts[feature] || 0) + 1) / (counts.tokens + model.vocabularySize))
+    }
+    return { label, score }
+  })
+
+  const best = scores.reduce((a, b) => b.score > a.score ? b : a)
+  const total = scores.reduce((sum, { score }) => sum + Math.exp(score - best.score), 0)
+  return { label: best.label, confidence: Math.round(100 / total) / 100 }
+}
+
+function trainHeads(examples: Example[]): Pick<ClassifierModel, 'risk' | 'intent'> {
+  return {
+    risk: trainNaiveBayes(examples.map(({ features, riskLevel }) => ({ features, label: riskLevel }))),
+    intent: trainNaiveBayes(examples.map(({ features, intent }) => ({ features, label: intent })))
+  }
+}
+
+function foldOf(id: string): number {
+  return parseInt(createHash('sha256').update(id).digest('hex').slice(0, 8), 16) % FOLDS
+}
+
+function accuracy(hits: number, total: number): number {
+  return Math.round(hits / total * 1000) / 1000
+}
+
+/**
+ * Cross-validated against the verdicts the reviewers corrected, so the
+ * baseline is how often those verdicts were already right.
+ */
+function validate(examples: Example[]): ClassifierValidation | undefined {
+  if (examples.length < FOLDS) return undefined
+
+  const hits = { evaluated: 0, risk: 0, intent: 0, baselineRisk: 0, baselineIntent: 0 }
+  for (let fold = 0; fold < FOLDS; fold++) {
+    const held = examples.filter(example => foldOf(example.id) === fold)
+    const rest = examples.filter(example => foldOf(example.id) !== fold)
+    if (held.length === 0 || rest.length === 0) continue
+
+    const heads = trainHeads(rest)
+    for (const example of held) {
+      hits.evaluated++
+      if (predict(heads.risk, example.features).label === example.riskLevel) hits.risk++
+      if (predict(heads.intent, example.features).label === example.intent) hits.intent++
+      if (example.baseline.riskLevel === example.riskLevel) hits.baselineRisk++
+      if (example.baseline.intent === example.intent) hits.baselineIntent++
+    }
+  }
+  if (hits.evaluated === 0) return undefined
+
+  return {
+    folds: FOLDS,
+    riskAccuracy: accuracy(hits.risk, hits.evaluated),
+    intentAccuracy: accuracy(hits.intent, hits.evaluated),
+    baselineRiskAccuracy: accuracy(hits.baselineRisk, hits.evaluated),
+    baselineIntentAccuracy: accuracy(hits.baselineIntent, hits.evaluated)
+  }
+}
+
+function countLabels(labels: string[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const label of labels) counts[label] = (counts[label] || 0) + 1
+  return counts
+}
+
+export function toClassifierInfo(model: ClassifierModel): ClassifierInfo {
+  const { id, version, trainedAt, trainingSize, labels, validation, active } = model
+  return { id, version, trainedAt, trainingSize, labels, ...(validation && { validation }), active }
+}
+
+async function train(workspaceId: string, records: HistoryRecord[]): Promise<ClassifierInfo> {
+  const examples: Example[] = records.flatMap(record => record.feedback ? [{
+    id: record.id,
+    features: classifierFeatures(record.input.message, record.result),
+    riskLevel: record.feedback.riskLevel,
+    intent: record.feedback.intent,
+    baseline: { riskLevel: record.result.riskLevel, intent: intentOf(record.result)?.primary ?? 'inquiry' }
+  }] : [])
+  if (examples.length === 0) throw new ClassifierInputError('No analyses have feedback to train on yet')
+
+  const collection = models.in(workspaceId)
+  const existing = (await collection.all()).sort((a, b) => a.version - b.version)
+  const validation = validate(examples)
+
+  // The final model learns from every example; validation only measured it.
+  const model = await collection.insert({
+    id: generateId(),
+    version: (existing[existing.length - 1]?.version || 0) + 1,
+    trainedAt: new Date().toISOString(),
+    trainingSize: examples.length,
+    labels: {
+      riskLevel: countLabels(examples.map(example => example.riskLevel)),
+      intent: countLabels(examples.map(example => example.intent))
+    },
+    ...(validation && { validation }),
+    active: examples.length >= MIN_TRAINING_EXAMPLES && !!validation && validation.riskAccuracy >= validation.baselineRiskAccuracy,
+    ...trainHeads(examples)
+  })
+
+  for (const old of existing.slice(0, Math.max(existing.length + 1 - VERSIONS_KEPT, 0))) {
+    await collection.remove(old.id)
+  }
+
+  return toClassifierInfo(model)
+}
+
+export function trainClassifier(workspaceId: string, records: HistoryRecord[]): Promise<ClassifierInfo> {
+  const run = (training.get(workspaceId) || Promise.resolve())
+    .catch(() => undefined)
+    .then(() => train(workspaceId, records))
+  training.set(workspaceId, run)
+  return run
+}
+
+/**
+ * Trains once on everything reviewed until then, a little after the first
+ * feedback that hasn't been trained on yet. Returns when that will be.
+ */
+export function scheduleTraining(workspaceId: string, loadRecords: () => Promise<HistoryRecord[]>): Date {
+  const due = scheduled.get(workspaceId)
+  if (due) return due
+
+  const at = new Date(Date.now() + TRAINING_DELAY_MS)
+  scheduled.set(workspaceId, at)
+  setTimeout(() => {
+    scheduled.delete(workspaceId)
+    loadRecords()
+      .then(records => trainClassifier(workspaceId, records))
+      .catch(error => console.error('Classifier training failed:', error))
+  }, TRAINING_DELAY_MS).unref?.()
+  return at
+}
+
+export async function listClassifierVersions(workspaceId: string): Promise<ClassifierInfo[]> {
+  return (await models.in(workspaceId).all())
+    .sort((a, b) => b.version - a.version)
+    .map(toClassifierInfo)
+}
+
+/**
+ * The latest version, unless it didn't beat the verdicts it learned from, in
+ * which case no learned model is used at all.
+ */
+export async function loadClassifier(workspaceId: string): Promise<ClassifierModel | undefined> {
+  const latest = (await models.in(workspaceId).all()).reduce<ClassifierModel | undefined>(
+    (best, model) => !best || model.version > best.version ? model : best,
+    undefined
+  )
+  return latest?.active ? latest : undefined
+}
+
+export function classify(model: ClassifierModel, message: string, evidence: ClassifierEvidence): ClassifierVerdict {
+  const features = classifierFeatures(message, evidence)
+  const risk = predict(model.risk, features)
+  const intent = predict(model.intent, features)
+
+  return {
+    version: model.version,
+    riskLevel: risk.label as RiskLevel,
+    riskConfidence: risk.confidence,
+    intent: intent.label as Intent,
+    intentConfidence: intent.confidence
+  }
+}
@@ -0,0 +1,75 @@
+import type { AutomationAction, AutomationConditions } from './automation'
+import type { HistorySource, ReviewStatus } from './history'
+import { INTENT_LABELS } from './intent'
+import type { BankAccountType, PaymentEntities } from './payments'
+
+export const REVIEW_LABELS: Record<ReviewStatus, string> = {
+  open: 'Open',
+  confirmed_fraud: 'Confirmed Fraud',
+  false_positive: 'False Positive',
+  handled: 'Handled'
+}
+
+export const SOURCE_LABELS: Record<HistorySource, string> = {
+  manual: 'Manual',
+  webhook: 'Webhook',
+  imap: 'IMAP'
+}
+
+export const BANK_ACCOUNT_LABELS: Record<BankAccountType, string> = {
+  iban: 'IBAN',
+  swift: 'SWIFT/BIC',
+  account_number: 'Account number',
+  routing_number: 'Routing number',
+  sort_code: 'Sort code'
+}
+
+export function paymentRows(entities: PaymentEntities): { label: string, values: string[] }[] {
+  return [
+    { label: 'Amounts', values: entities.amounts.map(amount => `${amount.currency} ${amount.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`) },
+    { label: 'Invoice numbers', values: entities.invoiceNumbers },
+    { label: 'Due dates', values: entities.dueDates.map(due => due.date || due.text) },
+    {
+      label: 'Bank details',
+      values: entities.bankAccounts.map(account => [
+        `${BANK_ACCOUNT_LABELS[account.type]} ${account.value}`,
+        account.country,
+        account.valid === false && 'invalid'
+      ].filter(Boolean).join(' · '))
+    },
+    { label: 'Crypto wallets', values: entities.cryptoWallets.map(wallet => `${wallet.network} ${wallet.address}`) },
+    { label: 'Gift card requests', values: entities.giftCards.map(request => request.text) }
+  ].filter(row => row.values.length > 0)
+}
+
+export function getRiskColor(riskLevel: string) {
+  const level = riskLevel.toLowerCase()
+  if (level.includes('safe')) return 'text-green-600 bg-green-50 border-green-200'
+  if (level.includes('suspicious')) return 'text-yellow-600 bg-yellow-50 border-yellow-200'
+  if (level.includes('high') || level.includes('fraud')) return 'text-red-600 bg-red-50 border-red-200'
+  return 'text-gray-600 bg-gray-50 border-gray-200'
+}
+
+export function download(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function describeAction(action: AutomationAction): string {
+  if (action.type === 'webhook') return `Webhook to ${new URL(action.url).host}`
+  if (action.type === 'email') return `Email to ${action.to.join(', ')}`
+  return `Added to the ${action.queue} queue`
+}
+
+export function describeConditions(conditions: AutomationConditions): string {
+  return [
+    conditions.riskLevels && `risk is ${conditions.riskLevels.join(' or ')}`,
+    conditions.minLeadScore !== undefined && `lead score ≥ ${conditions.minLeadScore}`,
+    conditions.intents && `intent is ${conditions.intents.map(intent => INTENT_LABELS[intent]).join(' or ')}`,
+    conditions.senderDomains && `sender domain is ${conditions.senderDomains.join(' or ')}`
+  ].filter(Boolean).join(' and ')
+}
@@ -0,0 +1,184 @@
+import { createHash } from 'crypto'
+import type { PreparedAnalysis } from './analyze'
+import type { HistoryRecord, ReviewStatus } from './history'
+import { estimateSimilarity, minhashSignature, wordsOf } from './minhash'
+import { AnalysisResult, RISK_LEVELS, RiskLevel } from './schema'
+import { WorkspaceCollection } from './store'
+
+interface Fingerprint {
+  id: string
+  createdAt: string
+  contentHash: string
+  signature?: number[]
+  campaignId: string
+}
+
+export interface DuplicateMatch {
+  historyId: string
+  createdAt: string
+  similarity: number
+  riskLevel: RiskLevel
+  review: ReviewStatus
+}
+
+export interface DuplicateSummary {
+  campaignId: string
+  count: number
+  exactCount: number
+  firstSeenAt: string
+  lastSeenAt: string
+  riskLevels: Partial<Record<RiskLevel, number>>
+  reviews: Partial<Record<ReviewStatus, number>>
+  matches: DuplicateMatch[]
+  cachedFrom?: string
+  reconciled?: string
+}
+
+export interface DuplicateLookup {
+  contentHash: string
+  signature?: number[]
+  cached?: HistoryRecord
+  matches: { record: HistoryRecord, campaignId: string, similarity: number, exact: boolean }[]
+}
+
+const MIN_WORDS = 8
+const SUMMARY_MATCHES = 10
+const HOUR_MS = 60 * 60 * 1000
+
+const fingerprints = new WorkspaceCollection<Fingerprint>('fingerprints')
+
+function numberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * The cache key covers everything the verdict depends on: the text, who sent
+ * it, the business context and the version of the organization profile. A
+ * reply language other than the message's own is part of it too, since the
+ * cached replies would be in the wrong language.
+ */
+function contentHashOf(prepared: PreparedAnalysis): string {
+  const { message, senderInfo, context, profile, language, replyLanguage } = prepared
+  const key = [message, senderInfo, context, profile.updatedAt, ...(replyLanguage && replyLanguage !== language ? [replyLanguage] : [])]
+  return createHash('sha256').update(JSON.stringify(key)).digest('hex')
+}
+
+// Results that didn't come from a model are cheap to redo and may have been
+// degraded by an outage or a spent budget, so they are never reused.
+function reusable(record: HistoryRecord): boolean {
+  return record.provider !== 'fallback' && record.result.parseStatus !== 'degraded'
+}
+
+/**
+ * Finds earlier analyses of the same message (same content hash) and of
+ * similar ones (MinHash similarity at or above DUPLICATE_SIMILARITY) within
+ * DUPLICATE_WINDOW_DAYS. An identical message analyzed by a model within
+ * ANALYSIS_CACHE_TTL_HOURS is returned as the cached result.
+ */
+export async function findDuplicates(workspaceId: string, prepared: PreparedAnalysis, records: HistoryRecord[]): Promise<DuplicateLookup> {
+  const contentHash = contentHashOf(prepared)
+  const words = wordsOf(prepared.message)
+  const signature = words.length >= MIN_WORDS ? minhashSignature(words) : undefined
+  const threshold = numberEnv('DUPLICATE_SIMILARITY', 0.6)
+  const since = new Date(Date.now() - numberEnv('DUPLICATE_WINDOW_DAYS', 30) * 24 * HOUR_MS).toISOString()
+  const byId = new Map(records.map(record => [record.id, record]))
+
+  const matches: DuplicateLookup['matches'] = []
+  for (const stored of await fingerprints.in(workspaceId).all()) {
+    const record = byId.get(stored.id)
+    if (!record || stored.createdAt < since) continue
+
+    const exact = stored.contentHash === contentHash
+    const similarity = exact ? 1 : signature && stored.signature ? estimateSimilarity(signature, stored.signature) : 0
+    if (exact || similarity >= threshold) matches.push({ record, campaignId: stored.campaignId, similarity, exact })
+  }
+  matches.sort((a, b) => a.record.createdAt.localeCompare(b.record.createdAt))
+
+  const ttlHours = numberEnv('ANALYSIS_CACHE_TTL_HOURS', 24)
+  const fresh = new Date(Date.now() - ttlHours * HOUR_MS).toISOString()
+  const cached = ttlHours > 0
+    ? matches.filter(match => match.exact && match.record.createdAt >= fresh && reusable(match.record)).pop()?.record
+    : undefined
+
+  return { contentHash, signature, cached, matches }
+}
+
+/**
+ * Remembers the message so later copies find it. A message joins the
+ * campaign of the earliest message it matches.
+ */
+export async function saveFingerprint(workspaceId: string, record: HistoryRecord, lookup: DuplicateLookup) {
+  await fingerprints.in(workspaceId).insert({
+    id: record.id,
+    createdAt: record.createdAt,
+    contentHash: lookup.contentHash,
+    ...(lookup.signature && { signature: lookup.signature }),
+    campaignId: lookup.matches[0]?.campaignId || record.id
+  })
+}
+
+function count<K extends string>(values: K[]): Partial<Record<K, number>> {
+  const counts: Partial<Record<K, number>> = {}
+  for (const value of values) counts[value] = (counts[value] || 0) + 1
+  return counts
+}
+
+/**
+ * Keeps a campaign on one verdict. Reviewer decisions come first: a copy
+ * confirmed as fraud makes every later copy high risk. Otherwise the result
+ * is raised to the most severe verdict given to an earlier copy, ignoring
+ * copies reviewers marked as false positives. Verdicts are never lowered,
+ * since a near-duplicate can still differ in the one link that matters.
+ */
+export function applyDuplicates(result: AnalysisResult, lookup: DuplicateLookup): AnalysisResult {
+  const { matches, cached } = lookup
+  if (matches.length === 0) return result
+
+  const reviews = count(matches.map(match => match.record.review.status))
+  const confirmed = reviews.confirmed_fraud || 0
+  const rated = matches.filter(match => match.record.review.status !== 'false_positive')
+  const severest = rated.reduce<RiskLevel>((level, match) => {
+    return RISK_LEVELS.indexOf(match.record.result.riskLevel) > RISK_LEVELS.indexOf(level) ? match.record.result.riskLevel : level
+  }, 'Safe')
+
+  const floor: RiskLevel = confirmed > 0 ? 'High Risk Fraud' : severest
+  const agreeing = rated.filter(match => match.record.result.riskLevel === floor).length
+  const reason = confirmed > 0
+    ? `Reviewers confirmed ${confirmed} earlier ${confirmed === 1 ? 'copy' : 'copies'} of this message as fraud.`
+    : `${agreeing} earlier similar ${agreeing === 1 ? 'message was' : 'messages were'} rated ${floor}.`
+  const raised = RISK_LEVELS.indexOf(floor) > RISK_LEVELS.indexOf(result.riskLevel)
+
+  const summary: DuplicateSummary = {
+    campaignId: matches[0].campaignId,
+    count: matches.length,
+    exactCount: matches.filter(match => match.exact).length,
+    firstSeenAt: matches[0].record.createdAt,
+    lastSeenAt: matches[matches.length - 1].record.createdAt,
+    riskLevels: count(matches.map(match => match.record.result.riskLevel)),
+    reviews,
+    matches: [...matches]
+      .sort((a, b) => b.similarity - a.similarity || b.record.createdAt.localeCompare(a.record.createdAt))
+      .slice(0, SUMMARY_MATCHES)
+      .map(({ record, similarity }) => ({
+        historyId: record.id,
+        createdAt: record.createdAt,
+        similarity: Math.round(similarity * 100) / 100,
+        riskLevel: record.result.riskLevel,
+        review: record.review.status
+      })),
+    ...(cached && { cachedFrom: cached.id }),
+    ...(raised && { reconciled: `Raised from ${result.riskLevel} to ${floor}: ${reason}` })
+  }
+
+  if (!raised) return { ...result, duplicates: summary }
+  return {
+    ...result,
+    riskLevel: floor,
+    intent: { ...result.intent, primary: 'risk' },
+    reason: `${result.reason} Verdict raised to ${floor} because it is part of a campaign: ${reason}`.trim(),
+    replies: floor === 'High Risk Fraud' ? [] : result.replies,
+    leadQualityScore: 0,
+    duplicates: summary
+  }
+}
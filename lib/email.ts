@@ -0,0 +1,409 @@
+import type { AttachmentInput } from './attachments'
+
+export interface EmailAddress {
+  name: string
+  address: string
+}
+
+export interface AuthenticationResults {
+  spf?: string
+  dkim?: string
+  dmarc?: string
+}
+
+export interface ParsedEmail {
+  headers: Record<string, string[]>
+  from?: EmailAddress
+  replyTo?: EmailAddress
+  returnPath?: string
+  to: EmailAddress[]
+  subject: string
+  date?: string
+  messageId?: string
+  received: string[]
+  authenticationResults: AuthenticationResults
+  text: string
+  html: string
+  attachments: AttachmentInput[]
+}
+
+export type SignalSeverity = 'low' | 'medium' | 'high'
+
+export interface HeaderSignal {
+  id: string
+  severity: SignalSeverity
+  description: string
+}
+
+export interface EmailSummary {
+  from?: string
+  replyTo?: string
+  returnPath?: string
+  subject: string
+  date?: string
+  messageId?: string
+  body: string
+  receivedHops: number
+  authenticationResults: AuthenticationResults
+}
+
+interface MimePart {
+  headers: Record<string, string[]>
+  body: string
+}
+
+export const FREE_MAIL_DOMAINS = ['gmail.com', 'googlemail.com', 'yahoo.com', 'outlook.com', 'hotmail.com', 'live.com', 'aol.com', 'icloud.com', 'proton.me', 'protonmail.com', 'gmx.com', 'mail.com', 'yandex.com']
+
+const SECOND_LEVEL_SUFFIXES = ['co.uk', 'org.uk', 'ac.uk', 'com.au', 'net.au', 'co.jp', 'com.br', 'co.in', 'co.nz', 'com.mx', 'co.za']
+
+function splitHeaderBlock(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n?/g, '\n')
+  const separator = normalized.search(/\n\n/)
+  const headerBlock = separator === -1 ? normalized : normalized.slice(0, separator)
+  const body = separator === -1 ? '' : normalized.slice(separator + 2)
+
+  const headers: Record<string, string[]> = {}
+  const unfolded = headerBlock.replace(/\n[ \t]+/g, ' ')
+
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    const value = line.slice(colon + 1).trim()
+    if (!headers[name]) headers[name] = []
+    headers[name].push(value)
+  }
+
+  return { headers, body }
+}
+
+function firstHeader(headers: Record<string, string[]>, name: string): string | undefined {
+  return headers[name]?.[0]
+}
+
+function parseHeaderParams(value: string): { value: string, params: Record<string, string> } {
+  const [main, ...rest] = value.split(';')
+  const params: Record<string, string> = {}
+
+  for (const param of rest) {
+    const eq = param.indexOf('=')
+    if (eq === -1) continue
+    const key = param.slice(0, eq).trim().toLowerCase()
+    params[key] = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1')
+  }
+
+  return { value: main.trim().toLowerCase(), params }
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function base64ToBytes(input: string): Uint8Array {
+  const clean = input.replace(/[^A-Za-z0-9+/=]/g, '')
+  return Uint8Array.from(Buffer.from(clean, 'base64'))
+}
+
+function quotedPrintableToBytes(input: string, underscoreIsSpace = false): Uint8Array {
+  const text = input.replace(/=\n/g, '')
+  const encoder = new TextEncoder()
+  const bytes: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const hex = text.slice(i + 1, i + 3)
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else if (char === '_' && underscoreIsSpace) {
+      bytes.push(0x20)
+    } else {
+      bytes.push(...encoder.encode(char))
+    }
+  }
+
+  return Uint8Array.from(bytes)
+}
+
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? base64ToBytes(text)
+        : quotedPrintableToBytes(text, true)
+      return decodeBytes(bytes, charset)
+    })
+}
+
+function decodePartBody(part: MimePart, charset: string): string {
+  const encoding = (firstHeader(part.headers, 'content-transfer-encoding') || '').toLowerCase()
+
+  if (encoding === 'base64') return decodeBytes(base64ToBytes(part.body), charset)
+  if (encoding === 'quoted-printable') return decodeBytes(quotedPrintableToBytes(part.body), charset)
+  return part.body
+}
+
+function decodePartBytes(part: MimePart): Uint8Array {
+  const encoding = (firstHeader(part.headers, 'content-transfer-encoding') || '').toLowerCase()
+
+  if (encoding === 'base64') return base64ToBytes(part.body)
+  if (encoding === 'quoted-printable') return quotedPrintableToBytes(part.body)
+  return new TextEncoder().encode(part.body)
+}
+
+// RFC 2231 names (filename*=UTF-8''...) take precedence over plain ones.
+function partFilename(part: MimePart, contentType: { params: Record<string, string> }): string | undefined {
+  const { params } = parseHeaderParams(firstHeader(part.headers, 'content-disposition') || '')
+  const extended = params['filename*'] || contentType.params['name*']
+  if (extended) {
+    try {
+      return decodeURIComponent(extended.replace(/^[^']*'[^']*'/, ''))
+    } catch {
+      return extended
+    }
+  }
+  const name = params.filename || contentType.params.name
+  return name ? decodeEncodedWords(name) : undefined
+}
+
+function collectBodies(part: MimePart, result: { text: string[], html: string[], attachments: AttachmentInput[] }) {
+  const contentType = parseHeaderParams(firstHeader(part.headers, 'content-type') || 'text/plain')
+  const disposition = (firstHeader(part.headers, 'content-disposition') || '').toLowerCase()
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = '--' + contentType.params.boundary
+    const sections = part.body.split(delimiter).slice(1)
+
+    for (const section of sections) {
+      if (section.startsWith('--')) break
+      collectBodies(splitHeaderBlock(section.replace(/^[ \t]*\n/, '')), result)
+    }
+    return
+  }
+
+  if (contentType.value === 'message/rfc822') {
+    collectBodies(splitHeaderBlock(part.body), result)
+    return
+  }
+
+  // Inline images and text parts without a file name are part of the body.
+  const filename = partFilename(part, contentType)
+  if (disposition.startsWith('attachment') || (filename && !/^(text|image)\//.test(contentType.value))) {
+    result.attachments.push({ filename: filename || 'attachment', contentType: contentType.value, content: decodePartBytes(part) })
+    return
+  }
+
+  if (contentType.value === 'text/plain') {
+    result.text.push(decodePartBody(part, contentType.params.charset).trim())
+  } else if (contentType.value === 'text/html') {
+    result.html.push(decodePartBody(part, contentType.params.charset).trim())
+  }
+}
+
+export function parseAddress(value: string | undefined): EmailAddress | undefined {
+  if (!value) return undefined
+  const decoded = decodeEncodedWords(value).trim()
+  const angle = decoded.match(/^(.*)<([^>]+)>\s*$/)
+
+  if (angle) {
+    return {
+      name: angle[1].trim().replace(/^"(.*)"$/, '$1').trim(),
+      address: angle[2].trim().toLowerCase()
+    }
+  }
+
+  const bare = decoded.match(/[^\s<>"]+@[^\s<>"]+/)
+  return bare ? { name: '', address: bare[0].toLowerCase() } : undefined
+}
+
+function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return []
+  const addresses: EmailAddress[] = []
+  let current = ''
+  let inQuotes = false
+  let inAngle = false
+
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes
+    if (char === '<') inAngle = true
+    if (char === '>') inAngle = false
+    if (char === ',' && !inQuotes && !inAngle) {
+      const parsed = parseAddress(current)
+      if (parsed) addresses.push(parsed)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  const parsed = parseAddress(current)
+  if (parsed) addresses.push(parsed)
+  return addresses
+}
+
+function parseAuthenticationResults(values: string[] = []): AuthenticationResults {
+  const results: AuthenticationResults = {}
+
+  for (const value of values) {
+    for (const method of ['spf', 'dkim', 'dmarc'] as const) {
+      const match = value.match(new RegExp(`\\b${method}=(\\w+)`, 'i'))
+      if (match && !results[method]) results[method] = match[1].toLowerCase()
+    }
+  }
+
+  return results
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim()
+}
+
+export function parseRawEmail(raw: string): ParsedEmail {
+  const root = splitHeaderBlock(raw)
+  const bodies = { text: [] as string[], html: [] as string[], attachments: [] as AttachmentInput[] }
+  collectBodies(root, bodies)
+
+  const returnPath = firstHeader(root.headers, 'return-path')?.replace(/[<>]/g, '').trim().toLowerCase()
+
+  return {
+    headers: root.headers,
+    from: parseAddress(firstHeader(root.headers, 'from')),
+    replyTo: parseAddress(firstHeader(root.headers, 'reply-to')),
+    returnPath: returnPath || undefined,
+    to: parseAddressList(firstHeader(root.headers, 'to')),
+    subject: decodeEncodedWords(firstHeader(root.headers, 'subject') || ''),
+    date: firstHeader(root.headers, 'date'),
+    messageId: firstHeader(root.headers, 'message-id'),
+    received: root.headers['received'] || [],
+    authenticationResults: parseAuthenticationResults(root.headers['authentication-results']),
+    text: bodies.text.filter(Boolean).join('\n\n'),
+    html: bodies.html.filter(Boolean).join('\n'),
+    attachments: bodies.attachments
+  }
+}
+
+export function emailBodyText(email: ParsedEmail): string {
+  return email.text || htmlToText(email.html)
+}
+
+function formatAddress(address?: EmailAddress): string | undefined {
+  if (!address) return undefined
+  return address.name ? `${address.name} <${address.address}>` : address.address
+}
+
+export function summarizeEmail(email: ParsedEmail): EmailSummary {
+  return {
+    from: formatAddress(email.from),
+    replyTo: formatAddress(email.replyTo),
+    returnPath: email.returnPath,
+    subject: email.subject,
+    date: email.date,
+    messageId: email.messageId,
+    body: emailBodyText(email),
+    receivedHops: email.received.length,
+    authenticationResults: email.authenticationResults
+  }
+}
+
+export function domainOf(address: string): string {
+  return address.split('@').pop()?.toLowerCase() || ''
+}
+
+export function registrableDomain(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.')
+  const lastTwo = labels.slice(-2).join('.')
+  return SECOND_LEVEL_SUFFIXES.includes(lastTwo) ? labels.slice(-3).join('.') : lastTwo
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+export function parseListEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+export function detectHeaderSignals(
+  email: ParsedEmail,
+  options: { executiveNames?: string[], companyDomains?: string[] } = {}
+): HeaderSignal[] {
+  const signals: HeaderSignal[] = []
+  const executiveNames = (options.executiveNames || []).map(normalizeName)
+  const companyDomains = (options.companyDomains || []).map(domain => domain.toLowerCase())
+  const fromDomain = email.from ? domainOf(email.from.address) : ''
+
+  if (email.from && email.replyTo && registrableDomain(domainOf(email.replyTo.address)) !== registrableDomain(fromDomain)) {
+    signals.push({
+      id: 'reply-to-mismatch',
+      severity: 'medium',
+      description: `Reply-To domain (${domainOf(email.replyTo.address)}) differs from From domain (${fromDomain}); replies would go to a different organization.`
+    })
+  }
+
+  if (email.from && email.returnPath && email.returnPath.includes('@') && registrableDomain(domainOf(email.returnPath)) !== registrableDomain(fromDomain)) {
+    signals.push({
+      id: 'return-path-mismatch',
+      severity: 'low',
+      description: `Return-Path domain (${domainOf(email.returnPath)}) differs from From domain (${fromDomain}).`
+    })
+  }
+
+  if (email.from?.name) {
+    const embedded = email.from.name.match(/[^\s<>"]+@[^\s<>"]+/)
+    if (embedded && embedded[0].toLowerCase() !== email.from.address) {
+      signals.push({
+        id: 'display-name-address-mismatch',
+        severity: 'high',
+        description: `Display name shows "${embedded[0]}" but the message was actually sent from ${email.from.address}.`
+      })
+    }
+
+    const displayName = normalizeName(email.from.name)
+    const impersonated = executiveNames.find(name => name && displayName.includes(name))
+    const trustedDomain = companyDomains.length > 0
+      ? companyDomains.some(domain => fromDomain === domain || fromDomain.endsWith('.' + domain))
+      : !FREE_MAIL_DOMAINS.includes(fromDomain)
+
+    if (impersonated && !trustedDomain) {
+      signals.push({
+        id: 'executive-display-name-spoofing',
+        severity: 'high',
+        description: `Display name "${email.from.name}" matches a known executive but the address ${email.from.address} is not a company address.`
+      })
+    }
+  }
+
+  const { spf, dkim, dmarc } = email.authenticationResults
+
+  if (dmarc && ['fail', 'permerror'].includes(dmarc)) {
+    signals.push({ id: 'dmarc-fail', severity: 'high', description: `DMARC check failed (dmarc=${dmarc}); the sender domain does not authorize this message.` })
+  }
+  if (spf && ['fail', 'permerror'].includes(spf)) {
+    signals.push({ id: 'spf-fail', severity: 'medium', description: `SPF check failed (spf=${spf}); the sending server is not authorized for this domain.` })
+  } else if (spf === 'softfail') {
+    signals.push({ id: 'spf-softfail', severity: 'low', description: 'SPF soft-failed; the sending server is probably not authorized for this domain.' })
+  }
+  if (dkim && ['fail', 'permerror'].includes(dkim)) {
+    signals.push({ id: 'dkim-fail', severity: 'medium', description: `DKIM signature failed (dkim=${dkim}); the message may have been altered or forged.` })
+  }
+
+  return signals
+}
@@ -0,0 +1,46 @@
+export interface OriginalMessage {
+  from?: string
+  subject?: string
+  date?: string
+  messageId?: string
+  body: string
+}
+
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+  let binary = ''
+  new TextEncoder().encode(value).forEach(byte => { binary += String.fromCharCode(byte) })
+  return `=?UTF-8?B?${btoa(binary)}?=`
+}
+
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/)
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : value
+}
+
+export function quoteText(text: string): string {
+  return text.split(/\r?\n/).map(line => line ? `> ${line}` : '>').join('\n')
+}
+
+/**
+ * Builds an unsent plain-text reply that mail clients open as a draft, with
+ * threading headers and the original message quoted below the reply.
+ */
+export function buildReplyEml(original: OriginalMessage, reply: { subject: string, body: string }): string {
+  const headers = [
+    original.from && `To: ${encodeAddress(original.from)}`,
+    `Subject: ${encodeHeader(reply.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    original.messageId && `In-Reply-To: ${original.messageId}`,
+    original.messageId && `References: ${original.messageId}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit'
+  ].filter(Boolean)
+
+  const attribution = `${original.date ? `On ${original.date}, ` : ''}${original.from || 'the sender'} wrote:`
+  const body = `${reply.body.trim()}\n\n${attribution}\n${quoteText(original.body.trim())}\n`
+
+  return `${headers.join('\r\n')}\r\n\r\n${body.replace(/\r?\n/g, '\r\n')}`
+}
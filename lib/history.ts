@@ -0,0 +1,225 @@
+import {
+  AnalysisRequest,
+  AnalysisResult,
+  AnalysisStreamListener,
+  analyzePrepared,
+  PreparedAnalysis,
+  prepareAnalysis
+} from './analyze'
+import { runAutomations } from './automation'
+import { scheduleTraining } from './classifier'
+import { applyDuplicates, findDuplicates, saveFingerprint } from './duplicates'
+import { intentOf, matchesIntent } from './intent'
+import { Intent, RiskLevel } from './schema'
+import { generateId, WorkspaceCollection } from './store'
+
+export const REVIEW_STATUSES = ['open', 'confirmed_fraud', 'false_positive', 'handled'] as const
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number]
+
+export const HISTORY_SOURCES = ['manual', 'webhook', 'imap'] as const
+
+export type HistorySource = typeof HISTORY_SOURCES[number]
+
+export interface CaseReview {
+  status: ReviewStatus
+  notes: string
+  updatedAt?: string
+  handledAt?: string
+}
+
+// The verdict a reviewer says the analysis should have reached.
+export interface VerdictFeedback {
+  correct: boolean
+  riskLevel: RiskLevel
+  intent: Intent
+  updatedAt: string
+}
+
+export interface HistoryRecord {
+  id: string
+  createdAt: string
+  input: {
+    message: string
+    senderInfo?: string
+    context?: string
+  }
+  result: AnalysisResult
+  provider: string
+  model?: string
+  latencyMs: number
+  source?: HistorySource
+  review: CaseReview
+  feedback?: VerdictFeedback
+}
+
+export interface HistoryQuery {
+  riskLevel?: string
+  intent?: string
+  minScore?: number
+  maxScore?: number
+  sender?: string
+  q?: string
+  status?: string
+  source?: string
+  campaign?: string
+  since?: string
+  until?: string
+  limit?: number
+  offset?: number
+}
+
+const history = new WorkspaceCollection<HistoryRecord>('history')
+
+// Copies of one message that arrive together (a batch, a mail burst) wait for
+// the first analysis instead of each calling a model.
+const inFlight = new Map<string, Promise<unknown>>()
+
+export async function analyzeAndRecord(workspaceId: string, request: AnalysisRequest, listener?: AnalysisStreamListener, source: HistorySource = 'manual'): Promise<AnalysisResult> {
+  const prepared = await prepareAnalysis(workspaceId, request)
+  const key = `${workspaceId}:${prepared.message}`
+  const earlier = inFlight.get(key)
+  const analysis = (async () => {
+    await earlier?.catch(() => undefined)
+    return analyzeAndStore(workspaceId, prepared, listener, source)
+  })()
+
+  inFlight.set(key, analysis)
+  try {
+    return await analysis
+  } finally {
+    if (inFlight.get(key) === analysis) inFlight.delete(key)
+  }
+}
+
+async function analyzeAndStore(workspaceId: string, prepared: PreparedAnalysis, listener: AnalysisStreamListener | undefined, source: HistorySource): Promise<AnalysisResult> {
+  const collection = history.in(workspaceId)
+  const started = Date.now()
+  const duplicates = await findDuplicates(workspaceId, prepared, await collection.all())
+  const result = applyDuplicates(await analyzePrepared(prepared, listener, duplicates.cached?.result), duplicates)
+  const record = await collection.insert({
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    input: {
+      message: prepared.message,
+      senderInfo: prepared.senderInfo,
+      context: prepared.context
+    },
+    result,
+    provider: result.provider || 'fallback',
+    model: result.model,
+    latencyMs: Date.now() - started,
+    source,
+    review: { status: 'open', notes: '' }
+  })
+  await saveFingerprint(workspaceId, record, duplicates)
+
+  let automations: AnalysisResult['automations']
+  try {
+    automations = await runAutomations(workspaceId, record)
+  } catch (error) {
+    console.error('Automation rules failed:', error)
+  }
+
+  return { ...result, historyId: record.id, automations }
+}
+
+function searchableText(record: HistoryRecord): string {
+  return [
+    record.input.message,
+    record.input.senderInfo,
+    record.input.context,
+    record.result.email?.subject,
+    record.result.reason,
+    record.review.notes
+  ].filter(Boolean).join('\n').toLowerCase()
+}
+
+export function senderOf(record: HistoryRecord): string {
+  return record.result.email?.from || record.input.senderInfo || ''
+}
+
+// The first message of a campaign matched nothing and names it.
+export function campaignOf(record: HistoryRecord): string {
+  return record.result.duplicates?.campaignId || record.id
+}
+
+export async function queryHistory(workspaceId: string, query: HistoryQuery): Promise<{ records: HistoryRecord[], total: number }> {
+  const terms = (query.q || '').toLowerCase().split(/\s+/).filter(Boolean)
+  const sender = query.sender?.toLowerCase()
+
+  const matches = (await history.in(workspaceId).all()).filter(record => {
+    const score = record.result.leadQualityScore || 0
+    if (query.riskLevel && record.result.riskLevel !== query.riskLevel) return false
+    if (query.intent && !matchesIntent(record.result, query.intent)) return false
+    if (query.minScore !== undefined && score < query.minScore) return false
+    if (query.maxScore !== undefined && score > query.maxScore) return false
+    if (query.status && record.review.status !== query.status) return false
+    if (query.source && (record.source || 'manual') !== query.source) return false
+    if (query.campaign && campaignOf(record) !== query.campaign) return false
+    if (query.since && record.createdAt < query.since) return false
+    if (query.until && record.createdAt > query.until) return false
+    if (sender && !senderOf(record).toLowerCase().includes(sender)) return false
+    if (terms.length > 0) {
+      const text = searchableText(record)
+      if (!terms.every(term => text.includes(term))) return false
+    }
+    return true
+  })
+
+  matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  const offset = query.offset || 0
+  const limit = query.limit || 50
+
+  return { records: matches.slice(offset, offset + limit), total: matches.length }
+}
+
+export async function getHistoryRecords(workspaceId: string): Promise<HistoryRecord[]> {
+  return history.in(workspaceId).all()
+}
+
+export async function getHistoryRecord(workspaceId: string, id: string): Promise<HistoryRecord | undefined> {
+  return history.in(workspaceId).get(id)
+}
+
+export async function reviewHistoryRecord(workspaceId: string, id: string, review: { status?: ReviewStatus, notes?: string }): Promise<HistoryRecord | undefined> {
+  const collection = history.in(workspaceId)
+  const record = await collection.get(id)
+  if (!record) return undefined
+
+  const now = new Date().toISOString()
+  const status = review.status ?? record.review.status
+  return collection.update(id, {
+    review: {
+      status,
+      notes: review.notes ?? record.review.notes,
+      updatedAt: now,
+      ...(status === 'handled' && { handledAt: record.review.handledAt ?? now })
+    }
+  })
+}
+
+/**
+ * Fields left out keep the analysis's own verdict. The workspace's classifier
+ * is retrained with the feedback shortly after, not while the request waits.
+ */
+export async function saveFeedback(workspaceId: string, id: string, feedback: { riskLevel?: RiskLevel, intent?: Intent }): Promise<{ record: HistoryRecord, trainsAt: string } | undefined> {
+  const collection = history.in(workspaceId)
+  const existing = await collection.get(id)
+  if (!existing) return undefined
+
+  const ownIntent = intentOf(existing.result)?.primary ?? 'inquiry'
+  const riskLevel = feedback.riskLevel ?? existing.result.riskLevel
+  const intent = feedback.intent ?? ownIntent
+  const record = await collection.update(id, {
+    feedback: {
+      correct: riskLevel === existing.result.riskLevel && intent === ownIntent,
+      riskLevel,
+      intent,
+      updatedAt: new Date().toISOString()
+    }
+  })
+  if (!record) return undefined
+
+  return { record, trainsAt: scheduleTraining(workspaceId, () => collection.all()).toISOString() }
+}
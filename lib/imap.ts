@@ -0,0 +1,235 @@
+import net from 'net'
+import tls from 'tls'
+import { IngestInputError, ingestEmail } from './ingest'
+import { DEFAULT_WORKSPACE_ID, JsonCollection } from './store'
+
+export interface ImapConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string
+  password: string
+  mailbox: string
+  markSeen: boolean
+  timeoutMs: number
+  workspaceId: string
+}
+
+export interface PollSummary {
+  mailbox: string
+  fetched: number
+  analyzed: number
+  duplicates: number
+  failed: number
+}
+
+export class ImapError extends Error {}
+
+interface ResponseLine {
+  text: string
+  literals: Buffer[]
+}
+
+interface MailboxState {
+  id: string
+  uidValidity: string
+  lastUid: number
+  polledAt: string
+}
+
+const mailboxState = new JsonCollection<MailboxState>('imap-state')
+
+export function imapConfigFromEnv(): ImapConfig | undefined {
+  const host = process.env.IMAP_HOST
+  if (!host) return undefined
+
+  const secure = process.env.IMAP_TLS !== 'false'
+  return {
+    host,
+    port: parseInt(process.env.IMAP_PORT || (secure ? '993' : '143')),
+    secure,
+    user: process.env.IMAP_USER || '',
+    password: process.env.IMAP_PASSWORD || '',
+    mailbox: process.env.IMAP_MAILBOX || 'INBOX',
+    markSeen: process.env.IMAP_MARK_SEEN === 'true',
+    timeoutMs: parseInt(process.env.IMAP_TIMEOUT_MS || '30000'),
+    workspaceId: process.env.IMAP_WORKSPACE || DEFAULT_WORKSPACE_ID
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+/**
+ * Just enough IMAP4rev1 for polling one mailbox: tagged commands, untagged
+ * responses and the {n} literals FETCH uses to return message bodies.
+ */
+class ImapConnection {
+  private buffer = Buffer.alloc(0)
+  private waiting?: () => void
+  private failure?: Error
+  private tag = 0
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.on('data', chunk => {
+      this.buffer = Buffer.concat([this.buffer, chunk])
+      this.wake()
+    })
+    socket.on('error', error => {
+      this.failure = error
+      this.wake()
+    })
+    socket.on('close', () => {
+      this.failure = this.failure || new ImapError('IMAP connection closed')
+      this.wake()
+    })
+  }
+
+  static async open(config: ImapConfig): Promise<ImapConnection> {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once(config.secure ? 'secureConnect' : 'connect', resolve)
+      socket.once('error', reject)
+    })
+    socket.setTimeout(config.timeoutMs, () => socket.destroy(new ImapError('IMAP server timed out')))
+
+    const connection = new ImapConnection(socket)
+    const greeting = await connection.readLine()
+    if (!/^\* (?:OK|PREAUTH)\b/i.test(greeting.text)) {
+      socket.destroy()
+      throw new ImapError(`Unexpected IMAP greeting: ${greeting.text}`)
+    }
+    return connection
+  }
+
+  private wake() {
+    const waiting = this.waiting
+    this.waiting = undefined
+    waiting?.()
+  }
+
+  private async fill(): Promise<void> {
+    if (this.failure) throw this.failure
+    await new Promise<void>(resolve => { this.waiting = resolve })
+  }
+
+  private async readLine(): Promise<ResponseLine> {
+    let text = ''
+    const literals: Buffer[] = []
+
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n')
+      if (end === -1) {
+        await this.fill()
+        continue
+      }
+
+      const chunk = this.buffer.subarray(0, end).toString('utf8')
+      this.buffer = this.buffer.subarray(end + 2)
+      text += chunk
+
+      const literal = chunk.match(/\{(\d+)\}$/)
+      if (!literal) return { text, literals }
+
+      const size = parseInt(literal[1])
+      while (this.buffer.length < size) await this.fill()
+      literals.push(this.buffer.subarray(0, size))
+      this.buffer = this.buffer.subarray(size)
+    }
+  }
+
+  async command(command: string): Promise<ResponseLine[]> {
+    const tag = `A${++this.tag}`
+    this.socket.write(`${tag} ${command}\r\n`)
+
+    const untagged: ResponseLine[] = []
+    for (;;) {
+      const line = await this.readLine()
+      if (!line.text.startsWith(`${tag} `)) {
+        untagged.push(line)
+        continue
+      }
+
+      const status = line.text.slice(tag.length + 1)
+      // Only the verb is reported so a failed LOGIN never logs the password.
+      if (!/^OK\b/i.test(status)) throw new ImapError(`IMAP ${command.split(' ')[0]} failed: ${status}`)
+      return untagged
+    }
+  }
+
+  async close() {
+    try {
+      await this.command('LOGOUT')
+    } catch {
+      // The server may drop the connection right after BYE.
+    } finally {
+      this.socket.destroy()
+    }
+  }
+}
+
+async function saveState(id: string, uidValidity: string, lastUid: number) {
+  const state = { uidValidity, lastUid, polledAt: new Date().toISOString() }
+  if (await mailboxState.get(id)) {
+    await mailboxState.update(id, state)
+  } else {
+    await mailboxState.insert({ id, ...state })
+  }
+}
+
+/**
+ * Fetches messages that arrived since the last poll and ingests them. The
+ * last seen UID is stored per mailbox and reset when UIDVALIDITY changes;
+ * Message-ID idempotency covers anything fetched twice.
+ */
+export async function pollMailbox(config: ImapConfig): Promise<PollSummary> {
+  const stateId = `${config.user}@${config.host}:${config.port}/${config.mailbox}`
+  const summary: PollSummary = { mailbox: config.mailbox, fetched: 0, analyzed: 0, duplicates: 0, failed: 0 }
+  const connection = await ImapConnection.open(config)
+
+  try {
+    await connection.command(`LOGIN ${quote(config.user)} ${quote(config.password)}`)
+    const selected = await connection.command(`SELECT ${quote(config.mailbox)}`)
+    const uidValidity = selected.map(line => line.text.match(/\[UIDVALIDITY (\d+)\]/i)?.[1]).find(Boolean) || ''
+
+    const state = await mailboxState.get(stateId)
+    const lastUid = state && state.uidValidity === uidValidity ? state.lastUid : 0
+
+    // "n:*" always matches the newest message, even when its UID is below n.
+    const uids = (await connection.command(`UID SEARCH UID ${lastUid + 1}:*`))
+      .flatMap(line => line.text.match(/^\* SEARCH\b(.*)$/i)?.[1].trim().split(/\s+/) || [])
+      .map(Number)
+      .filter(uid => uid > lastUid)
+      .sort((a, b) => a - b)
+
+    for (const uid of uids) {
+      const fetched = await connection.command(`UID FETCH ${uid} (BODY.PEEK[])`)
+      const raw = fetched.find(line => line.literals.length > 0)?.literals[0]
+
+      if (raw) {
+        summary.fetched++
+        try {
+          const outcome = await ingestEmail(config.workspaceId, raw.toString('utf8'), 'imap')
+          summary[outcome.status === 'analyzed' ? 'analyzed' : 'duplicates']++
+        } catch (error) {
+          if (!(error instanceof IngestInputError)) throw error
+          summary.failed++
+          console.error(`Skipping IMAP message ${uid} in ${config.mailbox}:`, error.message)
+        }
+        if (config.markSeen) await connection.command(`UID STORE ${uid} +FLAGS.SILENT (\\Seen)`)
+      }
+
+      await saveState(stateId, uidValidity, uid)
+    }
+
+    if (uids.length === 0) await saveState(stateId, uidValidity, lastUid)
+  } finally {
+    await connection.close()
+  }
+
+  return summary
+}
@@ -0,0 +1,225 @@
+import { createHash, randomUUID } from 'crypto'
+import { AnalysisInputError, AnalysisResult } from './analyze'
+import { parseRawEmail } from './email'
+import { analyzeAndRecord } from './history'
+import { WorkspaceCollection } from './store'
+
+export type IngestSource = 'webhook' | 'imap'
+
+export class IngestInputError extends Error {}
+
+export interface IngestRecord {
+  id: string
+  source: IngestSource
+  historyId?: string
+  riskLevel: string
+  receivedAt: string
+}
+
+export interface IngestOutcome {
+  status: 'analyzed' | 'duplicate'
+  messageId: string
+  historyId?: string
+  riskLevel: string
+  result?: AnalysisResult
+}
+
+type HeaderList = [string, string][]
+
+// Gateways that forward the original MIME message put it in one of these fields.
+const RAW_FIELDS = ['raw', 'rawemail', 'email', 'body-mime', 'mime', 'content']
+const TEXT_FIELDS = ['text', 'textbody', 'body-plain', 'plain', 'body']
+const HTML_FIELDS = ['html', 'htmlbody', 'body-html']
+const HEADER_FIELDS = ['headers', 'message-headers']
+const MESSAGE_ID_FIELDS = ['messageid', 'message-id', 'message_id']
+const REBUILT_HEADERS = ['content-type', 'content-transfer-encoding', 'mime-version']
+
+// Keyed by Message-ID, so the record's id doubles as the idempotency key.
+const ingested = new WorkspaceCollection<IngestRecord>('ingested')
+const inFlight = new Map<string, Promise<IngestOutcome>>()
+
+function looksLikeMime(value: string): boolean {
+  return /^[\w-]+:/m.test(value) && /\r?\n\r?\n/.test(value)
+}
+
+function lowercaseKeys(body: Record<string, unknown>): Map<string, unknown> {
+  return new Map(Object.entries(body).map(([key, value]) => [key.toLowerCase(), value]))
+}
+
+function pickString(fields: Map<string, unknown>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = fields.get(name)
+    if (typeof value === 'string' && value.trim()) return value
+  }
+  return undefined
+}
+
+function addressValue(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value
+  if (Array.isArray(value)) return value.map(addressValue).filter(Boolean).join(', ') || undefined
+  if (!value || typeof value !== 'object') return undefined
+
+  const fields = lowercaseKeys(value as Record<string, unknown>)
+  const address = pickString(fields, ['email', 'address'])
+  const name = pickString(fields, ['name'])
+  if (!address) return undefined
+  return name ? `"${name.replace(/"/g, '')}" <${address}>` : address
+}
+
+function headerList(value: unknown): HeaderList {
+  if (typeof value === 'string') {
+    if (value.trim().startsWith('[')) {
+      try {
+        return headerList(JSON.parse(value))
+      } catch {
+        return []
+      }
+    }
+    return value.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).flatMap((line): HeaderList => {
+      const colon = line.indexOf(':')
+      return colon > 0 ? [[line.slice(0, colon).trim(), line.slice(colon + 1).trim()]] : []
+    })
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((entry): HeaderList => {
+      if (Array.isArray(entry) && typeof entry[0] === 'string') return [[entry[0], String(entry[1] ?? '')]]
+      if (entry && typeof entry === 'object') {
+        const fields = lowercaseKeys(entry as Record<string, unknown>)
+        const name = pickString(fields, ['name'])
+        return name ? [[name, String(fields.get('value') ?? '')]] : []
+      }
+      return []
+    })
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([name, entry]): HeaderList =>
+      (Array.isArray(entry) ? entry : [entry]).map(item => [name, String(item ?? '')])
+    )
+  }
+
+  return []
+}
+
+function headerLine(name: string, value: string): string {
+  return `${name}: ${value.replace(/[\r\n]+/g, ' ').trim()}`
+}
+
+function composeRawEmail(fields: Map<string, unknown>): string {
+  const text = pickString(fields, TEXT_FIELDS)
+  const html = pickString(fields, HTML_FIELDS)
+  if (!text && !html) throw new IngestInputError('Payload has no message body')
+
+  const headerField = HEADER_FIELDS.map(name => fields.get(name)).find(value => value !== undefined)
+  const headers = headerList(headerField).filter(([name]) => !REBUILT_HEADERS.includes(name.toLowerCase()))
+  const has = (name: string) => headers.some(([existing]) => existing.toLowerCase() === name)
+
+  const from = addressValue(fields.get('fromfull')) || addressValue(fields.get('from')) || addressValue(fields.get('sender'))
+  const to = addressValue(fields.get('tofull')) || addressValue(fields.get('to')) || addressValue(fields.get('recipient'))
+  const messageId = pickString(fields, MESSAGE_ID_FIELDS)
+  const fallbacks: HeaderList = [
+    ['From', from || ''],
+    ['To', to || ''],
+    ['Subject', pickString(fields, ['subject']) || ''],
+    ['Date', pickString(fields, ['date']) || ''],
+    ['Message-ID', messageId ? `<${messageId.replace(/^<|>$/g, '')}>` : '']
+  ]
+  for (const [name, value] of fallbacks) {
+    if (value && !has(name.toLowerCase())) headers.push([name, value])
+  }
+
+  const lines = headers.map(([name, value]) => headerLine(name, value))
+  lines.push('MIME-Version: 1.0')
+
+  if (text && html) {
+    const boundary = `ingest-${randomUUID()}`
+    lines.push(`Content-Type: multipart/alternative; boundary="${boundary}"`)
+    const part = (type: string, body: string) => `--${boundary}\nContent-Type: ${type}; charset=utf-8\nContent-Transfer-Encoding: 8bit\n\n${body}\n`
+    return `${lines.join('\n')}\n\n${part('text/plain', text)}${part('text/html', html)}--${boundary}--\n`
+  }
+
+  lines.push(`Content-Type: ${html && !text ? 'text/html' : 'text/plain'}; charset=utf-8`, 'Content-Transfer-Encoding: 8bit')
+  return `${lines.join('\n')}\n\n${text || html}\n`
+}
+
+/**
+ * Turns an inbound-email webhook body into a raw RFC 822 message. Gateways
+ * that forward the original MIME are used as-is; parsed payloads (Postmark,
+ * Mailgun, SendGrid and plain from/subject/text/html objects) are rebuilt.
+ */
+export function normalizeWebhookPayload(body: unknown): string {
+  if (typeof body === 'string') {
+    if (!looksLikeMime(body)) throw new IngestInputError('Expected a raw RFC 822 message')
+    return body
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new IngestInputError('Expected an email payload object')
+  }
+
+  const fields = lowercaseKeys(body as Record<string, unknown>)
+  const raw = pickString(fields, RAW_FIELDS)
+  if (raw && looksLikeMime(raw)) return raw
+
+  return composeRawEmail(fields)
+}
+
+/**
+ * The Message-ID without angle brackets, or a content hash for the rare
+ * message that has none so redelivery is still recognized.
+ */
+export function messageIdOf(rawEmail: string): string {
+  const header = parseRawEmail(rawEmail).messageId?.trim().replace(/^<|>$/g, '')
+  if (header) return header
+  return `sha256:${createHash('sha256').update(rawEmail.replace(/\r\n?/g, '\n').trim()).digest('hex')}`
+}
+
+async function ingestOnce(workspaceId: string, messageId: string, rawEmail: string, source: IngestSource): Promise<IngestOutcome> {
+  const collection = ingested.in(workspaceId)
+  const existing = await collection.get(messageId)
+  if (existing) {
+    return { status: 'duplicate', messageId, historyId: existing.historyId, riskLevel: existing.riskLevel }
+  }
+
+  let result: AnalysisResult
+  try {
+    result = await analyzeAndRecord(workspaceId, { rawEmail }, undefined, source)
+  } catch (error) {
+    if (error instanceof AnalysisInputError) throw new IngestInputError(error.message)
+    throw error
+  }
+
+  await collection.insert({
+    id: messageId,
+    source,
+    historyId: result.historyId,
+    riskLevel: result.riskLevel,
+    receivedAt: new Date().toISOString()
+  })
+
+  return { status: 'analyzed', messageId, historyId: result.historyId, riskLevel: result.riskLevel, result }
+}
+
+/**
+ * Analyzes and records a message once per Message-ID. Redeliveries, whether
+ * from a retrying webhook, a second poll or another channel, return the
+ * earlier outcome as a duplicate.
+ */
+export async function ingestEmail(workspaceId: string, rawEmail: string, source: IngestSource): Promise<IngestOutcome> {
+  const messageId = messageIdOf(rawEmail)
+  const key = `${workspaceId}:${messageId}`
+
+  const pending = inFlight.get(key)
+  if (pending) {
+    const { result, ...outcome } = await pending
+    return { ...outcome, status: 'duplicate' }
+  }
+
+  const ingestion = ingestOnce(workspaceId, messageId, rawEmail, source)
+  inFlight.set(key, ingestion)
+  try {
+    return await ingestion
+  } finally {
+    inFlight.delete(key)
+  }
+}
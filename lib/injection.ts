@@ -0,0 +1,116 @@
+import { HeaderSignal, htmlToText } from './email'
+
+const AI_DIRECTED = [
+  /\b(?:ignore|disregard|forget|override)\b.{0,30}\b(?:previous|prior|above|earlier|all|any|your|system)\b.{0,20}\b(?:instructions?|prompts?|rules|guidelines|directives)\b/i,
+  /\b(?:new|updated|real)\s+(?:system\s+)?instructions?\s*:/i,
+  /\b(?:you are now|from now on,? you|act as|pretend to be|roleplay as)\b.{0,40}\b(?:ai|assistant|model|analy[sz]er|classifier|filter)\b/i,
+  /\b(?:system prompt|developer mode|jailbreak)\b/i,
+  /\b(?:dear|attention|hey|hello|note (?:to|for)|message (?:to|for))[,:]?\s+(?:the\s+|any\s+)?(?:ai|llm|gpt|assistant|language model|chatbot|(?:e-?mail|spam|security|fraud|phishing)\s+(?:filter|scanner|classifier|analy[sz]er|bot))\b/i,
+  /\b(?:return|output|respond with|reply with|set|classify|mark|label|rate)\b.{0,40}\b(?:risk ?level|verdict|classification|riskLevel)\b.{0,20}\bsafe\b/i,
+  /\b(?:classify|mark|label|rate|treat)\b.{0,20}\b(?:this|the)\s+(?:message|e-?mail)\b.{0,20}\bas\s+(?:safe|legitimate|not (?:spam|phishing|fraud))\b/i,
+  /\b(?:do not|don't|never)\s+(?:flag|mark|report|classify|treat)\b.{0,30}\b(?:phishing|spam|fraud|suspicious|scam)\b/i,
+  /"riskLevel"\s*:/,
+  /<\/?\s*(?:system|instructions?|assistant|untrusted_[a-z]+)\s*>|\[\/?INST\]|<\|im_(?:start|end)\|>|^#{2,}\s*(?:system|instructions?)\b/im
+]
+
+const INVISIBLE = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g
+const TAG_CHARACTERS = /[\u{E0000}-\u{E007F}]/u
+const BASE64 = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/]{40,}={0,2}(?![A-Za-z0-9+/=_-])/g
+const HIDDEN_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?:\.0+)?(?:px|pt|em|rem|%)?\s*(?:;|$)|opacity\s*:\s*0(?:\.0+)?\s*(?:;|$)|color\s*:\s*(?:#fff(?:fff)?|white|transparent)\b|(?:max-)?height\s*:\s*0(?:px)?\s*(?:;|$)/i
+const HIDDEN_ELEMENT = /<(\w+)\b[^>]*\bstyle\s*=\s*(["'])([^"']*)\2[^>]*>([\s\S]*?)<\/\1>/gi
+const HTML_COMMENT = /<!--([\s\S]*?)-->/g
+
+function aimsAtAi(text: string): boolean {
+  return AI_DIRECTED.some(pattern => pattern.test(text))
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > 80 ? flat.slice(0, 80) + '…' : flat
+}
+
+function decodeBase64Text(value: string): string | undefined {
+  const decoded = Buffer.from(value, 'base64').toString('utf8')
+  const printable = decoded.replace(/[^\x20-\x7E\n\r\t]/g, '')
+  return printable.length >= decoded.length * 0.9 && /[a-z]{3,}\s+[a-z]{2,}/i.test(decoded) ? decoded : undefined
+}
+
+function hiddenHtmlText(html: string): string[] {
+  const hidden: string[] = []
+  for (const [, , , style, content] of Array.from(html.matchAll(HIDDEN_ELEMENT))) {
+    const text = htmlToText(content)
+    if (HIDDEN_STYLE.test(style) && text) hidden.push(text)
+  }
+  for (const [, comment] of Array.from(html.matchAll(HTML_COMMENT))) {
+    if (comment.trim()) hidden.push(comment.trim())
+  }
+  return hidden
+}
+
+/**
+ * Looks for content written for the AI analyzer rather than the human
+ * recipient. Instructions aimed at the model are high severity wherever they
+ * appear; hidden text, invisible characters and encoded payloads are only
+ * minor on their own because newsletters use them too.
+ */
+export function detectPromptInjection(text: string, html = ''): HeaderSignal[] {
+  const signals: HeaderSignal[] = []
+  const visible = text.replace(INVISIBLE, '')
+
+  const instruction = visible.split(/\n+|(?<=[.!?])\s+/).find(aimsAtAi)
+  if (instruction) {
+    signals.push({ id: 'ai-directed-instructions', severity: 'high', description: `Contains instructions aimed at an AI analyzer: "${excerpt(instruction)}"` })
+  }
+
+  const hidden = hiddenHtmlText(html)
+  const hiddenInstruction = hidden.find(aimsAtAi)
+  if (hiddenInstruction) {
+    signals.push({ id: 'hidden-instructions', severity: 'high', description: `Hidden HTML text gives instructions to an AI analyzer: "${excerpt(hiddenInstruction)}"` })
+  } else if (hidden.some(content => content.length > 200)) {
+    signals.push({ id: 'hidden-text', severity: 'low', description: 'Contains a large block of text hidden from the reader with HTML styling or comments.' })
+  }
+
+  if (TAG_CHARACTERS.test(text)) {
+    signals.push({ id: 'tag-characters', severity: 'high', description: 'Contains invisible Unicode tag characters, a known way to smuggle instructions past a human reader.' })
+  }
+
+  const invisible = text.match(INVISIBLE) || []
+  if (/\p{L}[\u200B-\u200D\u2060\uFEFF]\p{L}/u.test(text)) {
+    signals.push({ id: 'zero-width-obfuscation', severity: 'medium', description: `Zero-width characters are inserted inside words (${invisible.length} found), which hides keywords from filters.` })
+  } else if (/[\u202A-\u202E\u2066-\u2069]/.test(text)) {
+    signals.push({ id: 'bidi-override', severity: 'medium', description: 'Contains bidirectional override characters that make text display differently from how it reads.' })
+  }
+
+  for (const [encoded] of Array.from(visible.matchAll(BASE64))) {
+    const decoded = decodeBase64Text(encoded)
+    if (!decoded) continue
+    if (aimsAtAi(decoded)) {
+      signals.push({ id: 'encoded-instructions', severity: 'high', description: `A base64 payload decodes to instructions aimed at an AI analyzer: "${excerpt(decoded)}"` })
+      break
+    }
+    if (!signals.some(signal => signal.id === 'encoded-text')) {
+      signals.push({ id: 'encoded-text', severity: 'low', description: `Contains base64-encoded text: "${excerpt(decoded)}"` })
+    }
+  }
+
+  return signals
+}
+
+export function stripInvisible(text: string): string {
+  return text.replace(INVISIBLE, '').replace(new RegExp(TAG_CHARACTERS.source, 'gu'), '')
+}
+
+/**
+ * Neutralizes anything that looks like one of our untrusted-content tags, so
+ * quoted attacker text can't close a fence early or open a fake one.
+ */
+export function defuseFences(text: string): string {
+  return text.replace(/<(\/?)\s*(untrusted_[a-z]+)\s*>/gi, '\u2039$1$2\u203A')
+}
+
+/**
+ * Wraps attacker-controlled text in a tag the system prompt declares as data.
+ */
+export function fenceUntrusted(name: string, text: string): string {
+  return `<${name}>\n${defuseFences(text)}\n</${name}>`
+}
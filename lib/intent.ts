@@ -0,0 +1,50 @@
+import { AnalysisResult, emptyIntentScores, Intent, IntentClassification, INTENTS } from './schema'
+
+export const INTENT_LABELS: Record<Intent, string> = {
+  inquiry: 'Inquiry',
+  sales_lead: 'Sales Lead',
+  complaint: 'Complaint',
+  support_request: 'Support Request',
+  negotiation: 'Negotiation',
+  risk: 'Risk'
+}
+
+export const INTENT_MATCH_THRESHOLD = 0.5
+
+function classification(primary: Intent): IntentClassification {
+  return { primary, scores: { ...emptyIntentScores(), [primary]: 1 } }
+}
+
+/**
+ * Results recorded before intent classification only carry a risk level and
+ * rule signals, so their intent is approximated from those.
+ */
+export function intentOf(result?: Partial<AnalysisResult>): IntentClassification | undefined {
+  if (!result?.riskLevel) return undefined
+  const intent: unknown = result.intent
+  if (intent && typeof intent === 'object') return intent as IntentClassification
+  if (INTENTS.includes(intent as Intent)) return classification(intent as Intent)
+
+  if (result.riskLevel !== 'Safe') return classification('risk')
+  const categories = (result.signals || []).map(signal => signal.category)
+  if (categories.includes('complaint')) return classification('complaint')
+  if (categories.includes('sales') || (result.leadQualityScore || 0) > 0) return classification('sales_lead')
+  return classification('inquiry')
+}
+
+export function intentLabel(result?: Partial<AnalysisResult>): string {
+  const intent = intentOf(result)
+  return intent ? INTENT_LABELS[intent.primary] : ''
+}
+
+export function secondaryIntents(intent: IntentClassification): Intent[] {
+  return INTENTS
+    .filter(label => label !== intent.primary && intent.scores[label] >= INTENT_MATCH_THRESHOLD)
+    .sort((a, b) => intent.scores[b] - intent.scores[a])
+}
+
+export function matchesIntent(result: Partial<AnalysisResult> | undefined, label: string): boolean {
+  const intent = intentOf(result)
+  if (!intent) return false
+  return intent.primary === label || (intent.scores[label as Intent] ?? 0) >= INTENT_MATCH_THRESHOLD
+}
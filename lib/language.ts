@@ -0,0 +1,104 @@
+// Languages with offline rule dictionaries and reply templates. Others are
+// still detected by script, and model providers can reply in any of them.
+export const LANGUAGES = ['en', 'es', 'de', 'fr', 'it', 'pt', 'nl'] as const
+
+export type Language = typeof LANGUAGES[number]
+
+export const REPLY_LANGUAGE_AUTO = 'auto'
+
+const STOPWORDS: Record<Language, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'your', 'to', 'of', 'for', 'with', 'this', 'that', 'we', 'please', 'have', 'will', 'be', 'on', 'it', 'not', 'our', 'from', 'would', 'can'],
+  es: ['el', 'la', 'los', 'las', 'que', 'y', 'en', 'un', 'una', 'por', 'para', 'con', 'su', 'es', 'se', 'no', 'lo', 'nos', 'usted', 'del', 'al', 'muy', 'gracias', 'hola', 'está', 'pero'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'sie', 'ich', 'wir', 'mit', 'zu', 'den', 'dem', 'ein', 'eine', 'für', 'auf', 'von', 'bitte', 'ihr', 'ihre', 'ihnen', 'sind', 'wird', 'auch', 'uns'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'est', 'un', 'une', 'pour', 'que', 'vous', 'nous', 'votre', 'vos', 'pas', 'dans', 'sur', 'avec', 'ce', 'qui', 'au', 'du', 'merci', 'bonjour', 'je', 'sont'],
+  it: ['il', 'lo', 'la', 'gli', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'con', 'non', 'sono', 'del', 'della', 'ci', 'vi', 'suo', 'sua', 'grazie', 'buongiorno', 'questo', 'mi', 'ho', 'nel'],
+  pt: ['o', 'a', 'os', 'as', 'que', 'e', 'é', 'um', 'uma', 'para', 'com', 'não', 'do', 'da', 'em', 'no', 'na', 'por', 'seu', 'sua', 'você', 'obrigado', 'olá', 'nos', 'mas', 'são'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'niet', 'dat', 'op', 'te', 'met', 'voor', 'zijn', 'wij', 'u', 'uw', 'je', 'ons', 'ik', 'bij', 'naar', 'graag', 'bedankt', 'alstublieft', 'wordt', 'ook']
+}
+
+const LETTER_HINTS: [RegExp, Language][] = [
+  [/[ñ¿¡]/, 'es'],
+  [/[ßäö]/, 'de'],
+  [/œ/, 'fr'],
+  [/[ãõ]/, 'pt']
+]
+
+// Scripts used by a single major language are enough to name it. Japanese
+// mixes kana with Chinese characters, so any kana decides it.
+const KANA = /[\u3040-\u30ff]/
+const SCRIPTS: [RegExp, string][] = [
+  [/[\uac00-\ud7af]/, 'ko'],
+  [/[\u4e00-\u9fff]/, 'zh'],
+  [/[\u0400-\u04ff]/, 'ru'],
+  [/[\u0370-\u03ff]/, 'el'],
+  [/[\u0590-\u05ff]/, 'he'],
+  [/[\u0600-\u06ff]/, 'ar'],
+  [/[\u0e00-\u0e7f]/, 'th']
+]
+
+const MIN_HITS = 3
+
+function dominantScript(text: string): string | undefined {
+  const letters = text.match(/\p{L}/gu) || []
+  if (letters.length === 0) return undefined
+  if (letters.filter(letter => KANA.test(letter)).length / letters.length > 0.05) return 'ja'
+  for (const [pattern, language] of SCRIPTS) {
+    const count = letters.filter(letter => pattern.test(letter)).length
+    if (count / letters.length > 0.3) return language
+  }
+  return undefined
+}
+
+/**
+ * Names the language of a message by counting common function words, with
+ * letters such as ñ or ß as tie-breakers. Returns undefined when the text is
+ * too short to tell.
+ */
+export function detectLanguage(text: string): string | undefined {
+  const cleaned = text
+    .replace(/https?:\/\/\S+|\S+@\S+/g, ' ')
+    .replace(/^(?:subject|from|to|date|reply-to):.*$/gim, ' ')
+    .toLowerCase()
+
+  const script = dominantScript(cleaned)
+  if (script) return script
+
+  const words = cleaned.match(/\p{L}+/gu) || []
+  const scores = Object.fromEntries(LANGUAGES.map(language => [language, 0])) as Record<Language, number>
+  const sets = LANGUAGES.map(language => [language, new Set(STOPWORDS[language])] as const)
+  for (const word of words) {
+    for (const [language, stopwords] of sets) {
+      if (stopwords.has(word)) scores[language]++
+    }
+  }
+  for (const [pattern, language] of LETTER_HINTS) {
+    if (pattern.test(cleaned)) scores[language] += 2
+  }
+
+  const [best, second] = (Object.entries(scores) as [Language, number][]).sort((a, b) => b[1] - a[1])
+  if (best[1] < MIN_HITS || best[1] === second[1]) return undefined
+  return best[0]
+}
+
+export function isLanguage(code: string | undefined): code is Language {
+  return LANGUAGES.includes(code as Language)
+}
+
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code
+  } catch {
+    return code
+  }
+}
+
+/**
+ * Accepts "auto" for the sender's language or a two-letter language code,
+ * and returns undefined for anything else.
+ */
+export function readReplyLanguage(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const code = value.trim().toLowerCase()
+  if (code === REPLY_LANGUAGE_AUTO) return code
+  return /^[a-z]{2}$/.test(code) && languageName(code) !== code ? code : undefined
+}
@@ -0,0 +1,255 @@
+import { domainToUnicode } from 'url'
+import { htmlToText, registrableDomain } from './email'
+
+export type LinkFlag =
+  | 'ip-literal'
+  | 'punycode'
+  | 'lookalike-domain'
+  | 'brand-in-subdomain'
+  | 'url-shortener'
+  | 'suspicious-tld'
+  | 'credential-path'
+  | 'anchor-mismatch'
+  | 'embedded-credentials'
+  | 'insecure-transport'
+
+export type LinkRisk = 'trusted' | 'safe' | 'suspicious' | 'dangerous'
+
+export interface ExtractedLink {
+  url: string
+  displayText?: string
+  source: 'text' | 'html'
+}
+
+export interface LinkFinding {
+  url: string
+  host: string
+  displayText?: string
+  flags: LinkFlag[]
+  details: string[]
+  score: number
+  risk: LinkRisk
+}
+
+export interface LinkAnalysisOptions {
+  trustedDomains?: string[]
+}
+
+export const DEFAULT_TRUSTED_BRANDS = [
+  'paypal.com', 'microsoft.com', 'office.com', 'apple.com', 'google.com', 'amazon.com', 'netflix.com',
+  'facebook.com', 'linkedin.com', 'dropbox.com', 'docusign.com', 'adobe.com', 'chase.com',
+  'wellsfargo.com', 'bankofamerica.com', 'dhl.com', 'fedex.com', 'ups.com', 'stripe.com'
+]
+
+const URL_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly', 'cutt.ly',
+  'shorturl.at', 'rb.gy', 'tiny.cc', 's.id', 't.ly', 'bl.ink', 'lnkd.in'
+]
+
+const SUSPICIOUS_TLDS = [
+  'xyz', 'top', 'tk', 'ml', 'ga', 'cf', 'gq', 'zip', 'mov', 'click', 'link', 'work', 'support',
+  'country', 'kim', 'loan', 'review', 'rest', 'cam', 'icu', 'buzz', 'monster', 'quest', 'live'
+]
+
+const CREDENTIAL_PATH = /(log-?in|sign-?in|verify|verification|account|update|secure|auth|password|reset|billing|wallet|unlock|confirm|webscr|wp-admin)/i
+
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'х': 'x', 'у': 'y', 'і': 'i', 'ј': 'j',
+  'ѕ': 's', 'ԁ': 'd', 'ɡ': 'g', 'һ': 'h', 'ո': 'n', 'ν': 'v', 'ο': 'o', 'α': 'a', 'ε': 'e',
+  'ı': 'i', 'ӏ': 'l', 'ɩ': 'l', 'ǀ': 'l', '0': 'o', '1': 'l', '3': 'e', '5': 's', '7': 't', '@': 'a'
+}
+
+const FLAG_WEIGHTS: Record<LinkFlag, number> = {
+  'ip-literal': 3,
+  'punycode': 2,
+  'lookalike-domain': 4,
+  'brand-in-subdomain': 3,
+  'url-shortener': 1,
+  'suspicious-tld': 2,
+  'credential-path': 2,
+  'anchor-mismatch': 3,
+  'embedded-credentials': 3,
+  'insecure-transport': 1
+}
+
+const DECEPTIVE_FLAGS: LinkFlag[] = ['ip-literal', 'punycode', 'lookalike-domain', 'brand-in-subdomain', 'url-shortener', 'suspicious-tld', 'anchor-mismatch', 'embedded-credentials']
+
+function trimTrailingPunctuation(url: string): string {
+  return url.replace(/[.,;:!?)\]}'"]+$/, '')
+}
+
+export function extractLinks(text: string, html = ''): ExtractedLink[] {
+  const links: ExtractedLink[] = []
+  const seen = new Set<string>()
+  const source = text + '\n' + html
+
+  const anchorPattern = /<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi
+  let anchor: RegExpExecArray | null
+  while ((anchor = anchorPattern.exec(source)) !== null) {
+    const url = anchor[1].trim().replace(/&amp;/g, '&')
+    if (!/^https?:\/\//i.test(url)) continue
+    const displayText = htmlToText(anchor[2])
+    const key = url + '\u0000' + displayText
+    if (seen.has(key)) continue
+    seen.add(key)
+    seen.add(url)
+    links.push({ url, displayText, source: 'html' })
+  }
+
+  const plain = source.replace(/<a\b[^>]*>[\s\S]*?<\/a>/gi, ' ')
+  const urlPattern = /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/gi
+  let match: RegExpExecArray | null
+  while ((match = urlPattern.exec(plain)) !== null) {
+    let url = trimTrailingPunctuation(match[0])
+    if (/^www\./i.test(url)) url = 'http://' + url
+    if (seen.has(url)) continue
+    seen.add(url)
+    links.push({ url, source: 'text' })
+  }
+
+  return links
+}
+
+function brandLabel(domain: string): string {
+  return registrableDomain(domain).split('.')[0]
+}
+
+function skeleton(label: string): string {
+  return Array.from(label.toLowerCase().normalize('NFKC'))
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/[^a-z]/g, '')
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+/**
+ * True when `host` is not `domain` itself but its brand label reads like it,
+ * e.g. paypa1.com, rnicrosoft.com or paypal-billing.net for paypal.com.
+ */
+export function imitatesDomain(host: string, domain: string): boolean {
+  if (matchesDomain(host, domain)) return false
+  const brand = brandLabel(domain).includes('-') ? skeleton(brandLabel(domain)) : brandLabel(domain)
+  const label = brandLabel(host)
+  return [label, ...label.split('-')].map(skeleton).some(part => part === brand || (brand.length >= 6 && editDistance(part, brand) <= 1))
+}
+
+function isIpLiteral(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith('[') || /^0x[0-9a-f]+$/i.test(host) || /^\d{8,10}$/.test(host)
+}
+
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith('.' + domain)
+}
+
+function hostInText(text: string): string | undefined {
+  const match = text.match(/(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})/i)
+  return match ? match[1].toLowerCase() : undefined
+}
+
+export function analyzeLink(link: ExtractedLink, options: LinkAnalysisOptions = {}): LinkFinding {
+  const trustedDomains = (options.trustedDomains || DEFAULT_TRUSTED_BRANDS).map(domain => domain.toLowerCase())
+  const flags: LinkFlag[] = []
+  const details: string[] = []
+
+  let parsed: URL
+  try {
+    parsed = new URL(link.url)
+  } catch {
+    return { url: link.url, host: '', displayText: link.displayText, flags: [], details: ['URL could not be parsed'], score: 1, risk: 'suspicious' }
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  const unicodeHost = domainToUnicode(host) || host
+  const registrable = registrableDomain(host)
+  const trusted = trustedDomains.some(domain => matchesDomain(host, domain))
+
+  if (isIpLiteral(host)) {
+    flags.push('ip-literal')
+    details.push(`Link points to a raw IP address (${host}) instead of a domain name.`)
+  }
+
+  if (parsed.username || parsed.password) {
+    flags.push('embedded-credentials')
+    details.push(`URL hides its real destination behind "${parsed.username}@"; the browser will go to ${host}.`)
+  }
+
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    flags.push('punycode')
+    details.push(`Internationalized domain ${host} renders as "${unicodeHost}".`)
+  }
+
+  if (!trusted && !isIpLiteral(host)) {
+    const lookalike = trustedDomains.find(domain => imitatesDomain(unicodeHost, domain))
+    if (lookalike) {
+      flags.push('lookalike-domain')
+      details.push(`Domain "${unicodeHost}" imitates trusted domain ${lookalike}.`)
+    }
+
+    const subdomainLabels = host.slice(0, host.length - registrable.length).split(/[.-]/)
+    const subdomainBrand = trustedDomains.find(domain => subdomainLabels.includes(brandLabel(domain)))
+    if (subdomainBrand && !lookalike) {
+      flags.push('brand-in-subdomain')
+      details.push(`Brand name from ${subdomainBrand} is used in the subdomain of unrelated domain ${registrable}.`)
+    }
+  }
+
+  if (URL_SHORTENERS.includes(registrable) || URL_SHORTENERS.includes(host)) {
+    flags.push('url-shortener')
+    details.push(`URL shortener (${host}) hides the final destination.`)
+  }
+
+  const tld = host.split('.').pop() || ''
+  if (!trusted && SUSPICIOUS_TLDS.includes(tld)) {
+    flags.push('suspicious-tld')
+    details.push(`Top-level domain .${tld} is frequently used in phishing campaigns.`)
+  }
+
+  if (link.displayText) {
+    const shownHost = hostInText(link.displayText)
+    if (shownHost && registrableDomain(shownHost) !== registrable) {
+      flags.push('anchor-mismatch')
+      details.push(`Link text shows "${shownHost}" but actually points to ${host}.`)
+    }
+  }
+
+  // Words like "account" or "update" are in plenty of honest paths, so they
+  // only count on a link that already disguises where it goes.
+  if (!trusted && flags.some(flag => DECEPTIVE_FLAGS.includes(flag)) && CREDENTIAL_PATH.test(parsed.pathname + parsed.search)) {
+    flags.push('credential-path')
+    details.push(`Path "${parsed.pathname}" resembles a login or account verification page.`)
+    if (parsed.protocol === 'http:') {
+      flags.push('insecure-transport')
+      details.push('Credential page is served over unencrypted HTTP.')
+    }
+  }
+
+  const score = flags.reduce((total, flag) => total + FLAG_WEIGHTS[flag], 0)
+  let risk: LinkRisk = trusted ? 'trusted' : 'safe'
+  if (score >= 4) risk = 'dangerous'
+  else if (score >= 2) risk = 'suspicious'
+
+  return { url: link.url, host, displayText: link.displayText, flags, details, score, risk }
+}
+
+export function analyzeLinks(text: string, html = '', options: LinkAnalysisOptions = {}): LinkFinding[] {
+  return extractLinks(text, html).map(link => analyzeLink(link, options))
+}
@@ -0,0 +1,73 @@
+import { stripInvisible } from './injection'
+
+const SIGNATURE_SIZE = 64
+const SHINGLE_WORDS = 3
+
+// Fixed seeds keep signatures comparable across restarts and servers.
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => {
+  let seed = (index + 1) * 0x9e3779b1
+  seed = Math.imul(seed ^ (seed >>> 16), 0x85ebca6b)
+  return (seed ^ (seed >>> 13)) >>> 0
+})
+
+/**
+ * Text that varies between copies of the same campaign (links, addresses,
+ * amounts, reference numbers) is replaced by its kind, so per-recipient
+ * details don't hide a duplicate.
+ */
+export function normalizeForMatching(text: string): string {
+  return stripInvisible(text)
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\b(?:https?:\/\/|www\.)\S+/g, ' url ')
+    .replace(/[^\s@<>]+@[^\s@<>]+\.[a-z]{2,}/g, ' email ')
+    .replace(/\d+(?:[.,]\d+)*/g, '0')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function wordsOf(text: string): string[] {
+  return normalizeForMatching(text).match(/[\p{L}\p{N}]+/gu) || []
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function mix(value: number, seed: number): number {
+  let hash = value ^ seed
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  return (hash ^ (hash >>> 16)) >>> 0
+}
+
+/**
+ * MinHash signature over overlapping word triples. The share of equal
+ * positions in two signatures estimates the Jaccard similarity of the texts.
+ */
+export function minhashSignature(words: string[]): number[] {
+  const shingles = new Set<number>()
+  if (words.length < SHINGLE_WORDS) shingles.add(fnv1a(words.join(' ')))
+  for (let index = 0; index + SHINGLE_WORDS <= words.length; index++) {
+    shingles.add(fnv1a(words.slice(index, index + SHINGLE_WORDS).join(' ')))
+  }
+
+  return SEEDS.map(seed => {
+    let minimum = 0xffffffff
+    for (const shingle of shingles) minimum = Math.min(minimum, mix(shingle, seed))
+    return minimum
+  })
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let equal = 0
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] === b[index]) equal++
+  }
+  return equal / a.length
+}
@@ -0,0 +1,77 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import { parseListEnv } from './email'
+
+export class PrivateHostError extends Error {}
+
+const LOCAL_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa']
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+}
+
+// Loopback, link-local, private, carrier-grade NAT, benchmarking and multicast ranges.
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '')
+  if (isIP(ip) === 4) return isPrivateIpv4(ip)
+  if (isIP(ip) !== 6) return false
+
+  const dotted = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return isPrivateIpv4(dotted[1])
+  const hex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (hex) {
+    const high = parseInt(hex[1], 16)
+    const low = parseInt(hex[2], 16)
+    return isPrivateIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'))
+  }
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff')
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+}
+
+/**
+ * Hosts the operator lists in ALLOWED_PRIVATE_HOSTS may be on the internal
+ * network, for receivers the operator runs there on purpose.
+ */
+function isAllowedHost(host: string): boolean {
+  return parseListEnv(process.env.ALLOWED_PRIVATE_HOSTS).some(allowed => normalizeHost(allowed) === host)
+}
+
+/**
+ * Whether a host is on the server's own network by its name alone.
+ * Single-label names only resolve through internal DNS.
+ */
+export function isLocalHost(hostname: string): boolean {
+  const host = normalizeHost(hostname)
+  if (isIP(host)) return isPrivateAddress(host)
+  return host === 'localhost' || !host.includes('.') || LOCAL_SUFFIXES.some(suffix => host.endsWith(suffix))
+}
+
+// For tenant-supplied hosts, which may only be local if the operator allows them.
+export function isBlockedHost(hostname: string): boolean {
+  return !isAllowedHost(normalizeHost(hostname)) && isLocalHost(hostname)
+}
+
+/**
+ * Checked again right before a request, since a public name can be pointed
+ * at a private address after it was saved.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = normalizeHost(new URL(url).hostname)
+  if (isAllowedHost(host)) return
+  if (isBlockedHost(host)) throw new PrivateHostError(`${host} is a local or private address`)
+  if (isIP(host)) return
+
+  const addresses = await lookup(host, { all: true })
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new PrivateHostError(`${host} resolves to a private address`)
+  }
+}
@@ -0,0 +1,219 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes, verify } from 'crypto'
+import { AuthError } from './auth'
+import { DEFAULT_WORKSPACE_ID, JsonCollection } from './store'
+import { createUser, findUserByEmail, findUserByOidcSubject, normalizeEmail, updateUser, User } from './users'
+import { addMember, getWorkspace, readRole, Role, workspacesFor } from './workspaces'
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  redirectUri: string
+  scopes: string
+  autoProvision: boolean
+  defaultRole: Role
+}
+
+interface Discovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+interface PendingLogin {
+  id: string
+  nonce: string
+  verifier: string
+  returnTo: string
+  createdAt: string
+}
+
+interface IdTokenClaims {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nonce?: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+}
+
+const LOGIN_TTL_MS = 10 * 60 * 1000
+const CLOCK_SKEW_S = 60
+const REQUEST_TIMEOUT_MS = 10000
+const ALGORITHMS: Record<string, string> = { RS256: 'sha256', RS384: 'sha384', RS512: 'sha512', ES256: 'sha256', ES384: 'sha384', ES512: 'sha512' }
+
+// The state parameter is the record id; the PKCE verifier never leaves the server.
+const pendingLogins = new JsonCollection<PendingLogin>('oidc-logins')
+const discoveryCache = new Map<string, Discovery>()
+
+export function oidcConfigFromEnv(): OidcConfig | undefined {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  const redirectUri = process.env.OIDC_REDIRECT_URI
+  if (!issuer || !clientId || !redirectUri) return undefined
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    autoProvision: process.env.OIDC_AUTO_PROVISION === 'true',
+    defaultRole: readRole(process.env.OIDC_DEFAULT_ROLE, 'viewer')
+  }
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`${url} returned ${response.status}: ${(await response.text()).slice(0, 200)}`)
+  return response.json() as Promise<T>
+}
+
+async function discover(config: OidcConfig): Promise<Discovery> {
+  const cached = discoveryCache.get(config.issuer)
+  if (cached) return cached
+
+  const discovery = await fetchJson<Discovery>(`${config.issuer}/.well-known/openid-configuration`)
+  if (discovery.issuer.replace(/\/$/, '') !== config.issuer) throw new Error(`Issuer mismatch: ${discovery.issuer}`)
+  discoveryCache.set(config.issuer, discovery)
+  return discovery
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64url')
+}
+
+function safeReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+}
+
+/**
+ * Builds the authorization URL for the authorization code flow with PKCE,
+ * remembering the state, nonce and verifier for the callback.
+ */
+export async function beginOidcLogin(config: OidcConfig, returnTo?: string | null): Promise<string> {
+  const discovery = await discover(config)
+  const login: PendingLogin = {
+    id: base64url(randomBytes(24)),
+    nonce: base64url(randomBytes(24)),
+    verifier: base64url(randomBytes(32)),
+    returnTo: safeReturnTo(returnTo),
+    createdAt: new Date().toISOString()
+  }
+
+  const expired = new Date(Date.now() - LOGIN_TTL_MS).toISOString()
+  for (const stale of (await pendingLogins.all()).filter(pending => pending.createdAt < expired)) {
+    await pendingLogins.remove(stale.id)
+  }
+  await pendingLogins.insert(login)
+
+  const url = new URL(discovery.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state: login.id,
+    nonce: login.nonce,
+    code_challenge: base64url(createHash('sha256').update(login.verifier).digest()),
+    code_challenge_method: 'S256'
+  }).toString()
+  return url.toString()
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+}
+
+async function verifyIdToken(config: OidcConfig, discovery: Discovery, idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const [header, payload, signature] = idToken.split('.')
+  if (!header || !payload || !signature) throw new Error('Malformed id_token')
+
+  const { alg, kid } = decodeSegment<{ alg?: string, kid?: string }>(header)
+  const digest = alg && ALGORITHMS[alg]
+  if (!digest) throw new Error(`Unsupported id_token algorithm: ${alg}`)
+
+  const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string, use?: string })[] }>(discovery.jwks_uri)
+  const jwk = keys.find(key => (!kid || key.kid === kid) && key.use !== 'enc')
+  if (!jwk) throw new Error('No signing key matches the id_token')
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' })
+  const valid = verify(digest, Buffer.from(`${header}.${payload}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+  if (!valid) throw new Error('Invalid id_token signature')
+
+  const claims = decodeSegment<IdTokenClaims>(payload)
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  const now = Math.floor(Date.now() / 1000)
+  if (claims.iss?.replace(/\/$/, '') !== config.issuer) throw new Error('id_token issuer mismatch')
+  if (!audiences.includes(config.clientId)) throw new Error('id_token audience mismatch')
+  if (!claims.exp || claims.exp + CLOCK_SKEW_S < now) throw new Error('id_token has expired')
+  if (claims.nonce !== nonce) throw new Error('id_token nonce mismatch')
+  if (!claims.sub) throw new Error('id_token has no subject')
+  return claims
+}
+
+/**
+ * Links the identity to an account: first by subject, then by a verified
+ * email address. Unknown identities are only let in with OIDC_AUTO_PROVISION,
+ * which adds them to the default workspace with OIDC_DEFAULT_ROLE.
+ */
+async function resolveUser(config: OidcConfig, claims: IdTokenClaims): Promise<User> {
+  const subject = `${config.issuer}#${claims.sub}`
+  const linked = await findUserByOidcSubject(subject)
+  if (linked) return linked
+
+  // An identity provider that doesn't assert the address was verified can't vouch for it.
+  const email = claims.email && claims.email_verified === true ? normalizeEmail(claims.email) : undefined
+  const existing = email && await findUserByEmail(email)
+  if (existing) return (await updateUser(existing.id, { oidcSubject: subject })) || existing
+
+  if (!config.autoProvision || !email) throw new AuthError('Your account has not been invited to this deployment', 403)
+  const workspace = await getWorkspace(DEFAULT_WORKSPACE_ID)
+  if (!workspace) throw new AuthError('Finish setup with a local admin account before signing in with OIDC', 403)
+
+  const user = await createUser({ email, name: claims.name, oidcSubject: subject })
+  await addMember(DEFAULT_WORKSPACE_ID, { email, role: config.defaultRole })
+  return user
+}
+
+/**
+ * Completes the login from the callback's query parameters and returns the
+ * signed-in user along with where to send them.
+ */
+export async function completeOidcLogin(config: OidcConfig, params: URLSearchParams): Promise<{ user: User, returnTo: string }> {
+  const error = params.get('error')
+  if (error) throw new AuthError(`Sign-in was not completed: ${params.get('error_description') || error}`)
+
+  const state = params.get('state') || ''
+  const login = state ? await pendingLogins.get(state) : undefined
+  if (!login) throw new AuthError('This sign-in link has expired. Please try again.')
+  await pendingLogins.remove(login.id)
+  if (Date.parse(login.createdAt) < Date.now() - LOGIN_TTL_MS) throw new AuthError('This sign-in link has expired. Please try again.')
+
+  const code = params.get('code')
+  if (!code) throw new AuthError('The identity provider did not return a code')
+
+  const discovery = await discover(config)
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      ...(config.clientSecret && { client_secret: config.clientSecret }),
+      code_verifier: login.verifier
+    })
+  })
+  if (!tokens.id_token) throw new Error('The token response has no id_token')
+
+  const claims = await verifyIdToken(config, discovery, tokens.id_token, login.nonce)
+  const user = await resolveUser(config, claims)
+  if ((await workspacesFor(user.id)).length === 0) throw new AuthError('Your account is not a member of any workspace', 403)
+
+  return { user: (await updateUser(user.id, { lastLoginAt: new Date().toISOString() })) || user, returnTo: login.returnTo }
+}
@@ -0,0 +1,95 @@
+export type JsonField = [key: string, value: unknown]
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++
+  return index
+}
+
+function stringEnd(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '"') return i + 1
+  }
+  return -1
+}
+
+function valueEnd(text: string, start: number): number {
+  const first = text[start]
+
+  if (first === '"') return stringEnd(text, start)
+
+  if (first === '{' || first === '[') {
+    let depth = 0
+    for (let i = start; i < text.length; i++) {
+      const char = text[i]
+      if (char === '"') {
+        const end = stringEnd(text, i)
+        if (end === -1) return -1
+        i = end - 1
+      } else if (char === '{' || char === '[') {
+        depth++
+      } else if (char === '}' || char === ']') {
+        depth--
+        if (depth === 0) return i + 1
+      }
+    }
+    return -1
+  }
+
+  const match = text.slice(start).match(/^[^,}\s]+(?=[,}\s])/)
+  return match ? start + match[0].length : -1
+}
+
+/**
+ * Incrementally scans a streamed JSON object and reports each top-level
+ * field as soon as its value is complete.
+ */
+export class JsonFieldScanner {
+  private buffer = ''
+  private position = -1
+  private finished = false
+
+  push(chunk: string): JsonField[] {
+    this.buffer += chunk
+    const fields: JsonField[] = []
+
+    if (this.position === -1) {
+      const start = this.buffer.indexOf('{')
+      if (start === -1) return fields
+      this.position = start + 1
+    }
+
+    while (!this.finished) {
+      let index = this.position
+      while (index < this.buffer.length && /[\s,]/.test(this.buffer[index])) index++
+      if (index >= this.buffer.length) break
+      if (this.buffer[index] === '}') {
+        this.finished = true
+        break
+      }
+      if (this.buffer[index] !== '"') {
+        this.finished = true
+        break
+      }
+
+      const keyEnd = stringEnd(this.buffer, index)
+      if (keyEnd === -1) break
+      const colon = skipWhitespace(this.buffer, keyEnd)
+      if (colon >= this.buffer.length) break
+      const valueStart = skipWhitespace(this.buffer, colon + 1)
+      if (valueStart >= this.buffer.length) break
+      const end = valueEnd(this.buffer, valueStart)
+      if (end === -1) break
+
+      try {
+        const key = JSON.parse(this.buffer.slice(index, keyEnd))
+        fields.push([key, JSON.parse(this.buffer.slice(valueStart, end))])
+      } catch {
+        // Malformed field: skip it and let the final parse decide.
+      }
+      this.position = end
+    }
+
+    return fields
+  }
+}
@@ -0,0 +1,480 @@
+import { createHash } from 'crypto'
+import { domainOf, EmailAddress, HeaderSignal } from './email'
+import { normalizeSender } from './profile'
+import { validIban } from './redaction'
+import { generateId, WorkspaceCollection } from './store'
+
+export interface MoneyAmount {
+  text: string
+  value: number
+  currency: string
+}
+
+export interface DueDate {
+  text: string
+  date?: string
+}
+
+export type BankAccountType = 'iban' | 'swift' | 'account_number' | 'routing_number' | 'sort_code'
+
+export interface BankAccount {
+  type: BankAccountType
+  value: string
+  valid?: boolean
+  country?: string
+}
+
+export type CryptoNetwork = 'bitcoin' | 'ethereum' | 'tron'
+
+export interface CryptoWallet {
+  network: CryptoNetwork
+  address: string
+}
+
+export interface GiftCardRequest {
+  text: string
+  brand?: string
+}
+
+export type BeneficiaryStatus = 'known' | 'changed' | 'unrecognized'
+
+export interface BeneficiaryCheck {
+  status: BeneficiaryStatus
+  sender?: string
+  payee?: string
+  accounts: string[]
+  expected?: string[]
+}
+
+export interface PaymentEntities {
+  amounts: MoneyAmount[]
+  invoiceNumbers: string[]
+  dueDates: DueDate[]
+  bankAccounts: BankAccount[]
+  cryptoWallets: CryptoWallet[]
+  giftCards: GiftCardRequest[]
+  beneficiary?: BeneficiaryCheck
+}
+
+export const NO_PAYMENT_ENTITIES: PaymentEntities = { amounts: [], invoiceNumbers: [], dueDates: [], bankAccounts: [], cryptoWallets: [], giftCards: [] }
+
+export interface KnownPayee {
+  id: string
+  name: string
+  senders: string[]
+  accounts: string[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type KnownPayeeInput = Partial<Pick<KnownPayee, 'name' | 'senders' | 'accounts'>>
+
+export class PaymentInputError extends Error {}
+
+const ENTITY_LIMIT = 20
+const LIST_LIMIT = 50
+
+const payees = new WorkspaceCollection<KnownPayee>('payees')
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+}
+const CURRENCY_CODES = 'USD|EUR|GBP|CHF|JPY|CAD|AUD|NZD|INR|CNY|SEK|NOK|DKK|PLN|SGD|HKD|ZAR|MXN|BRL|AED'
+const NUMBER = String.raw`\d{1,3}(?:[,.' \u00a0\u202f]\d{3})+(?:[.,]\d{1,2})?(?!\d)|\d+(?:[.,]\d{1,2})?(?!\d)`
+const MULTIPLIERS: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, bn: 1e9, billion: 1e9 }
+const MULTIPLIER = String.raw`(?:\s?(k|mm?|bn|thousand|million|billion)\b)?`
+const AMOUNT = new RegExp(
+  String.raw`(?:(US\$|CA?\$|AU?\$|[$€£¥₹])\s?|\b(${CURRENCY_CODES})\s?)(${NUMBER})${MULTIPLIER}` +
+  String.raw`|(?<![\w.,$€£¥₹])(${NUMBER})${MULTIPLIER}\s?(?:(${CURRENCY_CODES})\b|([€£]))`,
+  'gi'
+)
+
+const INVOICE_NUMBERS = [
+  /\b(?:invoice|inv|bill|rechnung|facture)\b\.?\s*(?:number|no\.?|num\.?|nr\.?|#|id)?\s*[:#.]?\s*([A-Z0-9][A-Z0-9/-]{2,24})/gi,
+  /\b(INV[-/]?\d[A-Z0-9/-]{2,24})/gi
+]
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?'
+const DATE = String.raw`\d{4}-\d{2}-\d{2}|\d{1,2}[/.]\d{1,2}[/.]\d{2,4}|(?:${MONTH})\.? \d{1,2}(?:st|nd|rd|th)?(?:,? \d{4})?|\d{1,2}(?:st|nd|rd|th)?(?: of)? (?:${MONTH})\.?(?:,? \d{4})?`
+const DUE_DATE = new RegExp(String.raw`\b(?:due|payable|deadline|no later than|by|before)\b(?:\s+(?:date|on|by|before))?\s*:?\s*(?:on\s+)?(${DATE})\b`, 'gi')
+
+const IBAN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g
+const SWIFT = /\b(?:swift|bic)(?:\s*(?:\/\s*(?:swift|bic)|code))*\s*[:#]?\s*([A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?)\b/gi
+const ACCOUNT_NUMBER = /\b(?:account|acct|a\/c)\.?(?:\s*(?:number|no\.?|num|#))?\s*[:#]?\s*(\d[\d -]{4,20}\d)\b/gi
+const ROUTING_NUMBER = /\b(?:routing|aba|rtn)(?:\s*(?:transit\s*)?(?:number|no\.?|#))?\s*[:#]?\s*(\d{9})\b/gi
+const SORT_CODE = /\bsort\s*code\s*[:#]?\s*(\d{2}[- ]?\d{2}[- ]?\d{2})\b/gi
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+const BECH32 = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+const WALLETS: { network: CryptoNetwork, pattern: RegExp, accept: (address: string) => boolean }[] = [
+  { network: 'bitcoin', pattern: /\b[13][1-9A-HJ-NP-Za-km-z]{25,34}\b/g, accept: address => [0x00, 0x05].includes(base58Version(address) ?? -1) },
+  { network: 'bitcoin', pattern: /\bbc1[02-9ac-hj-np-z]{11,71}\b/gi, accept: validBech32 },
+  { network: 'ethereum', pattern: /\b0x[0-9a-fA-F]{40}\b/g, accept: () => true },
+  { network: 'tron', pattern: /\bT[1-9A-HJ-NP-Za-km-z]{33}\b/g, accept: address => base58Version(address) === 0x41 }
+]
+
+const GIFT_CARD_REQUEST = /\b(?:buy|purchase|get|pick up|send|grab)\b.{0,60}?\bgift ?cards?\b|\bgift ?cards?\b.{0,60}?\b(?:send|scratch|codes?|pins?|photos?)\b/gi
+const GIFT_CARD_BRANDS = ['Apple', 'iTunes', 'Google Play', 'Amazon', 'Steam', 'Walmart', 'Target', 'eBay', 'Vanilla', 'Visa', 'Sephora', 'Best Buy', 'Razer Gold', 'Xbox', 'PlayStation']
+
+function parseNumber(text: string): number {
+  const compact = text.replace(/[\s']/g, '')
+  const decimal = compact.match(/[.,](\d{1,2})$/)
+  const whole = (decimal ? compact.slice(0, -decimal[0].length) : compact).replace(/[.,]/g, '')
+  return Number(decimal ? `${whole}.${decimal[1]}` : whole)
+}
+
+function extractAmounts(text: string): MoneyAmount[] {
+  const amounts = new Map<string, MoneyAmount>()
+  for (const match of Array.from(text.matchAll(AMOUNT))) {
+    const [, symbol, prefixCode, prefixNumber, prefixMultiplier, suffixNumber, suffixMultiplier, suffixCode, suffixSymbol] = match
+    const currency = prefixCode || suffixCode
+      ? (prefixCode || suffixCode).toUpperCase()
+      : CURRENCY_SYMBOLS[(symbol || suffixSymbol).toUpperCase()]
+    const multiplier = MULTIPLIERS[(prefixMultiplier || suffixMultiplier || '').toLowerCase()] ?? 1
+    const value = Math.round(parseNumber(prefixNumber || suffixNumber) * multiplier * 100) / 100
+    const key = `${currency} ${value}`
+    if (currency && value > 0 && !amounts.has(key)) amounts.set(key, { text: match[0].trim(), value, currency })
+  }
+  return Array.from(amounts.values()).slice(0, ENTITY_LIMIT)
+}
+
+function extractInvoiceNumbers(text: string): string[] {
+  const numbers = new Set<string>()
+  for (const pattern of INVOICE_NUMBERS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const number = match[1].replace(/[/-]+$/, '').toUpperCase()
+      if (number.length >= 3 && /\d/.test(number)) numbers.add(number)
+    }
+  }
+  return Array.from(numbers).slice(0, ENTITY_LIMIT)
+}
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Numeric dates are only resolved when the order is unambiguous: a part above
+ * 12 or dots, which are day first wherever they are used.
+ */
+function normalizeDate(text: string): string | undefined {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const numeric = text.match(/^(\d{1,2})([/.])(\d{1,2})\2(\d{2,4})$/)
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[3])]
+    const year = numeric[4].length === 2 ? 2000 + Number(numeric[4]) : Number(numeric[4])
+    if (numeric[2] === '.' || first > 12) return isoDate(year, second, first)
+    if (second > 12) return isoDate(year, first, second)
+    return undefined
+  }
+
+  const year = text.match(/\b(\d{4})$/)
+  const month = MONTHS.findIndex(name => new RegExp(`\\b${name}`, 'i').test(text))
+  const day = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\b(?!\d)/)
+  if (!year || month < 0 || !day) return undefined
+  return isoDate(Number(year[1]), month + 1, Number(day[1]))
+}
+
+function extractDueDates(text: string): DueDate[] {
+  const dates = new Map<string, DueDate>()
+  for (const match of Array.from(text.matchAll(DUE_DATE))) {
+    const date = normalizeDate(match[1])
+    dates.set(date || match[1], { text: match[1], ...(date && { date }) })
+  }
+  return Array.from(dates.values()).slice(0, ENTITY_LIMIT)
+}
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' })
+
+function countryName(code: string): string | undefined {
+  try {
+    const name = regionNames.of(code)
+    return name && name !== code ? name : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function passesAba(routing: string): boolean {
+  const weights = [3, 7, 1]
+  const sum = Array.from(routing).reduce((total, digit, index) => total + Number(digit) * weights[index % 3], 0)
+  return sum % 10 === 0 && sum > 0
+}
+
+/**
+ * IBANs are recognized by their shape, so one that fails its checksum is
+ * only reported when it is labeled as an IBAN. The other numbers always
+ * need a label.
+ */
+function extractBankAccounts(text: string): BankAccount[] {
+  const accounts = new Map<string, BankAccount>()
+  const add = (account: BankAccount) => {
+    if (!accounts.has(`${account.type}:${account.value}`)) accounts.set(`${account.type}:${account.value}`, account)
+  }
+
+  for (const match of Array.from(text.matchAll(IBAN))) {
+    const value = match[0].replace(/\s/g, '')
+    const valid = validIban(value)
+    const labeled = /\biban\b/i.test(text.slice(Math.max(0, (match.index || 0) - 30), match.index))
+    if (valid || labeled) add({ type: 'iban', value, valid, country: countryName(value.slice(0, 2)) })
+  }
+  for (const match of Array.from(text.matchAll(SWIFT))) {
+    const value = match[1]
+    if (value !== value.toUpperCase()) continue
+    const country = countryName(value.slice(4, 6))
+    add({ type: 'swift', value, valid: !!country, country })
+  }
+  for (const match of Array.from(text.matchAll(ACCOUNT_NUMBER))) {
+    add({ type: 'account_number', value: match[1].replace(/\D/g, '') })
+  }
+  for (const match of Array.from(text.matchAll(ROUTING_NUMBER))) {
+    add({ type: 'routing_number', value: match[1], valid: passesAba(match[1]) })
+  }
+  for (const match of Array.from(text.matchAll(SORT_CODE))) {
+    add({ type: 'sort_code', value: match[1].replace(/\D/g, '') })
+  }
+  return Array.from(accounts.values()).slice(0, ENTITY_LIMIT)
+}
+
+function doubleSha256(bytes: Buffer): Buffer {
+  return createHash('sha256').update(createHash('sha256').update(bytes).digest()).digest()
+}
+
+// Returns the version byte of a valid Base58Check address.
+function base58Version(address: string): number | undefined {
+  let value = BigInt(0)
+  for (const char of address) {
+    const digit = BASE58.indexOf(char)
+    if (digit < 0) return undefined
+    value = value * BigInt(58) + BigInt(digit)
+  }
+  const hex = value.toString(16)
+  const leadingZeros = address.match(/^1*/)![0].length
+  const bytes = Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex')])
+  if (bytes.length !== 25) return undefined
+  return doubleSha256(bytes.subarray(0, 21)).subarray(0, 4).equals(bytes.subarray(21)) ? bytes[0] : undefined
+}
+
+// Accepts both bech32 (SegWit v0) and bech32m (Taproot) checksums.
+function validBech32(address: string): boolean {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) return false
+  const lower = address.toLowerCase()
+  const separator = lower.lastIndexOf('1')
+  const prefix = Array.from(lower.slice(0, separator)).map(char => char.charCodeAt(0))
+  const data = Array.from(lower.slice(separator + 1)).map(char => BECH32.indexOf(char))
+  if (data.some(value => value < 0) || data.length < 6) return false
+
+  let checksum = 1
+  for (const value of [...prefix.map(code => code >> 5), 0, ...prefix.map(code => code & 31), ...data]) {
+    const top = checksum >> 25
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value
+    BECH32_GENERATOR.forEach((generator, bit) => {
+      if ((top >> bit) & 1) checksum ^= generator
+    })
+  }
+  return checksum === 1 || checksum === 0x2bc830a3
+}
+
+function extractCryptoWallets(text: string): CryptoWallet[] {
+  const wallets = new Map<string, CryptoWallet>()
+  for (const { network, pattern, accept } of WALLETS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      if (accept(match[0])) wallets.set(match[0], { network, address: match[0] })
+    }
+  }
+  return Array.from(wallets.values()).slice(0, ENTITY_LIMIT)
+}
+
+function extractGiftCards(text: string): GiftCardRequest[] {
+  const requests: GiftCardRequest[] = []
+  for (const match of Array.from(text.matchAll(GIFT_CARD_REQUEST))) {
+    const index = match.index || 0
+    const surrounding = text.slice(Math.max(0, index - 40), index + match[0].length + 40)
+    const brand = GIFT_CARD_BRANDS.find(name => new RegExp(`\\b${name}\\b`, 'i').test(surrounding))
+    requests.push({ text: match[0].replace(/\s+/g, ' ').trim(), ...(brand && { brand }) })
+  }
+  return requests.slice(0, ENTITY_LIMIT)
+}
+
+export function extractPaymentEntities(text: string): PaymentEntities {
+  return {
+    amounts: extractAmounts(text),
+    invoiceNumbers: extractInvoiceNumbers(text),
+    dueDates: extractDueDates(text),
+    bankAccounts: extractBankAccounts(text),
+    cryptoWallets: extractCryptoWallets(text),
+    giftCards: extractGiftCards(text)
+  }
+}
+
+export function maskAccount(value: string): string {
+  return /^[A-Z]{2}\d{2}/.test(value) ? `${value.slice(0, 4)} •••• ${value.slice(-4)}` : `•••• ${value.slice(-4)}`
+}
+
+// SWIFT codes, routing numbers and sort codes name the bank, not the account,
+// so they are not compared.
+const BENEFICIARY_TYPES: BankAccountType[] = ['iban', 'account_number']
+
+function normalizeAccount(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase()
+}
+
+function matchesSender(entry: string, address: string): boolean {
+  if (entry.includes('@')) return entry === address
+  const domain = domainOf(address)
+  return domain === entry || domain.endsWith('.' + entry)
+}
+
+/**
+ * Compares the bank details in a message with the payment details on file
+ * for its sender. Details are "changed" when the sender is a known payee but
+ * the account is not one of theirs.
+ */
+export function checkBeneficiary(known: KnownPayee[], sender: EmailAddress | undefined, entities: PaymentEntities): PaymentEntities {
+  const accounts = entities.bankAccounts.filter(account => BENEFICIARY_TYPES.includes(account.type)).map(account => account.value)
+  if (accounts.length === 0) return entities
+
+  const address = sender?.address.toLowerCase()
+  const payees = address ? known.filter(payee => payee.senders.some(entry => matchesSender(entry, address))) : []
+  if (payees.length === 0) {
+    return { ...entities, beneficiary: { status: 'unrecognized', ...(address && { sender: address }), accounts } }
+  }
+
+  const onFile = payees.flatMap(payee => payee.accounts)
+  const unknown = accounts.filter(account => !onFile.includes(account))
+  const payee = payees.map(item => item.name).join(' / ')
+  return {
+    ...entities,
+    beneficiary: unknown.length > 0
+      ? { status: 'changed', sender: address, payee, accounts: unknown, expected: onFile }
+      : { status: 'known', sender: address, payee, accounts }
+  }
+}
+
+export function paymentSignals(entities: PaymentEntities): HeaderSignal[] {
+  const signals: HeaderSignal[] = []
+  const { beneficiary } = entities
+
+  if (beneficiary?.status === 'changed') {
+    signals.push({
+      id: 'beneficiary-changed',
+      severity: 'high',
+      description: `Bank details ${beneficiary.accounts.map(maskAccount).join(', ')} differ from the payment details on file for ${beneficiary.payee} (${(beneficiary.expected || []).map(maskAccount).join(', ')}).`
+    })
+  } else if (beneficiary?.status === 'unrecognized') {
+    signals.push({
+      id: 'beneficiary-unrecognized',
+      severity: 'medium',
+      description: `Bank details ${beneficiary.accounts.map(maskAccount).join(', ')} are not on file for ${beneficiary.sender || 'any known payee'}.`
+    })
+  } else if (beneficiary?.status === 'known') {
+    signals.push({ id: 'beneficiary-known', severity: 'low', description: `Bank details match the payment details on file for ${beneficiary.payee}.` })
+  }
+
+  for (const account of entities.bankAccounts.filter(item => item.valid === false)) {
+    const label = account.type === 'iban' ? 'IBAN' : account.type === 'swift' ? 'SWIFT code' : 'Routing number'
+    const problem = account.type === 'swift' ? 'names no known country' : 'fails its checksum'
+    signals.push({ id: 'invalid-bank-details', severity: 'medium', description: `${label} ${account.value} ${problem}, so it is mistyped or made up.` })
+  }
+
+  const networks = Array.from(new Set(entities.cryptoWallets.map(wallet => wallet.network)))
+  if (networks.length > 0) {
+    signals.push({ id: 'crypto-wallet', severity: 'medium', description: `Gives a ${networks.join(', ')} wallet address for payment.` })
+  }
+
+  if (entities.giftCards.length > 0) {
+    const brands = Array.from(new Set(entities.giftCards.flatMap(request => request.brand ? [request.brand] : [])))
+    signals.push({ id: 'gift-card-request', severity: 'medium', description: `Asks for gift cards${brands.length > 0 ? ` (${brands.join(', ')})` : ''}.` })
+  }
+
+  return signals
+}
+
+/**
+ * A summary for the model. Account numbers are masked; the checks above
+ * have already compared them in full.
+ */
+export function formatPaymentEntities(entities: PaymentEntities): string {
+  const lines = [
+    entities.amounts.length > 0 && `Amounts: ${entities.amounts.map(amount => `${amount.currency} ${amount.value.toFixed(2)}`).join(', ')}`,
+    entities.invoiceNumbers.length > 0 && `Invoice numbers: ${entities.invoiceNumbers.join(', ')}`,
+    entities.dueDates.length > 0 && `Due dates: ${entities.dueDates.map(due => due.date || due.text).join(', ')}`,
+    entities.bankAccounts.length > 0 && `Bank details: ${entities.bankAccounts.map(account => `${account.type.replace('_', ' ')} ${account.type === 'swift' ? account.value : maskAccount(account.value)}${account.country ? ` (${account.country})` : ''}`).join(', ')}`,
+    entities.cryptoWallets.length > 0 && `Crypto wallets: ${entities.cryptoWallets.map(wallet => `${wallet.network} ${wallet.address}`).join(', ')}`
+  ].filter(Boolean)
+  return lines.join('\n')
+}
+
+export async function listKnownPayees(workspaceId: string): Promise<KnownPayee[]> {
+  return (await payees.in(workspaceId).all()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function readList(value: unknown, field: string, normalize: (item: string) => string | undefined, label: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new PaymentInputError(`${field} must be a list of strings`)
+  }
+  if (value.length > LIST_LIMIT) {
+    throw new PaymentInputError(`${field} is limited to ${LIST_LIMIT} entries`)
+  }
+
+  const items = new Set<string>()
+  for (const item of value as string[]) {
+    if (!item.trim()) continue
+    const normalized = normalize(item)
+    if (!normalized) throw new PaymentInputError(`"${item}" is not a valid ${label}`)
+    items.add(normalized)
+  }
+  if (items.size === 0) throw new PaymentInputError(`${field} needs at least one entry`)
+  return Array.from(items)
+}
+
+function normalizePayeeAccount(value: string): string | undefined {
+  const account = normalizeAccount(value)
+  if (/^[A-Z]{2}\d{2}/.test(account)) return validIban(account) ? account : undefined
+  return /^\d{6,20}$/.test(account) ? account : undefined
+}
+
+function validateKnownPayee(input: unknown): Pick<KnownPayee, 'name' | 'senders' | 'accounts'> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new PaymentInputError('Payee must be an object')
+  }
+  const record = input as Record<string, unknown>
+  if (typeof record.name !== 'string' || !record.name.trim()) {
+    throw new PaymentInputError('Payee name is required')
+  }
+
+  return {
+    name: record.name.trim(),
+    senders: readList(record.senders, 'senders', normalizeSender, 'address or domain'),
+    accounts: readList(record.accounts, 'accounts', normalizePayeeAccount, 'IBAN or account number')
+  }
+}
+
+export async function createKnownPayee(workspaceId: string, input: unknown): Promise<KnownPayee> {
+  return payees.in(workspaceId).insert({ id: generateId(), ...validateKnownPayee(input), createdAt: new Date().toISOString() })
+}
+
+export async function updateKnownPayee(workspaceId: string, id: string, input: unknown): Promise<KnownPayee | undefined> {
+  const collection = payees.in(workspaceId)
+  if (!await collection.get(id)) return undefined
+  return collection.update(id, { ...validateKnownPayee(input), updatedAt: new Date().toISOString() })
+}
+
+export async function deleteKnownPayee(workspaceId: string, id: string): Promise<boolean> {
+  return payees.in(workspaceId).remove(id)
+}
@@ -0,0 +1,229 @@
+import { domainOf, EmailAddress, FREE_MAIL_DOMAINS, HeaderSignal, parseListEnv } from './email'
+import { editDistance, imitatesDomain } from './links'
+import { DEFAULT_WORKSPACE_ID, WorkspaceCollection } from './store'
+import { PAYMENT_CHANGE } from './thread'
+
+export interface OrganizationProfile {
+  id: string
+  companyName: string
+  companyDomains: string[]
+  vipNames: string[]
+  vendorDomains: string[]
+  customerDomains: string[]
+  blockedSenders: string[]
+  policies: string[]
+  updatedAt?: string
+}
+
+export type ProfileInput = Partial<Omit<OrganizationProfile, 'id' | 'updatedAt'>>
+
+export class ProfileInputError extends Error {}
+
+const PROFILE_ID = 'default'
+const LIST_LIMIT = 200
+const POLICY_MAX_LENGTH = 500
+
+const profiles = new WorkspaceCollection<OrganizationProfile>('profile')
+
+/**
+ * Until a profile is saved, the default workspace takes its company domains
+ * and executive names from the COMPANY_DOMAINS and EXECUTIVE_NAMES
+ * environment variables. Other workspaces start empty.
+ */
+function defaultProfile(workspaceId: string): OrganizationProfile {
+  const fromEnv = workspaceId === DEFAULT_WORKSPACE_ID
+  return {
+    id: PROFILE_ID,
+    companyName: '',
+    companyDomains: fromEnv ? parseListEnv(process.env.COMPANY_DOMAINS).map(domain => domain.toLowerCase()) : [],
+    vipNames: fromEnv ? parseListEnv(process.env.EXECUTIVE_NAMES) : [],
+    vendorDomains: [],
+    customerDomains: [],
+    blockedSenders: [],
+    policies: []
+  }
+}
+
+export async function getProfile(workspaceId: string): Promise<OrganizationProfile> {
+  return await profiles.in(workspaceId).get(PROFILE_ID) ?? defaultProfile(workspaceId)
+}
+
+const DOMAIN = /^(?:[\p{L}\p{N}-]+\.)+[\p{L}\p{N}-]{2,}$/u
+
+export function normalizeDomain(value: string): string | undefined {
+  const domain = value.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^@/, '')
+    .replace(/[/:].*$/, '')
+    .replace(/\.$/, '')
+  return DOMAIN.test(domain) ? domain : undefined
+}
+
+export function normalizeSender(value: string): string | undefined {
+  const sender = value.trim().toLowerCase()
+  if (!sender.includes('@') || sender.startsWith('@')) return normalizeDomain(sender)
+  const [local, domain] = sender.split('@')
+  const normalized = normalizeDomain(domain || '')
+  return local && normalized ? `${local}@${normalized}` : undefined
+}
+
+function normalizeText(value: string): string | undefined {
+  const text = value.replace(/\s+/g, ' ').trim()
+  return text || undefined
+}
+
+function readList(input: Record<string, unknown>, field: keyof ProfileInput, normalize: (value: string) => string | undefined, label: string): string[] {
+  const value = input[field]
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ProfileInputError(`${field} must be a list of strings`)
+  }
+  if (value.length > LIST_LIMIT) {
+    throw new ProfileInputError(`${field} is limited to ${LIST_LIMIT} entries`)
+  }
+
+  const items = new Set<string>()
+  for (const item of value as string[]) {
+    if (!item.trim()) continue
+    const normalized = normalize(item)
+    if (!normalized) throw new ProfileInputError(`"${item}" is not a valid ${label}`)
+    items.add(normalized)
+  }
+  return Array.from(items)
+}
+
+export function validateProfile(input: unknown): Omit<OrganizationProfile, 'id' | 'updatedAt'> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ProfileInputError('Profile must be an object')
+  }
+  const record = input as Record<string, unknown>
+  if (record.companyName !== undefined && typeof record.companyName !== 'string') {
+    throw new ProfileInputError('companyName must be a string')
+  }
+
+  const policies = readList(record, 'policies', normalizeText, 'policy')
+  const longPolicy = policies.find(policy => policy.length > POLICY_MAX_LENGTH)
+  if (longPolicy) {
+    throw new ProfileInputError(`Policies are limited to ${POLICY_MAX_LENGTH} characters each`)
+  }
+
+  return {
+    companyName: typeof record.companyName === 'string' ? record.companyName.trim() : '',
+    companyDomains: readList(record, 'companyDomains', normalizeDomain, 'domain'),
+    vipNames: readList(record, 'vipNames', normalizeText, 'name'),
+    vendorDomains: readList(record, 'vendorDomains', normalizeDomain, 'domain'),
+    customerDomains: readList(record, 'customerDomains', normalizeDomain, 'domain'),
+    blockedSenders: readList(record, 'blockedSenders', normalizeSender, 'address or domain'),
+    policies
+  }
+}
+
+export async function saveProfile(workspaceId: string, input: unknown): Promise<OrganizationProfile> {
+  const collection = profiles.in(workspaceId)
+  const profile: OrganizationProfile = { id: PROFILE_ID, ...validateProfile(input), updatedAt: new Date().toISOString() }
+  if (await collection.get(PROFILE_ID)) return await collection.update(PROFILE_ID, profile) ?? profile
+  return collection.insert(profile)
+}
+
+export function profileDomains(profile: OrganizationProfile): string[] {
+  return [...profile.companyDomains, ...profile.vendorDomains, ...profile.customerDomains]
+}
+
+function matchesDomain(domain: string, known: string): boolean {
+  return domain === known || domain.endsWith('.' + known)
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().normalize('NFKD').replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * A display name impersonates a VIP when it contains the name or is one typo
+ * away from it, e.g. "Jane Smlth" for Jane Smith.
+ */
+function impersonatedVip(displayName: string, vipNames: string[]): string | undefined {
+  const name = normalizeName(displayName)
+  if (!name) return undefined
+  return vipNames.find(vip => {
+    const normalized = normalizeName(vip)
+    return normalized && (name.includes(normalized) || (normalized.length >= 8 && editDistance(name, normalized) <= 1))
+  })
+}
+
+const POLICY_TOPICS: { policy: RegExp, request: RegExp, topic: string }[] = [
+  { policy: /\b(?:bank|banking|payment|account|wire)\b/i, request: PAYMENT_CHANGE, topic: 'changed payment details' },
+  { policy: /\bgift ?cards?\b/i, request: /\b(?:buy|purchase|get|send)\b.{0,40}\bgift ?cards?\b/i, topic: 'gift cards' },
+  { policy: /\b(?:password|credential|login)s?\b/i, request: /\b(?:send|share|confirm|verify|provide)\b.{0,40}\b(?:password|credentials|login details)\b/i, topic: 'credentials' }
+]
+
+export interface ProfileCheckInput {
+  senders: EmailAddress[]
+  text: string
+}
+
+/**
+ * Checks the senders and the request against the organization profile.
+ * Link lookalikes are covered by link forensics, which trusts the profile
+ * domains.
+ */
+export function detectProfileSignals(profile: OrganizationProfile, { senders, text }: ProfileCheckInput): HeaderSignal[] {
+  const signals: HeaderSignal[] = []
+  const seen = new Set<string>()
+
+  for (const sender of senders) {
+    const address = sender.address.toLowerCase()
+    if (!address.includes('@') || seen.has(address)) continue
+    seen.add(address)
+    const domain = domainOf(address)
+    const companyAddress = profile.companyDomains.length > 0
+      ? profile.companyDomains.some(known => matchesDomain(domain, known))
+      : !FREE_MAIL_DOMAINS.includes(domain)
+
+    const blocked = profile.blockedSenders.find(entry => entry.includes('@') ? entry === address : matchesDomain(domain, entry))
+    if (blocked) {
+      signals.push({ id: 'blocked-sender', severity: 'high', description: `Sender ${address} is on the blocked sender list (${blocked}).` })
+    }
+
+    const knownDomain = profileDomains(profile).some(known => matchesDomain(domain, known))
+    const company = !knownDomain && profile.companyDomains.find(known => imitatesDomain(domain, known))
+    const partner = !knownDomain && [...profile.vendorDomains, ...profile.customerDomains].find(known => imitatesDomain(domain, known))
+    if (company) {
+      signals.push({ id: 'lookalike-company-domain', severity: 'high', description: `Sender domain ${domain} imitates our company domain ${company}.` })
+    } else if (partner) {
+      const kind = profile.vendorDomains.includes(partner) ? 'vendor' : 'customer'
+      signals.push({ id: 'lookalike-partner-domain', severity: 'high', description: `Sender domain ${domain} imitates known ${kind} domain ${partner}.` })
+    }
+
+    const vip = companyAddress ? undefined : impersonatedVip(sender.name, profile.vipNames)
+    if (vip) {
+      signals.push({ id: 'vip-impersonation', severity: 'high', description: `Display name "${sender.name}" matches ${vip}, but ${address} is not a company address.` })
+    }
+  }
+
+  for (const { policy: policyPattern, request, topic } of POLICY_TOPICS) {
+    const policy = profile.policies.find(item => policyPattern.test(item))
+    if (policy && request.test(text)) {
+      signals.push({ id: 'policy-conflict', severity: 'medium', description: `Request involving ${topic} conflicts with our policy: "${policy}"` })
+    }
+  }
+
+  return signals
+}
+
+export function formatProfile(profile: OrganizationProfile): string {
+  const lines = [
+    profile.companyName && `Company: ${profile.companyName}`,
+    profile.companyDomains.length > 0 && `Company domains: ${profile.companyDomains.join(', ')}`,
+    profile.vipNames.length > 0 && `Executives and VIPs: ${profile.vipNames.join(', ')}`,
+    profile.vendorDomains.length > 0 && `Known vendor domains: ${profile.vendorDomains.join(', ')}`,
+    profile.customerDomains.length > 0 && `Known customer domains: ${profile.customerDomains.join(', ')}`,
+    profile.blockedSenders.length > 0 && `Blocked senders: ${profile.blockedSenders.join(', ')}`,
+    profile.policies.length > 0 && `Official policies:\n${profile.policies.map(policy => `- ${policy}`).join('\n')}`
+  ].filter(Boolean)
+
+  if (lines.length === 0) return ''
+  return `Organization profile of the business you work for:
+${lines.join('\n')}
+
+Messages from domains or display names that imitate the ones above are impersonation and High Risk Fraud. Requests that contradict an official policy are at least Suspicious.`
+}
@@ -0,0 +1,56 @@
+import { postJson, readStreamedText } from './http'
+import { ModelProvider, ProviderError } from './types'
+
+interface ContentBlock {
+  type: string
+  text?: string
+  input?: unknown
+}
+
+export const anthropicProvider: ModelProvider = {
+  async complete(config, request, signal) {
+    const baseUrl = config.baseUrl || 'https://api.anthropic.com'
+    const schema = config.structuredOutput !== 'off' ? request.schema : undefined
+    const response = await postJson(`${baseUrl}/v1/messages`, {
+      'x-api-key': config.apiKey || '',
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: config.model,
+      max_tokens: config.maxTokens,
+      ...(config.temperature !== undefined && { temperature: config.temperature }),
+      stream: Boolean(request.onText),
+      ...(schema && {
+        tools: [{ name: schema.name, description: schema.description, input_schema: schema.schema }],
+        tool_choice: { type: 'tool', name: schema.name }
+      }),
+      system: request.system,
+      messages: [
+        {
+          role: 'user',
+          content: request.user
+        }
+      ]
+    }, signal)
+
+    if (request.onText) {
+      const usage = { inputTokens: 0, outputTokens: 0 }
+      const text = await readStreamedText(response, event => {
+        const data = JSON.parse(event.data)
+        if (event.event === 'error') throw new ProviderError(`Claude API error: ${data.error?.message || 'stream failed'}`, true)
+        if (event.event === 'message_start') usage.inputTokens = data.message?.usage?.input_tokens || 0
+        if (event.event === 'message_delta') usage.outputTokens = data.usage?.output_tokens || 0
+        if (event.event !== 'content_block_delta') return ''
+        return data.delta?.type === 'input_json_delta' ? data.delta.partial_json || '' : data.delta?.text || ''
+      }, request.onText)
+      if (usage.inputTokens || usage.outputTokens) request.onUsage?.(usage)
+      return text
+    }
+
+    const data = await response.json()
+    if (data.usage) request.onUsage?.({ inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 })
+    const blocks: ContentBlock[] = data.content || []
+    const toolUse = blocks.find(block => block.type === 'tool_use')
+    if (toolUse) return JSON.stringify(toolUse.input)
+    return blocks.map(block => block.text || '').join('')
+  }
+}
@@ -0,0 +1,44 @@
+import { readServerSentEvents, ServerSentEvent } from '../sse'
+import { ProviderError } from './types'
+
+export async function postJson(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch (error) {
+    throw new ProviderError(`Request to ${url} failed: ${error instanceof Error ? error.message : error}`, true)
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500
+    throw new ProviderError(`${url} responded ${response.status} ${response.statusText}`, retryable)
+  }
+
+  return response
+}
+
+export async function readStreamedText(
+  response: Response,
+  extractText: (event: ServerSentEvent) => string,
+  onText: (delta: string) => void
+): Promise<string> {
+  if (!response.body) throw new ProviderError('Streaming response has no body', true)
+
+  let text = ''
+  for await (const event of readServerSentEvents(response.body)) {
+    const delta = extractText(event)
+    if (!delta) continue
+    text += delta
+    onText(delta)
+  }
+
+  return text
+}
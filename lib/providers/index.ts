@@ -0,0 +1,209 @@
+import fs from 'fs'
+import path from 'path'
+import { anthropicProvider } from './anthropic'
+import { openAICompatibleProvider } from './openai'
+import { CompletionRequest, ModelProvider, ProviderConfig, ProviderError, StructuredOutputMode } from './types'
+
+export type { CompletionRequest, ModelProvider, OutputSchema, ProviderConfig, StructuredOutputMode, TokenUsage } from './types'
+export { ProviderError } from './types'
+
+export interface ProviderFileEntry extends Partial<ProviderConfig> {
+  apiKeyEnv?: string
+}
+
+export interface ProvidersFile {
+  chain?: string[]
+  defaults?: Partial<ProviderConfig>
+  providers: Record<string, ProviderFileEntry>
+}
+
+const registry = new Map<string, ModelProvider>([
+  ['anthropic', anthropicProvider],
+  ['openai-compatible', openAICompatibleProvider]
+])
+
+export function registerProviderType(type: string, provider: ModelProvider) {
+  registry.set(type, provider)
+}
+
+// The models the server-wide providers use when no *_MODEL variable is set.
+export const DEFAULT_MODELS: Record<string, string> = {
+  claude: 'claude-3-5-sonnet-20241022',
+  openai: 'gpt-4-turbo-preview',
+  local: 'llama3.1'
+}
+
+function numberEnv(name: string): number | undefined {
+  const value = process.env[name]
+  if (!value) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function sharedDefaults(): Omit<ProviderConfig, 'id' | 'type' | 'model'> {
+  return {
+    temperature: numberEnv('LLM_TEMPERATURE'),
+    maxTokens: numberEnv('LLM_MAX_TOKENS') ?? 2000,
+    timeoutMs: numberEnv('LLM_TIMEOUT_MS') ?? 60000,
+    retries: numberEnv('LLM_RETRIES') ?? 1,
+    retryBackoffMs: numberEnv('LLM_RETRY_BACKOFF_MS') ?? 500,
+    structuredOutput: process.env.LLM_STRUCTURED_OUTPUT as StructuredOutputMode | undefined
+  }
+}
+
+function providersFromEnv(): ProviderConfig[] {
+  const defaults = sharedDefaults()
+  const providers: ProviderConfig[] = []
+
+  if (process.env.ANTHROPIC_API_KEY) {
+    providers.push({
+      ...defaults,
+      id: 'claude',
+      type: 'anthropic',
+      model: process.env.ANTHROPIC_MODEL || DEFAULT_MODELS.claude,
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseUrl: process.env.ANTHROPIC_BASE_URL
+    })
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    providers.push({
+      ...defaults,
+      temperature: defaults.temperature ?? 0.7,
+      id: 'openai',
+      type: 'openai-compatible',
+      model: process.env.OPENAI_MODEL || DEFAULT_MODELS.openai,
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL
+    })
+  }
+
+  if (process.env.LOCAL_LLM_BASE_URL) {
+    providers.push({
+      ...defaults,
+      id: 'local',
+      type: 'openai-compatible',
+      model: process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local,
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      baseUrl: process.env.LOCAL_LLM_BASE_URL
+    })
+  }
+
+  return providers
+}
+
+export function providersFromFile(file: ProvidersFile, trusted = true): ProviderConfig[] {
+  const defaults = { ...sharedDefaults(), ...file.defaults }
+
+  return Object.entries(file.providers || {}).map(([id, entry]) => {
+    const { apiKeyEnv, ...config } = entry
+    if (!config.type || !registry.has(config.type)) throw new Error(`Provider "${id}" has unknown type "${config.type}"`)
+    if (!config.model) throw new Error(`Provider "${id}" needs a model`)
+    if (apiKeyEnv && !trusted) throw new Error(`Provider "${id}" cannot read keys from the server environment`)
+    if ((config.baseUrl || file.defaults?.baseUrl) && !trusted) throw new Error(`Provider "${id}" cannot set a baseUrl`)
+
+    return {
+      ...defaults,
+      ...config,
+      id,
+      type: config.type,
+      model: config.model,
+      apiKey: config.apiKey ?? (apiKeyEnv ? process.env[apiKeyEnv] : undefined)
+    }
+  })
+}
+
+export function orderChain(providers: ProviderConfig[], chain?: string[]): ProviderConfig[] {
+  if (!chain || chain.length === 0) return providers
+
+  return chain.map(id => {
+    const provider = providers.find(candidate => candidate.id === id)
+    if (!provider) throw new Error(`Provider chain references unknown provider "${id}"`)
+    return provider
+  })
+}
+
+function providersFilePath(): string {
+  return process.env.PROVIDERS_FILE || path.join(process.cwd(), 'config', 'providers.json')
+}
+
+function chainFromEnv(): string[] | undefined {
+  const chain = (process.env.PROVIDER_CHAIN || '').split(',').map(id => id.trim()).filter(Boolean)
+  return chain.length > 0 ? chain : undefined
+}
+
+/**
+ * A workspace's own configuration replaces the server-wide one. It may not
+ * use apiKeyEnv, or a workspace admin could send server secrets anywhere,
+ * nor baseUrl, or they could make the server call its own network.
+ */
+export function loadProviderChain(workspaceConfig?: ProvidersFile): ProviderConfig[] {
+  if (workspaceConfig) {
+    try {
+      return orderChain(providersFromFile(workspaceConfig, false), workspaceConfig.chain)
+    } catch (error) {
+      console.error('Invalid workspace provider configuration, analyzing offline:', error)
+      return []
+    }
+  }
+
+  const file = providersFilePath()
+
+  try {
+    if (fs.existsSync(file)) {
+      const parsed: ProvidersFile = JSON.parse(fs.readFileSync(file, 'utf8'))
+      return orderChain(providersFromFile(parsed), chainFromEnv() ?? parsed.chain)
+    }
+    return orderChain(providersFromEnv(), chainFromEnv())
+  } catch (error) {
+    console.error(`Invalid provider configuration (${file}), using environment defaults:`, error)
+    return providersFromEnv()
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Roughly four characters per token for English text.
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Usage is reported through request.onUsage once per successful attempt,
+ * estimated from the text when the provider does not report it.
+ */
+export async function completeWithRetries(config: ProviderConfig, request: CompletionRequest): Promise<string> {
+  const provider = registry.get(config.type)
+  if (!provider) throw new ProviderError(`No provider registered for type "${config.type}"`, false)
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs)
+    let reported = false
+
+    try {
+      const text = await provider.complete(config, {
+        ...request,
+        onUsage: usage => {
+          reported = true
+          request.onUsage?.(usage)
+        }
+      }, controller.signal)
+      if (!reported) {
+        request.onUsage?.({ inputTokens: estimateTokens(request.system + request.user), outputTokens: estimateTokens(text), estimated: true })
+      }
+      return text
+    } catch (error) {
+      const retryable = error instanceof ProviderError ? error.retryable : true
+      if (!retryable || attempt >= config.retries) throw error
+
+      console.warn(`Provider ${config.id} attempt ${attempt + 1} failed, retrying:`, error)
+      request.onRetry?.()
+      await sleep(config.retryBackoffMs * 2 ** attempt)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
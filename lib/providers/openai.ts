@@ -0,0 +1,70 @@
+import { postJson, readStreamedText } from './http'
+import { CompletionRequest, ModelProvider, ProviderConfig, TokenUsage } from './types'
+
+interface UsageField {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+function tokenUsage(usage: UsageField): TokenUsage {
+  return { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 }
+}
+
+function responseFormat(config: ProviderConfig, request: CompletionRequest) {
+  const mode = config.structuredOutput ?? 'json'
+  if (!request.schema || mode === 'off') return undefined
+  if (mode === 'schema') {
+    return {
+      type: 'json_schema',
+      json_schema: { name: request.schema.name, description: request.schema.description, schema: request.schema.schema, strict: true }
+    }
+  }
+  return { type: 'json_object' }
+}
+
+/**
+ * Works with OpenAI and any server exposing the same chat completions API,
+ * such as Ollama or llama.cpp.
+ */
+export const openAICompatibleProvider: ModelProvider = {
+  async complete(config, request, signal) {
+    const baseUrl = config.baseUrl || 'https://api.openai.com/v1'
+    const format = responseFormat(config, request)
+    const response = await postJson(`${baseUrl}/chat/completions`, {
+      ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` })
+    }, {
+      model: config.model,
+      messages: [
+        {
+          role: 'system',
+          content: request.system
+        },
+        {
+          role: 'user',
+          content: request.user
+        }
+      ],
+      ...(config.temperature !== undefined && { temperature: config.temperature }),
+      max_tokens: config.maxTokens,
+      ...(format && { response_format: format }),
+      stream: Boolean(request.onText),
+      ...(request.onText && { stream_options: { include_usage: true } })
+    }, signal)
+
+    if (request.onText) {
+      let usage: UsageField | undefined
+      const text = await readStreamedText(response, event => {
+        if (event.data === '[DONE]') return ''
+        const data = JSON.parse(event.data)
+        usage = data.usage || usage
+        return data.choices?.[0]?.delta?.content || ''
+      }, request.onText)
+      if (usage) request.onUsage?.(tokenUsage(usage))
+      return text
+    }
+
+    const data = await response.json()
+    if (data.usage) request.onUsage?.(tokenUsage(data.usage))
+    return data.choices[0].message.content
+  }
+}
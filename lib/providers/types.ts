@@ -0,0 +1,57 @@
+export type ProviderType = 'anthropic' | 'openai-compatible' | (string & {})
+
+/**
+ * How a provider is asked for structured output: `schema` uses the native
+ * schema-constrained mode (tool use for Claude, `json_schema` for OpenAI),
+ * `json` asks for any JSON object, `off` relies on the prompt alone.
+ */
+export type StructuredOutputMode = 'schema' | 'json' | 'off'
+
+export interface ProviderConfig {
+  id: string
+  type: ProviderType
+  model: string
+  apiKey?: string
+  baseUrl?: string
+  temperature?: number
+  maxTokens: number
+  timeoutMs: number
+  retries: number
+  retryBackoffMs: number
+  structuredOutput?: StructuredOutputMode
+}
+
+export interface OutputSchema {
+  name: string
+  description: string
+  schema: object
+}
+
+/**
+ * Token counts for one completion. Estimated counts are derived from the text
+ * length when a provider does not report usage.
+ */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  estimated?: boolean
+}
+
+export interface CompletionRequest {
+  system: string
+  user: string
+  schema?: OutputSchema
+  onText?: (delta: string) => void
+  onRetry?: () => void
+  onUsage?: (usage: TokenUsage) => void
+}
+
+export interface ModelProvider {
+  complete(config: ProviderConfig, request: CompletionRequest, signal: AbortSignal): Promise<string>
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message)
+  }
+}
@@ -0,0 +1,79 @@
+import type { AuthContext } from './auth'
+
+export interface RateLimitState {
+  limit: number
+  remaining: number
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+  fullAt: number
+}
+
+export class RateLimitError extends Error {
+  constructor(readonly retryAfterSeconds: number, readonly limit: number) {
+    super(`Rate limit of ${limit} requests per minute exceeded. Try again in ${retryAfterSeconds} seconds.`)
+  }
+}
+
+const WINDOW_MS = 60 * 1000
+const PRUNE_THRESHOLD = 1000
+
+// Buckets live in memory, so each server process enforces its own limit.
+const buckets = new Map<string, Bucket>()
+
+function defaultLimit(): number {
+  const value = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '30')
+  return Number.isFinite(value) && value >= 0 ? value : 30
+}
+
+function clientOf(auth: AuthContext): string {
+  if (auth.apiKey) return `key:${auth.apiKey.id}`
+  if (auth.user) return `user:${auth.user.id}`
+  return `workspace:${auth.workspaceId}`
+}
+
+// A bucket that has refilled is the same as no bucket.
+function prune(now: number) {
+  for (const [key, bucket] of buckets) {
+    if (now >= bucket.fullAt) buckets.delete(key)
+  }
+}
+
+function saveBucket(key: string, tokens: number, limit: number, now: number) {
+  buckets.set(key, { tokens, updatedAt: now, fullAt: now + (limit - tokens) * WINDOW_MS / limit })
+}
+
+/**
+ * Token bucket per API key, or per user for browser sessions: the limit
+ * refills evenly over a minute and bursts up to the full limit are allowed.
+ * A request costing more than the limit (a large batch) may start from a
+ * full bucket, but is charged in full, leaving the bucket in debt until it
+ * has refilled. Throws RateLimitError with the seconds until the cost fits.
+ */
+export function enforceRateLimit(auth: AuthContext, cost = 1): RateLimitState | undefined {
+  const limit = auth.apiKey?.rateLimitPerMinute ?? defaultLimit()
+  if (limit === 0) return undefined
+
+  const now = Date.now()
+  if (buckets.size > PRUNE_THRESHOLD) prune(now)
+
+  const key = clientOf(auth)
+  const bucket = buckets.get(key) || { tokens: limit, updatedAt: now }
+  const tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * limit / WINDOW_MS)
+  const needed = Math.min(cost, limit)
+
+  if (tokens < needed) {
+    saveBucket(key, tokens, limit, now)
+    throw new RateLimitError(Math.max(1, Math.ceil((needed - tokens) * WINDOW_MS / limit / 1000)), limit)
+  }
+
+  saveBucket(key, tokens - cost, limit, now)
+  return { limit, remaining: Math.max(0, Math.floor(tokens - cost)) }
+}
+
+export function rateLimitHeaders(state: RateLimitState | undefined): Record<string, string> {
+  if (!state) return {}
+  return { 'X-RateLimit-Limit': String(state.limit), 'X-RateLimit-Remaining': String(state.remaining) }
+}
@@ -0,0 +1,189 @@
+export const REDACTION_POLICIES = ['redact', 'mask', 'block'] as const
+
+export type RedactionPolicy = typeof REDACTION_POLICIES[number]
+
+export type SensitiveType = 'card_number' | 'iban' | 'ssn' | 'phone' | 'password' | 'secret'
+
+export const SENSITIVE_TYPE_LABELS: Record<SensitiveType, string> = {
+  card_number: 'Card number',
+  iban: 'IBAN',
+  ssn: 'Social Security number',
+  phone: 'Phone number',
+  password: 'Password',
+  secret: 'Access key or token'
+}
+
+export interface RedactionFinding {
+  type: SensitiveType
+  placeholder: string
+  preview: string
+}
+
+export interface RedactionSummary {
+  policy: RedactionPolicy
+  findings: RedactionFinding[]
+  blocked: boolean
+}
+
+interface SensitiveMatch {
+  type: SensitiveType
+  value: string
+  start: number
+  end: number
+}
+
+const PLACEHOLDER_NAMES: Record<SensitiveType, string> = {
+  card_number: 'CARD',
+  iban: 'IBAN',
+  ssn: 'SSN',
+  phone: 'PHONE',
+  password: 'PASSWORD',
+  secret: 'SECRET'
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+function passesLuhn(number: string): boolean {
+  let sum = 0
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+export function validIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '')
+  if (iban.length < 15 || iban.length > 34) return false
+  const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55))
+  let remainder = 0
+  for (const digit of numeric) remainder = (remainder * 10 + Number(digit)) % 97
+  return remainder === 1
+}
+
+/**
+ * Detectors run in order and later ones skip text already claimed, so a card
+ * number is never also reported as a phone number.
+ */
+const DETECTORS: { type: SensitiveType, pattern: RegExp, group?: number, accept?: (value: string) => boolean }[] = [
+  { type: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { type: 'secret', pattern: /\b(?:sk-(?:ant-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abpr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|eyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,})/g },
+  { type: 'password', pattern: /\b(?:password|passwd|pwd|passcode|pin)\b\s*(?:is|:|=)\s*([^\s,;]+)/gi, group: 1 },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, accept: validIban },
+  { type: 'card_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: value => passesLuhn(digits(value)) },
+  { type: 'ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { type: 'phone', pattern: /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)|\d{2,4})[ .-]\d{3,4}[ .-]?\d{3,5}\b(?![ .-]?\d)/g, accept: value => digits(value).length >= 9 && digits(value).length <= 15 }
+]
+
+export function findSensitiveData(text: string): SensitiveMatch[] {
+  const matches: SensitiveMatch[] = []
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start)
+
+  for (const { type, pattern, group, accept } of DETECTORS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = group ? match[group] : match[0]
+      const start = (match.index ?? 0) + (group ? match[0].lastIndexOf(value) : 0)
+      const end = start + value.length
+      if (overlaps(start, end) || (accept && !accept(value))) continue
+      matches.push({ type, value, start, end })
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+function preview(type: SensitiveType, value: string): string {
+  const compact = value.replace(/[\s-]/g, '')
+  switch (type) {
+    case 'card_number':
+      return `•••• ${compact.slice(-4)}`
+    case 'iban':
+      return `${compact.slice(0, 4)} •••• ${compact.slice(-4)}`
+    case 'ssn':
+      return `•••-••-${compact.slice(-4)}`
+    case 'phone':
+      return `•••${digits(value).slice(-3)}`
+    case 'password':
+      return '••••••••'
+    case 'secret':
+      return `${value.slice(0, 4)}…`
+  }
+}
+
+export function redactionPolicy(): RedactionPolicy {
+  const policy = (process.env.REDACTION_POLICY || 'redact').toLowerCase()
+  if (REDACTION_POLICIES.includes(policy as RedactionPolicy)) return policy as RedactionPolicy
+  console.warn(`Unknown REDACTION_POLICY "${policy}", using redact`)
+  return 'redact'
+}
+
+/**
+ * Replaces sensitive values with placeholders before text is sent to a model
+ * provider and puts them back in whatever comes back. The same value always
+ * gets the same placeholder, so the model can still tell two card numbers
+ * apart. `mask` keeps the last digits visible in the placeholder.
+ */
+export class Redactor {
+  private readonly placeholders = new Map<string, string>()
+  private readonly originals = new Map<string, string>()
+  readonly findings: RedactionFinding[] = []
+
+  constructor(readonly policy: RedactionPolicy) {}
+
+  get blocked(): boolean {
+    return this.policy === 'block' && this.findings.length > 0
+  }
+
+  summary(): RedactionSummary {
+    return { policy: this.policy, findings: [...this.findings], blocked: this.blocked }
+  }
+
+  private placeholderFor({ type, value }: SensitiveMatch): string {
+    const key = `${type}:${type === 'password' || type === 'secret' ? value : value.replace(/[\s-]/g, '')}`
+    const existing = this.placeholders.get(key)
+    if (existing) return existing
+
+    const index = this.findings.filter(finding => finding.type === type).length + 1
+    const shown = preview(type, value)
+    const placeholder = this.policy === 'mask' && type !== 'password'
+      ? `[${PLACEHOLDER_NAMES[type]}_${index} ${shown}]`
+      : `[${PLACEHOLDER_NAMES[type]}_${index}]`
+
+    this.placeholders.set(key, placeholder)
+    this.originals.set(placeholder, value)
+    this.findings.push({ type, placeholder, preview: shown })
+    return placeholder
+  }
+
+  redact(text: string): string {
+    let result = ''
+    let position = 0
+    for (const match of findSensitiveData(text)) {
+      result += text.slice(position, match.start) + this.placeholderFor(match)
+      position = match.end
+    }
+    return result + text.slice(position)
+  }
+
+  restore<T>(value: T): T {
+    if (this.originals.size === 0) return value
+    if (typeof value === 'string') {
+      let text: string = value
+      this.originals.forEach((original, placeholder) => {
+        text = text.split(placeholder).join(original)
+      })
+      return text as T
+    }
+    if (Array.isArray(value)) return value.map(item => this.restore(item)) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restore(item)])) as T
+    }
+    return value
+  }
+}
@@ -0,0 +1,347 @@
+import type { Language } from './language'
+import type { Intent, ReplyTone } from './schema'
+
+export interface ReplyTemplate {
+  greeting(tone: ReplyTone, name?: string): string
+  opening(tone: ReplyTone, topic?: string): string
+  paragraphs: Record<Intent, string[]>
+  closings: Record<ReplyTone, string>
+  signOff(tone: ReplyTone): string
+  subjectPrefix: string
+  untitled: string
+}
+
+function firstName(name: string): string {
+  return name.split(' ')[0]
+}
+
+const en: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Dear ${name},` : 'Dear Sir or Madam,'
+    return name ? `Hi ${firstName(name)},` : 'Hello,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` regarding ${topic}` : ''
+    if (tone === 'legal') return `We acknowledge receipt of your message${about}.`
+    if (tone === 'polite_firm') return `Thank you for your message${about}.`
+    return `Thank you for reaching out${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'We would be glad to help. To prepare an accurate proposal, could you share:\n- Your specific requirements\n- Your timeline for implementation\n- Any budget considerations',
+      'I am also available for a brief call this week if that would be helpful.'
+    ],
+    complaint: [
+      'I am sorry for the inconvenience this has caused. We take this seriously and want to resolve it quickly.',
+      'Could you send any order numbers, dates or screenshots that will help us investigate? We will follow up as soon as we have reviewed the details.'
+    ],
+    support_request: [
+      'Our team is looking into the problem you described. To help us reproduce it, please send the steps that lead to the issue, any error messages you see, and when it started.',
+      'We will update you as soon as we have more information.'
+    ],
+    negotiation: [
+      'We value working with you and are reviewing the terms you raised. Our account team will come back to you with options within two business days.',
+      'If there are specific requirements or a deadline we should factor in, please let us know.'
+    ],
+    inquiry: [
+      'We are reviewing your request and will follow up with the information you asked for within 1-2 business days.',
+      'If anything is time-sensitive, please let us know.'
+    ],
+    risk: [
+      'Before we act on this request, we need to confirm it through a contact channel we already have on file. We will be in touch that way.',
+      'We do not change payment details, share credentials or grant account access based on email instructions alone.'
+    ]
+  },
+  closings: {
+    neutral: 'Please let me know if you need any additional information.',
+    polite_firm: 'To keep things moving, please keep further correspondence on this thread so nothing is missed.',
+    legal: 'This message is for information only and does not constitute an acceptance of terms, an admission of liability, or a binding commitment. Please do not send passwords, payment card numbers or other sensitive data by email.'
+  },
+  signOff: tone => tone === 'legal' ? 'Kind regards' : 'Best regards',
+  subjectPrefix: 'Re:',
+  untitled: 'Your message'
+}
+
+const es: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Estimado/a ${name}:` : 'Estimados señores:'
+    return name ? `Hola, ${firstName(name)}:` : 'Hola:'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` sobre ${topic}` : ''
+    if (tone === 'legal') return `Acusamos recibo de su mensaje${about}.`
+    if (tone === 'polite_firm') return `Gracias por su mensaje${about}.`
+    return `Gracias por ponerse en contacto con nosotros${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'Estaremos encantados de ayudarle. Para preparar una propuesta precisa, ¿podría indicarnos lo siguiente?\n- Sus requisitos específicos\n- Su calendario de implantación\n- Cualquier consideración presupuestaria',
+      'También estoy disponible para una breve llamada esta semana si le resulta útil.'
+    ],
+    complaint: [
+      'Lamento las molestias que esto le ha causado. Nos lo tomamos muy en serio y queremos resolverlo cuanto antes.',
+      '¿Podría enviarnos los números de pedido, fechas o capturas de pantalla que nos ayuden a investigarlo? Le responderemos en cuanto hayamos revisado los detalles.'
+    ],
+    support_request: [
+      'Nuestro equipo está revisando el problema que describe. Para ayudarnos a reproducirlo, envíenos los pasos que llevan al problema, los mensajes de error que aparecen y desde cuándo ocurre.',
+      'Le informaremos en cuanto tengamos más información.'
+    ],
+    negotiation: [
+      'Valoramos nuestra relación con usted y estamos revisando las condiciones que plantea. Nuestro equipo de cuentas le propondrá opciones en un plazo de dos días hábiles.',
+      'Si hay requisitos concretos o una fecha límite que debamos tener en cuenta, háganoslo saber.'
+    ],
+    inquiry: [
+      'Estamos revisando su solicitud y le enviaremos la información que ha pedido en un plazo de 1 a 2 días hábiles.',
+      'Si algo es urgente, háganoslo saber.'
+    ],
+    risk: [
+      'Antes de actuar sobre esta solicitud, debemos confirmarla a través de un canal de contacto que ya tengamos registrado. Nos pondremos en contacto por esa vía.',
+      'No cambiamos datos de pago, no compartimos credenciales ni concedemos acceso a cuentas solo con instrucciones recibidas por correo electrónico.'
+    ]
+  },
+  closings: {
+    neutral: 'Quedo a su disposición si necesita cualquier información adicional.',
+    polite_firm: 'Para agilizar el proceso, le rogamos que mantenga la correspondencia en este hilo para que no se pierda nada.',
+    legal: 'Este mensaje tiene carácter meramente informativo y no constituye una aceptación de condiciones, un reconocimiento de responsabilidad ni un compromiso vinculante. No envíe contraseñas, números de tarjeta de pago ni otros datos sensibles por correo electrónico.'
+  },
+  signOff: tone => tone === 'legal' ? 'Atentamente' : 'Saludos cordiales',
+  subjectPrefix: 'Re:',
+  untitled: 'Su mensaje'
+}
+
+const de: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Guten Tag ${name},` : 'Sehr geehrte Damen und Herren,'
+    return name ? `Hallo ${firstName(name)},` : 'Guten Tag,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` zu ${topic}` : ''
+    if (tone === 'legal') return `Wir bestätigen den Eingang Ihrer Nachricht${about}.`
+    if (tone === 'polite_firm') return `Vielen Dank für Ihre Nachricht${about}.`
+    return `Vielen Dank für Ihre Anfrage${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'Wir helfen Ihnen gerne weiter. Damit wir ein genaues Angebot erstellen können, teilen Sie uns bitte Folgendes mit:\n- Ihre konkreten Anforderungen\n- Ihren Zeitplan für die Umsetzung\n- Ihren Budgetrahmen',
+      'Gerne stehe ich diese Woche auch für ein kurzes Telefonat zur Verfügung.'
+    ],
+    complaint: [
+      'Die entstandenen Unannehmlichkeiten tun mir leid. Wir nehmen das sehr ernst und möchten es schnell lösen.',
+      'Könnten Sie uns Bestellnummern, Daten oder Screenshots schicken, die uns bei der Prüfung helfen? Wir melden uns, sobald wir die Details geprüft haben.'
+    ],
+    support_request: [
+      'Unser Team prüft das von Ihnen beschriebene Problem. Damit wir es nachvollziehen können, senden Sie uns bitte die Schritte, die zu dem Problem führen, die angezeigten Fehlermeldungen und seit wann es auftritt.',
+      'Wir informieren Sie, sobald wir mehr wissen.'
+    ],
+    negotiation: [
+      'Wir schätzen die Zusammenarbeit mit Ihnen und prüfen die von Ihnen angesprochenen Konditionen. Unser Account-Team meldet sich innerhalb von zwei Werktagen mit Optionen bei Ihnen.',
+      'Falls es konkrete Anforderungen oder eine Frist gibt, die wir berücksichtigen sollten, lassen Sie es uns bitte wissen.'
+    ],
+    inquiry: [
+      'Wir prüfen Ihre Anfrage und senden Ihnen die gewünschten Informationen innerhalb von 1-2 Werktagen.',
+      'Falls etwas eilt, geben Sie uns bitte Bescheid.'
+    ],
+    risk: [
+      'Bevor wir dieser Aufforderung nachkommen, müssen wir sie über einen uns bereits bekannten Kontaktweg bestätigen. Wir melden uns auf diesem Weg bei Ihnen.',
+      'Wir ändern keine Zahlungsdaten, geben keine Zugangsdaten weiter und gewähren keinen Kontozugriff allein aufgrund von Anweisungen per E-Mail.'
+    ]
+  },
+  closings: {
+    neutral: 'Bitte melden Sie sich, falls Sie weitere Informationen benötigen.',
+    polite_firm: 'Damit nichts verloren geht, führen Sie die weitere Korrespondenz bitte in diesem Verlauf fort.',
+    legal: 'Diese Nachricht dient ausschließlich der Information und stellt weder eine Annahme von Bedingungen noch ein Schuldanerkenntnis oder eine verbindliche Zusage dar. Bitte senden Sie keine Passwörter, Kartennummern oder andere sensible Daten per E-Mail.'
+  },
+  signOff: tone => tone === 'legal' ? 'Mit freundlichen Grüßen' : 'Viele Grüße',
+  subjectPrefix: 'AW:',
+  untitled: 'Ihre Nachricht'
+}
+
+const fr: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `À l'attention de ${name},` : 'Madame, Monsieur,'
+    return name ? `Bonjour ${firstName(name)},` : 'Bonjour,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` concernant ${topic}` : ''
+    if (tone === 'legal') return `Nous accusons réception de votre message${about}.`
+    if (tone === 'polite_firm') return `Merci pour votre message${about}.`
+    return `Merci de nous avoir contactés${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'Nous serons ravis de vous aider. Afin de préparer une proposition précise, pourriez-vous nous indiquer :\n- Vos besoins spécifiques\n- Votre calendrier de mise en œuvre\n- Vos contraintes budgétaires',
+      'Je suis également disponible pour un court appel cette semaine si cela vous est utile.'
+    ],
+    complaint: [
+      'Je suis désolé pour le désagrément occasionné. Nous prenons cela très au sérieux et souhaitons le résoudre rapidement.',
+      "Pourriez-vous nous envoyer les numéros de commande, dates ou captures d'écran qui nous aideront à enquêter ? Nous reviendrons vers vous dès que nous aurons examiné les détails."
+    ],
+    support_request: [
+      "Notre équipe examine le problème que vous avez décrit. Pour nous aider à le reproduire, merci de nous envoyer les étapes qui mènent au problème, les messages d'erreur affichés et depuis quand il se produit.",
+      "Nous vous tiendrons informé dès que nous aurons plus d'informations."
+    ],
+    negotiation: [
+      'Nous apprécions notre collaboration et examinons les conditions que vous avez soulevées. Notre équipe commerciale reviendra vers vous avec des options sous deux jours ouvrés.',
+      "Si nous devons tenir compte de besoins particuliers ou d'une échéance, merci de nous le faire savoir."
+    ],
+    inquiry: [
+      'Nous examinons votre demande et vous enverrons les informations demandées sous 1 à 2 jours ouvrés.',
+      'Si quelque chose est urgent, merci de nous le faire savoir.'
+    ],
+    risk: [
+      'Avant de donner suite à cette demande, nous devons la confirmer par un moyen de contact déjà enregistré chez nous. Nous vous contacterons par ce biais.',
+      "Nous ne modifions pas de coordonnées de paiement, ne communiquons pas d'identifiants et n'accordons pas d'accès à un compte sur la seule base d'instructions reçues par e-mail."
+    ]
+  },
+  closings: {
+    neutral: "N'hésitez pas à me contacter si vous avez besoin d'informations complémentaires.",
+    polite_firm: 'Pour faciliter le suivi, merci de poursuivre nos échanges dans ce fil afin que rien ne soit oublié.',
+    legal: "Ce message est fourni à titre informatif uniquement et ne constitue ni une acceptation de conditions, ni une reconnaissance de responsabilité, ni un engagement contraignant. Merci de ne pas envoyer de mots de passe, de numéros de carte de paiement ou d'autres données sensibles par e-mail."
+  },
+  signOff: tone => tone === 'legal' ? 'Salutations distinguées' : 'Cordialement',
+  subjectPrefix: 'Re:',
+  untitled: 'Votre message'
+}
+
+const it: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Gentile ${name},` : 'Gentili Signori,'
+    return name ? `Buongiorno ${firstName(name)},` : 'Buongiorno,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` riguardo a ${topic}` : ''
+    if (tone === 'legal') return `Confermiamo la ricezione del suo messaggio${about}.`
+    if (tone === 'polite_firm') return `Grazie per il suo messaggio${about}.`
+    return `Grazie per averci contattato${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      "Saremo lieti di aiutarla. Per preparare una proposta accurata, potrebbe indicarci:\n- Le sue esigenze specifiche\n- I tempi previsti per l'implementazione\n- Eventuali vincoli di budget",
+      'Sono anche disponibile per una breve chiamata questa settimana, se può essere utile.'
+    ],
+    complaint: [
+      'Mi scuso per il disagio causato. Prendiamo la questione molto sul serio e vogliamo risolverla rapidamente.',
+      "Potrebbe inviarci numeri d'ordine, date o screenshot che ci aiutino ad approfondire? La ricontatteremo non appena avremo esaminato i dettagli."
+    ],
+    support_request: [
+      'Il nostro team sta esaminando il problema che ha descritto. Per aiutarci a riprodurlo, ci invii i passaggi che portano al problema, gli eventuali messaggi di errore e da quando si verifica.',
+      'La aggiorneremo non appena avremo maggiori informazioni.'
+    ],
+    negotiation: [
+      'Apprezziamo la collaborazione con lei e stiamo valutando le condizioni che ha sollevato. Il nostro team commerciale le proporrà delle opzioni entro due giorni lavorativi.',
+      'Se ci sono esigenze specifiche o una scadenza di cui tenere conto, ce lo faccia sapere.'
+    ],
+    inquiry: [
+      'Stiamo esaminando la sua richiesta e le invieremo le informazioni richieste entro 1-2 giorni lavorativi.',
+      'Se qualcosa è urgente, ce lo faccia sapere.'
+    ],
+    risk: [
+      'Prima di dare seguito a questa richiesta, dobbiamo confermarla tramite un canale di contatto già in nostro possesso. La contatteremo in quel modo.',
+      'Non modifichiamo dati di pagamento, non condividiamo credenziali e non concediamo accesso agli account sulla base di sole istruzioni ricevute via email.'
+    ]
+  },
+  closings: {
+    neutral: 'Resto a disposizione per qualsiasi ulteriore informazione.',
+    polite_firm: 'Per non perdere nulla, la preghiamo di proseguire la corrispondenza in questa conversazione.',
+    legal: 'Questo messaggio ha carattere puramente informativo e non costituisce accettazione di condizioni, ammissione di responsabilità né impegno vincolante. La preghiamo di non inviare password, numeri di carte di pagamento o altri dati sensibili via email.'
+  },
+  signOff: tone => tone === 'legal' ? 'Distinti saluti' : 'Cordiali saluti',
+  subjectPrefix: 'Re:',
+  untitled: 'Il suo messaggio'
+}
+
+const pt: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Prezado(a) ${name},` : 'Prezados senhores,'
+    return name ? `Olá, ${firstName(name)},` : 'Olá,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` sobre ${topic}` : ''
+    if (tone === 'legal') return `Confirmamos o recebimento da sua mensagem${about}.`
+    if (tone === 'polite_firm') return `Obrigado pela sua mensagem${about}.`
+    return `Obrigado por entrar em contato${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'Teremos prazer em ajudar. Para prepararmos uma proposta precisa, poderia nos informar:\n- Os seus requisitos específicos\n- O seu prazo de implementação\n- Eventuais considerações de orçamento',
+      'Também estou disponível para uma breve chamada esta semana, se for útil.'
+    ],
+    complaint: [
+      'Lamento o transtorno causado. Levamos isso a sério e queremos resolver rapidamente.',
+      'Poderia nos enviar números de pedido, datas ou capturas de tela que nos ajudem a investigar? Retornaremos assim que analisarmos os detalhes.'
+    ],
+    support_request: [
+      'A nossa equipe está analisando o problema que descreveu. Para nos ajudar a reproduzi-lo, envie os passos que levam ao problema, as mensagens de erro que aparecem e desde quando ocorre.',
+      'Manteremos você informado assim que tivermos mais informações.'
+    ],
+    negotiation: [
+      'Valorizamos a parceria com você e estamos analisando as condições que mencionou. A nossa equipe comercial retornará com opções em até dois dias úteis.',
+      'Se houver requisitos específicos ou um prazo que devamos considerar, por favor nos avise.'
+    ],
+    inquiry: [
+      'Estamos analisando a sua solicitação e enviaremos as informações pedidas em até 1-2 dias úteis.',
+      'Se algo for urgente, por favor nos avise.'
+    ],
+    risk: [
+      'Antes de atender a esta solicitação, precisamos confirmá-la por um canal de contato que já temos registrado. Entraremos em contato por esse meio.',
+      'Não alteramos dados de pagamento, não compartilhamos credenciais nem concedemos acesso a contas apenas com base em instruções recebidas por e-mail.'
+    ]
+  },
+  closings: {
+    neutral: 'Fico à disposição caso precise de mais informações.',
+    polite_firm: 'Para agilizar, por favor mantenha a correspondência nesta conversa para que nada se perca.',
+    legal: 'Esta mensagem tem caráter meramente informativo e não constitui aceitação de condições, reconhecimento de responsabilidade ou compromisso vinculativo. Por favor, não envie senhas, números de cartão de pagamento ou outros dados sensíveis por e-mail.'
+  },
+  signOff: tone => tone === 'legal' ? 'Atenciosamente' : 'Cordialmente',
+  subjectPrefix: 'Re:',
+  untitled: 'Sua mensagem'
+}
+
+const nl: ReplyTemplate = {
+  greeting: (tone, name) => {
+    if (tone === 'legal') return name ? `Geachte ${name},` : 'Geachte heer, mevrouw,'
+    return name ? `Beste ${firstName(name)},` : 'Goedendag,'
+  },
+  opening: (tone, topic) => {
+    const about = topic ? ` over ${topic}` : ''
+    if (tone === 'legal') return `Wij bevestigen de ontvangst van uw bericht${about}.`
+    if (tone === 'polite_firm') return `Hartelijk dank voor uw bericht${about}.`
+    return `Bedankt voor uw bericht${about}.`
+  },
+  paragraphs: {
+    sales_lead: [
+      'Wij helpen u graag verder. Om een nauwkeurig voorstel te maken, kunt u ons het volgende laten weten:\n- Uw specifieke wensen\n- Uw planning voor de implementatie\n- Eventuele budgettaire overwegingen',
+      'Ik ben deze week ook beschikbaar voor een kort gesprek als dat handig is.'
+    ],
+    complaint: [
+      'Het spijt me voor het ongemak dat dit heeft veroorzaakt. Wij nemen dit serieus en willen het snel oplossen.',
+      'Kunt u ordernummers, data of schermafbeeldingen sturen die ons helpen het te onderzoeken? Wij nemen contact met u op zodra wij de details hebben bekeken.'
+    ],
+    support_request: [
+      'Ons team onderzoekt het probleem dat u beschrijft. Om het te kunnen reproduceren, vragen wij u de stappen te sturen die tot het probleem leiden, eventuele foutmeldingen en sinds wanneer het zich voordoet.',
+      'Wij houden u op de hoogte zodra wij meer weten.'
+    ],
+    negotiation: [
+      'Wij waarderen de samenwerking en bekijken de voorwaarden die u noemt. Ons accountteam komt binnen twee werkdagen bij u terug met opties.',
+      'Als er specifieke eisen of een deadline zijn waar wij rekening mee moeten houden, laat het ons dan weten.'
+    ],
+    inquiry: [
+      'Wij bekijken uw verzoek en sturen u de gevraagde informatie binnen 1-2 werkdagen.',
+      'Als iets dringend is, laat het ons dan weten.'
+    ],
+    risk: [
+      'Voordat wij op dit verzoek ingaan, moeten wij het bevestigen via een contactkanaal dat al bij ons bekend is. Wij nemen langs die weg contact met u op.',
+      'Wij wijzigen geen betaalgegevens, delen geen inloggegevens en verlenen geen toegang tot accounts op basis van alleen instructies per e-mail.'
+    ]
+  },
+  closings: {
+    neutral: 'Laat het me gerust weten als u aanvullende informatie nodig heeft.',
+    polite_firm: 'Om alles overzichtelijk te houden, verzoeken wij u verdere correspondentie in dit gesprek te voeren.',
+    legal: 'Dit bericht is uitsluitend informatief en vormt geen aanvaarding van voorwaarden, erkenning van aansprakelijkheid of bindende toezegging. Stuur geen wachtwoorden, betaalkaartnummers of andere gevoelige gegevens per e-mail.'
+  },
+  signOff: tone => tone === 'legal' ? 'Hoogachtend' : 'Met vriendelijke groet',
+  subjectPrefix: 'Re:',
+  untitled: 'Uw bericht'
+}
+
+export const REPLY_TEMPLATES: Record<Language, ReplyTemplate> = { en, es, de, fr, it, pt, nl }
@@ -0,0 +1,13 @@
+export const ROLES = ['viewer', 'analyst', 'admin'] as const
+
+export type Role = typeof ROLES[number]
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: 'Can read history, queues, rules and the profile',
+  analyst: 'Can also analyze messages, review cases and work queues',
+  admin: 'Can also change the profile, rules, providers, members and API keys'
+}
+
+export function hasRole(role: Role, minimum: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum)
+}
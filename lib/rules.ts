@@ -0,0 +1,223 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import defaultRuleSet from '../config/rules.json'
+
+export type RuleCategory = 'fraud' | 'sales' | 'complaint' | 'support' | 'negotiation' | 'lead'
+
+export interface LocalizedTerms {
+  keywords?: string[]
+  negations?: string[]
+}
+
+export interface RuleDefinition {
+  id: string
+  category: RuleCategory
+  description: string
+  weight: number
+  keywords?: string[]
+  patterns?: string[]
+  negations?: string[]
+  localized?: Record<string, LocalizedTerms>
+  feature?: string
+  requires?: string[]
+  minLength?: number
+}
+
+export type IntentCategory = 'sales' | 'complaint' | 'support' | 'negotiation'
+
+export interface RuleSet {
+  version: number
+  thresholds: {
+    risk: Record<'Suspicious' | 'High Risk Fraud', number>
+    intent: Record<IntentCategory, number>
+  }
+  lead: {
+    base: number
+    max: number
+  }
+  rules: RuleDefinition[]
+}
+
+export interface RuleSignal {
+  ruleId: string
+  category: RuleCategory
+  description: string
+  score: number
+  matches: string[]
+}
+
+export interface RuleEvaluation {
+  signals: RuleSignal[]
+  scores: Record<RuleCategory, number>
+}
+
+/**
+ * The rule keywords always apply. Localized keywords only apply for the
+ * languages given, so short words in one language can't fire on another.
+ */
+export interface RuleInput {
+  text: string
+  features?: Record<string, number>
+  languages?: string[]
+}
+
+interface CompiledTerms {
+  matchers: RegExp[]
+  negationMatchers: RegExp[]
+}
+
+interface CompiledRule extends RuleDefinition, CompiledTerms {
+  localizedMatchers: Record<string, CompiledTerms>
+}
+
+const CATEGORIES: RuleCategory[] = ['fraud', 'sales', 'complaint', 'support', 'negotiation', 'lead']
+
+const DEFAULT_INTENT_THRESHOLDS: Record<IntentCategory, number> = { sales: 2, complaint: 2, support: 2, negotiation: 2 }
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function wordPattern(keyword: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, 'iu')
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+export function validateRuleSet(raw: unknown): RuleSet {
+  const candidate = raw as Partial<RuleSet> | null
+  if (!candidate || typeof candidate !== 'object') throw new Error('Invalid rule set: expected an object')
+  if (!candidate.thresholds?.risk || !candidate.thresholds?.intent) throw new Error('Invalid rule set: thresholds.risk and thresholds.intent are required')
+  if (!Array.isArray(candidate.rules)) throw new Error('Invalid rule set: rules must be an array')
+
+  const ids = new Set<string>()
+  for (const rule of candidate.rules) {
+    if (!rule || typeof rule.id !== 'string') throw new Error('Invalid rule set: every rule needs an id')
+    if (ids.has(rule.id)) throw new Error(`Invalid rule set: duplicate rule id "${rule.id}"`)
+    ids.add(rule.id)
+    if (!CATEGORIES.includes(rule.category)) throw new Error(`Invalid rule "${rule.id}": unknown category "${rule.category}"`)
+    if (typeof rule.weight !== 'number') throw new Error(`Invalid rule "${rule.id}": weight must be a number`)
+    for (const key of ['keywords', 'patterns', 'negations', 'requires'] as const) {
+      if (rule[key] !== undefined && !isStringArray(rule[key])) throw new Error(`Invalid rule "${rule.id}": ${key} must be a list of strings`)
+    }
+    if (rule.localized !== undefined) {
+      if (!rule.localized || typeof rule.localized !== 'object' || Array.isArray(rule.localized)) {
+        throw new Error(`Invalid rule "${rule.id}": localized must map language codes to keywords and negations`)
+      }
+      for (const [language, terms] of Object.entries(rule.localized)) {
+        if (!terms || !(['keywords', 'negations'] as const).every(key => terms[key] === undefined || isStringArray(terms[key]))) {
+          throw new Error(`Invalid rule "${rule.id}": localized.${language} keywords and negations must be lists of strings`)
+        }
+      }
+    }
+    for (const pattern of [...(rule.patterns || [])]) {
+      try {
+        new RegExp(pattern, 'iu')
+      } catch {
+        throw new Error(`Invalid rule "${rule.id}": bad pattern ${pattern}`)
+      }
+    }
+  }
+
+  for (const rule of candidate.rules) {
+    const missing = (rule.requires || []).find(id => !ids.has(id))
+    if (missing) throw new Error(`Invalid rule "${rule.id}": requires unknown rule "${missing}"`)
+  }
+
+  return {
+    version: candidate.version ?? 1,
+    thresholds: {
+      risk: candidate.thresholds.risk,
+      intent: { ...DEFAULT_INTENT_THRESHOLDS, ...candidate.thresholds.intent }
+    },
+    lead: candidate.lead ?? { base: 5, max: 10 },
+    rules: candidate.rules
+  }
+}
+
+function compile(ruleSet: RuleSet): CompiledRule[] {
+  return ruleSet.rules.map(rule => ({
+    ...rule,
+    matchers: [
+      ...(rule.keywords || []).map(wordPattern),
+      ...(rule.patterns || []).map(pattern => new RegExp(pattern, 'iu'))
+    ],
+    negationMatchers: (rule.negations || []).map(wordPattern),
+    localizedMatchers: Object.fromEntries(Object.entries(rule.localized || {}).map(([language, terms]) => [language, {
+      matchers: (terms.keywords || []).map(wordPattern),
+      negationMatchers: (terms.negations || []).map(wordPattern)
+    }]))
+  }))
+}
+
+let cached: { file: string, mtimeMs: number, ruleSet: RuleSet, compiled: CompiledRule[] } | null = null
+
+function rulesFilePath(): string {
+  return process.env.RULES_FILE || path.join(process.cwd(), 'config', 'rules.json')
+}
+
+export function loadRuleSet(): { ruleSet: RuleSet, compiled: CompiledRule[] } {
+  const file = rulesFilePath()
+
+  try {
+    const { mtimeMs } = fs.statSync(file)
+    if (cached && cached.file === file && cached.mtimeMs === mtimeMs) return cached
+
+    const content = fs.readFileSync(file, 'utf8')
+    const raw = /\.ya?ml$/i.test(file) ? YAML.parse(content) : JSON.parse(content)
+    const ruleSet = validateRuleSet(raw)
+    cached = { file, mtimeMs, ruleSet, compiled: compile(ruleSet) }
+    return cached
+  } catch (error) {
+    console.error(`Failed to load rules from ${file}, using built-in defaults:`, error)
+    const ruleSet = validateRuleSet(defaultRuleSet)
+    return { ruleSet, compiled: compile(ruleSet) }
+  }
+}
+
+export function evaluateRules(compiled: CompiledRule[], input: RuleInput): RuleEvaluation {
+  const fired = new Map<string, RuleSignal>()
+  const features = input.features || {}
+  const languages = input.languages || []
+
+  for (const rule of compiled) {
+    if (rule.requires) continue
+    const localized = languages.flatMap(language => rule.localizedMatchers[language] || [])
+    const negationMatchers = [...rule.negationMatchers, ...localized.flatMap(terms => terms.negationMatchers)]
+    if (negationMatchers.some(matcher => matcher.test(input.text))) continue
+
+    const matchers = [...rule.matchers, ...localized.flatMap(terms => terms.matchers)]
+    const matches: string[] = []
+    for (const matcher of matchers) {
+      const match = input.text.match(matcher)
+      if (match) matches.push(match[0])
+    }
+    if (rule.feature && (features[rule.feature] || 0) > 0) {
+      matches.push(`${rule.feature} × ${features[rule.feature]}`)
+    }
+    if (rule.minLength !== undefined && input.text.length >= rule.minLength) {
+      matches.push(`${input.text.length} characters`)
+    }
+
+    const hasCondition = matchers.length > 0 || rule.feature || rule.minLength !== undefined
+    if (hasCondition && matches.length > 0) {
+      fired.set(rule.id, { ruleId: rule.id, category: rule.category, description: rule.description, score: rule.weight, matches })
+    }
+  }
+
+  for (const rule of compiled) {
+    if (!rule.requires || !rule.requires.every(id => fired.has(id))) continue
+    fired.set(rule.id, { ruleId: rule.id, category: rule.category, description: rule.description, score: rule.weight, matches: rule.requires })
+  }
+
+  const signals = Array.from(fired.values()).sort((a, b) => b.score - a.score)
+  const scores = Object.fromEntries(CATEGORIES.map(category => [
+    category,
+    signals.filter(signal => signal.category === category).reduce((total, signal) => total + signal.score, 0)
+  ])) as Record<RuleCategory, number>
+
+  return { signals, scores }
+}
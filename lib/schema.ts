@@ -0,0 +1,296 @@
+import type { EmailSummary, HeaderSignal } from './email'
+import type { AttachmentFinding } from './attachments'
+import type { AutomationFiring } from './automation'
+import type { ClassifierVerdict } from './classifier'
+import type { DuplicateSummary } from './duplicates'
+import type { LinkFinding } from './links'
+import type { PaymentEntities } from './payments'
+import type { RedactionSummary } from './redaction'
+import type { RuleSignal } from './rules'
+import type { ThreadSummary } from './thread'
+
+export const RISK_LEVELS = ['Safe', 'Suspicious', 'High Risk Fraud'] as const
+
+export type RiskLevel = typeof RISK_LEVELS[number]
+
+export const INTENTS = ['inquiry', 'sales_lead', 'complaint', 'support_request', 'negotiation', 'risk'] as const
+
+export type Intent = typeof INTENTS[number]
+
+export type IntentScores = Record<Intent, number>
+
+export interface IntentClassification {
+  primary: Intent
+  scores: IntentScores
+}
+
+export const REPLY_TONES = ['neutral', 'polite_firm', 'legal'] as const
+
+export type ReplyTone = typeof REPLY_TONES[number]
+
+export const REPLY_TONE_LABELS: Record<ReplyTone, string> = {
+  neutral: 'Neutral',
+  polite_firm: 'Polite & Firm',
+  legal: 'Legal / Compliance-safe'
+}
+
+export interface ReplyDraft {
+  tone: ReplyTone
+  subject: string
+  body: string
+}
+
+export type ParseStatus = 'valid' | 'repaired' | 'degraded'
+
+export interface AnalysisFields {
+  riskLevel: RiskLevel
+  intent: IntentClassification
+  reason: string
+  businessImpact: string
+  recommendedAction: string
+  replies: ReplyDraft[]
+  leadQualityScore: number
+  businessInsight: string
+}
+
+export interface AnalysisUsage {
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+  estimated?: boolean
+}
+
+export interface AnalysisResult extends AnalysisFields {
+  parseStatus: ParseStatus
+  parseErrors?: string[]
+  headerSignals?: HeaderSignal[]
+  profileSignals?: HeaderSignal[]
+  injectionSignals?: HeaderSignal[]
+  links?: LinkFinding[]
+  attachments?: AttachmentFinding[]
+  entities?: PaymentEntities
+  paymentSignals?: HeaderSignal[]
+  signals?: RuleSignal[]
+  email?: EmailSummary
+  thread?: ThreadSummary
+  language?: string
+  redaction?: RedactionSummary
+  provider?: string
+  model?: string
+  usage?: AnalysisUsage
+  budgetExceeded?: 'daily' | 'monthly'
+  duplicates?: DuplicateSummary
+  classifier?: ClassifierVerdict
+  historyId?: string
+  automations?: AutomationFiring[]
+}
+
+const REQUIRED_TEXT_FIELDS = ['reason', 'businessImpact', 'recommendedAction', 'businessInsight'] as const
+
+export const REPLY_DRAFT_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['tone', 'subject', 'body'],
+  properties: {
+    tone: { type: 'string', enum: [...REPLY_TONES] },
+    subject: { type: 'string', description: 'Subject line of the reply' },
+    body: { type: 'string', description: 'Complete reply text without placeholders' }
+  }
+} as const
+
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['riskLevel', 'intent', 'reason', 'businessImpact', 'recommendedAction', 'replies', 'leadQualityScore', 'businessInsight'],
+  properties: {
+    riskLevel: { type: 'string', enum: [...RISK_LEVELS] },
+    intent: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['primary', 'scores'],
+      properties: {
+        primary: { type: 'string', enum: [...INTENTS] },
+        scores: {
+          type: 'object',
+          additionalProperties: false,
+          required: [...INTENTS],
+          description: 'Independent confidence from 0 to 1 for each intent; several can be high at once',
+          properties: Object.fromEntries(INTENTS.map(intent => [intent, { type: 'number', minimum: 0, maximum: 1 }]))
+        }
+      }
+    },
+    reason: { type: 'string', description: 'Detailed explanation of risk assessment' },
+    businessImpact: { type: 'string', description: 'Explanation of potential business impact' },
+    recommendedAction: { type: 'string', description: 'Clear action steps for the business' },
+    replies: {
+      type: 'array',
+      description: 'Reply drafts, one per useful tone; empty when no reply should be sent',
+      items: REPLY_DRAFT_JSON_SCHEMA
+    },
+    leadQualityScore: { type: 'integer', minimum: 0, maximum: 10, description: '1-10 for sales leads, otherwise 0' },
+    businessInsight: { type: 'string', description: 'Strategic insight or key takeaway' }
+  }
+} as const
+
+export type ValidationOutcome =
+  | { valid: true, value: AnalysisFields }
+  | { valid: false, errors: string[] }
+
+function replyDraftErrors(input: unknown): string[] {
+  if (!input || typeof input !== 'object') return ['reply must be an object']
+  const reply = input as Record<string, unknown>
+  const errors: string[] = []
+  if (!REPLY_TONES.includes(reply.tone as ReplyTone)) errors.push(`tone must be one of ${REPLY_TONES.join(', ')} (got ${JSON.stringify(reply.tone)})`)
+  if (typeof reply.subject !== 'string') errors.push('subject must be a string')
+  if (typeof reply.body !== 'string' || !reply.body.trim()) errors.push('body must be a non-empty string')
+  return errors
+}
+
+export function validateReplyDraft(input: unknown): { valid: true, value: ReplyDraft } | { valid: false, errors: string[] } {
+  const errors = replyDraftErrors(input)
+  if (errors.length > 0) return { valid: false, errors }
+  const { tone, subject, body } = input as ReplyDraft
+  return { valid: true, value: { tone, subject, body } }
+}
+
+export function validateAnalysisFields(input: unknown): ValidationOutcome {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Expected a JSON object'] }
+  }
+
+  const value = input as Record<string, unknown>
+  const errors: string[] = []
+
+  if (!RISK_LEVELS.includes(value.riskLevel as RiskLevel)) {
+    errors.push(`riskLevel must be one of ${RISK_LEVELS.join(', ')} (got ${JSON.stringify(value.riskLevel)})`)
+  }
+  const intent = value.intent as Partial<IntentClassification> | undefined
+  if (!intent || typeof intent !== 'object') {
+    errors.push('intent must be an object with primary and scores')
+  } else {
+    if (!INTENTS.includes(intent.primary as Intent)) {
+      errors.push(`intent.primary must be one of ${INTENTS.join(', ')} (got ${JSON.stringify(intent.primary)})`)
+    }
+    for (const label of INTENTS) {
+      const score = intent.scores?.[label]
+      if (typeof score !== 'number' || score < 0 || score > 1) {
+        errors.push(`intent.scores.${label} must be a number from 0 to 1 (got ${JSON.stringify(score)})`)
+      }
+    }
+  }
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    if (typeof value[field] !== 'string' || !(value[field] as string).trim()) {
+      errors.push(`${field} must be a non-empty string`)
+    }
+  }
+  if (!Array.isArray(value.replies)) {
+    errors.push('replies must be an array')
+  } else {
+    value.replies.forEach((reply, index) => {
+      errors.push(...replyDraftErrors(reply).map(error => `replies[${index}].${error}`))
+    })
+  }
+  const score = value.leadQualityScore
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 10) {
+    errors.push(`leadQualityScore must be an integer from 0 to 10 (got ${JSON.stringify(score)})`)
+  }
+
+  if (errors.length > 0) return { valid: false, errors }
+
+  const { primary, scores } = intent as IntentClassification
+  return {
+    valid: true,
+    value: {
+      riskLevel: value.riskLevel as RiskLevel,
+      intent: { primary, scores: Object.fromEntries(INTENTS.map(label => [label, scores[label]])) as IntentScores },
+      reason: value.reason as string,
+      businessImpact: value.businessImpact as string,
+      recommendedAction: value.recommendedAction as string,
+      replies: (value.replies as ReplyDraft[]).map(({ tone, subject, body }) => ({ tone, subject, body })),
+      leadQualityScore: score as number,
+      businessInsight: value.businessInsight as string
+    }
+  }
+}
+
+function coerceRiskLevel(value: unknown): RiskLevel {
+  const text = String(value ?? '').toLowerCase()
+  if (text.includes('high') || text.includes('fraud')) return 'High Risk Fraud'
+  if (text.includes('suspicious') || text.includes('medium')) return 'Suspicious'
+  if (text.includes('safe') || text.includes('low')) return 'Safe'
+  return 'Suspicious'
+}
+
+export function emptyIntentScores(): IntentScores {
+  return Object.fromEntries(INTENTS.map(intent => [intent, 0])) as IntentScores
+}
+
+function coerceIntentLabel(value: unknown): Intent | undefined {
+  const text = String(value ?? '').toLowerCase().replace(/[\s-]+/g, '_')
+  return INTENTS.find(intent => text.includes(intent) || text.includes(intent.split('_')[0]))
+}
+
+function coerceIntent(value: unknown, riskLevel: RiskLevel): IntentClassification {
+  const raw = value && typeof value === 'object' ? value as { primary?: unknown, scores?: Record<string, unknown> } : { primary: value }
+  const scores = emptyIntentScores()
+
+  for (const intent of INTENTS) {
+    const score = Number(raw.scores?.[intent])
+    if (Number.isFinite(score)) scores[intent] = Math.min(Math.max(score, 0), 1)
+  }
+
+  const primary = coerceIntentLabel(raw.primary) || (riskLevel === 'Safe' ? 'inquiry' : 'risk')
+  scores[primary] = Math.max(scores[primary], 0.5)
+
+  return { primary, scores }
+}
+
+function coerceReplies(value: unknown): ReplyDraft[] {
+  if (typeof value === 'string' && value.trim()) return [{ tone: 'neutral', subject: '', body: value }]
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap(item => {
+    if (typeof item === 'string') return item.trim() ? [{ tone: 'neutral' as const, subject: '', body: item }] : []
+    const reply = (item || {}) as Record<string, unknown>
+    if (typeof reply.body !== 'string' || !reply.body.trim()) return []
+    const tone = REPLY_TONES.find(candidate => String(reply.tone).toLowerCase().replace(/[^a-z]+/g, '_').includes(candidate.split('_')[0])) || 'neutral'
+    return [{ tone, subject: typeof reply.subject === 'string' ? reply.subject : '', body: reply.body }]
+  })
+}
+
+/**
+ * Best-effort normalization of output that failed validation. Unknown risk
+ * levels become Suspicious so a degraded result never reads as Safe by accident.
+ */
+export function coerceAnalysisFields(input: Record<string, unknown>): AnalysisFields {
+  const riskLevel = coerceRiskLevel(input.riskLevel)
+  const score = parseInt(String(input.leadQualityScore ?? 0))
+  const text = (value: unknown, fallback: string) => typeof value === 'string' && value.trim() ? value : fallback
+
+  return {
+    riskLevel,
+    intent: coerceIntent(input.intent, riskLevel),
+    reason: text(input.reason, 'No reason provided'),
+    businessImpact: text(input.businessImpact, 'No impact assessment provided'),
+    recommendedAction: text(input.recommendedAction, 'No action recommended'),
+    replies: coerceReplies(input.replies ?? input.suggestedReply),
+    leadQualityScore: Number.isFinite(score) ? Math.min(Math.max(score, 0), 10) : 0,
+    businessInsight: text(input.businessInsight, 'No insight provided')
+  }
+}
+
+export function extractJsonObject(text: string): Record<string, unknown> | undefined {
+  const candidates = [text.trim(), text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1], text.match(/\{[\s\S]*\}/)?.[0]]
+
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      const parsed = JSON.parse(candidate)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+    } catch {
+      // try the next candidate
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,176 @@
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { encodeHeader } from './eml'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+  timeoutMs: number
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+}
+
+export class SmtpError extends Error {}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+export function smtpConfigFromEnv(): SmtpConfig | undefined {
+  const host = process.env.SMTP_HOST
+  if (!host) return undefined
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587')),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER || `alerts@${os.hostname()}`,
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '30000')
+  }
+}
+
+/**
+ * One SMTP session over a plain or TLS socket. Replies are read line by line;
+ * "250-" continues a multi-line reply and "250 " ends it.
+ */
+class SmtpConnection {
+  private buffer = ''
+  private waiting?: () => void
+  private failure?: Error
+
+  constructor(readonly socket: net.Socket, timeoutMs: number) {
+    socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError('SMTP server timed out')))
+    socket.on('data', chunk => {
+      this.buffer += chunk.toString('utf8')
+      this.wake()
+    })
+    socket.on('error', error => {
+      this.failure = error
+      this.wake()
+    })
+    socket.on('close', () => {
+      this.failure = this.failure || new SmtpError('SMTP connection closed')
+      this.wake()
+    })
+  }
+
+  private wake() {
+    const waiting = this.waiting
+    this.waiting = undefined
+    waiting?.()
+  }
+
+  async read(): Promise<SmtpReply> {
+    const lines: string[] = []
+
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n')
+      if (end === -1) {
+        if (this.failure) throw this.failure
+        await new Promise<void>(resolve => { this.waiting = resolve })
+        continue
+      }
+
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      lines.push(line.slice(4))
+      if (line[3] !== '-') return { code: parseInt(line.slice(0, 3)), lines }
+    }
+  }
+
+  async send(command: string, expected: number, label = command.split(/[\s:]/)[0]): Promise<SmtpReply> {
+    this.socket.write(`${command}\r\n`)
+    const reply = await this.read()
+    if (reply.code !== expected) throw new SmtpError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    return reply
+  }
+}
+
+async function connect(config: SmtpConfig): Promise<net.Socket> {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port })
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once(config.secure ? 'secureConnect' : 'connect', resolve)
+    socket.once('error', reject)
+  })
+  return socket
+}
+
+async function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  socket.removeAllListeners('data')
+  socket.removeAllListeners('close')
+  const secured = tls.connect({ socket, servername: host })
+  await new Promise<void>((resolve, reject) => {
+    secured.once('secureConnect', resolve)
+    secured.once('error', reject)
+  })
+  return secured
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${from.split('@').pop()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit'
+  ]
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+}
+
+/**
+ * Sends a plain-text message, upgrading with STARTTLS when the server offers
+ * it and authenticating with AUTH PLAIN when credentials are configured.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let connection = new SmtpConnection(await connect(config), config.timeoutMs)
+
+  try {
+    const greeting = await connection.read()
+    if (greeting.code !== 220) throw new SmtpError(`Unexpected SMTP greeting: ${greeting.code} ${greeting.lines.join(' ')}`)
+
+    const hostname = os.hostname()
+    let capabilities = await connection.send(`EHLO ${hostname}`, 250)
+
+    if (!config.secure && capabilities.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.send('STARTTLS', 220)
+      connection = new SmtpConnection(await upgrade(connection.socket, config.host), config.timeoutMs)
+      capabilities = await connection.send(`EHLO ${hostname}`, 250)
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64')
+      await connection.send(`AUTH PLAIN ${credentials}`, 235, 'AUTH')
+    }
+
+    await connection.send(`MAIL FROM:<${config.from}>`, 250)
+    for (const recipient of message.to) {
+      await connection.send(`RCPT TO:<${recipient}>`, 250)
+    }
+    await connection.send('DATA', 354)
+    await connection.send(`${formatMessage(config.from, message)}\r\n.`, 250, 'DATA')
+    await connection.send('QUIT', 221).catch(() => undefined)
+  } finally {
+    connection.socket.destroy()
+  }
+}
@@ -0,0 +1,40 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+
+    let boundary: number
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const parsed = parseBlock(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (parsed) yield parsed
+    }
+  }
+
+  const parsed = parseBlock(buffer)
+  if (parsed) yield parsed
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+export function dataDirectory(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data')
+}
+
+export const DEFAULT_WORKSPACE_ID = 'default'
+
+const WORKSPACE_ID = /^[a-z0-9-]{1,64}$/
+
+/**
+ * The default workspace keeps the original top-level files, so data written
+ * before workspaces existed stays where it is.
+ */
+export function workspaceDirectory(workspaceId: string): string {
+  if (!WORKSPACE_ID.test(workspaceId)) throw new Error(`Invalid workspace id "${workspaceId}"`)
+  if (workspaceId === DEFAULT_WORKSPACE_ID) return dataDirectory()
+  return path.join(dataDirectory(), 'workspaces', workspaceId)
+}
+
+export function generateId(): string {
+  return randomUUID()
+}
+
+/**
+ * A small embedded document store: each collection is one JSON file in the
+ * data directory, cached in memory and rewritten atomically on every change.
+ */
+export class JsonCollection<T extends { id: string }> {
+  private records: T[] | null = null
+  // Shared by concurrent first reads, so they all get the same array.
+  private loading: Promise<T[]> | null = null
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private readonly name: string, private readonly directory: () => string = dataDirectory) {}
+
+  private get file(): string {
+    return path.join(this.directory(), `${this.name}.json`)
+  }
+
+  private load(): Promise<T[]> {
+    if (this.records) return Promise.resolve(this.records)
+    if (!this.loading) {
+      this.loading = this.read()
+        .then(records => this.records = records)
+        .finally(() => { this.loading = null })
+    }
+    return this.loading
+  }
+
+  private async read(): Promise<T[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf8')) as T[]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return []
+    }
+  }
+
+  /**
+   * Writes run one after another in call order, each with the records as
+   * they were when it was queued. A failed write doesn't stop later ones.
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.records, null, 2)
+    const write = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.directory(), { recursive: true })
+      const temporary = `${this.file}.${process.pid}.tmp`
+      await fs.writeFile(temporary, snapshot)
+      await fs.rename(temporary, this.file)
+    })
+    this.writeQueue = write
+    return write
+  }
+
+  async all(): Promise<T[]> {
+    return [...await this.load()]
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return (await this.load()).find(record => record.id === id)
+  }
+
+  async insert(record: T): Promise<T> {
+    const records = await this.load()
+    records.push(record)
+    await this.persist()
+    return record
+  }
+
+  async update(id: string, patch: Partial<T>): Promise<T | undefined> {
+    const records = await this.load()
+    const index = records.findIndex(record => record.id === id)
+    if (index === -1) return undefined
+
+    records[index] = { ...records[index], ...patch, id }
+    await this.persist()
+    return records[index]
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const records = await this.load()
+    const index = records.findIndex(record => record.id === id)
+    if (index === -1) return false
+
+    records.splice(index, 1)
+    await this.persist()
+    return true
+  }
+}
+
+/**
+ * The same collection kept separately for every workspace.
+ */
+export class WorkspaceCollection<T extends { id: string }> {
+  private readonly collections = new Map<string, JsonCollection<T>>()
+
+  constructor(private readonly name: string) {}
+
+  in(workspaceId: string): JsonCollection<T> {
+    let collection = this.collections.get(workspaceId)
+    if (!collection) {
+      workspaceDirectory(workspaceId) // rejects malformed ids before anything is cached
+      collection = new JsonCollection<T>(this.name, () => workspaceDirectory(workspaceId))
+      this.collections.set(workspaceId, collection)
+    }
+    return collection
+  }
+}
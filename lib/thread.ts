@@ -0,0 +1,244 @@
+import {
+  detectHeaderSignals,
+  domainOf,
+  emailBodyText,
+  EmailAddress,
+  HeaderSignal,
+  parseAddress,
+  parseRawEmail,
+  registrableDomain,
+  SignalSeverity
+} from './email'
+import { imitatesDomain } from './links'
+import type { RiskLevel } from './schema'
+
+export interface ThreadMessage {
+  index: number
+  sender: string
+  from?: EmailAddress
+  replyTo?: string
+  timestamp?: string
+  subject?: string
+  body: string
+  html: string
+  headerSignals: HeaderSignal[]
+}
+
+export type ThreadChangeType =
+  | 'payment-details-changed'
+  | 'reply-to-changed'
+  | 'sender-address-changed'
+  | 'lookalike-participant'
+  | 'new-participant'
+  | 'urgency-escalation'
+
+export interface ThreadChange {
+  type: ThreadChangeType
+  severity: SignalSeverity
+  messageIndex: number
+  description: string
+}
+
+export interface ThreadMessageSummary {
+  index: number
+  sender: string
+  timestamp?: string
+  subject?: string
+  preview: string
+  riskLevel: RiskLevel
+  fraudScore: number
+  language?: string
+}
+
+export interface ThreadSummary {
+  messages: ThreadMessageSummary[]
+  changes: ThreadChange[]
+  riskIntroducedAt?: number
+}
+
+export interface ThreadHeaderOptions {
+  executiveNames?: string[]
+  companyDomains?: string[]
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function normalizeTimestamp(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? value : new Date(time).toISOString()
+}
+
+/**
+ * Accepts either `{ sender, timestamp, message, replyTo? }` or `{ rawEmail }`
+ * and returns undefined when the item has no message text.
+ */
+export function parseThreadMessage(input: unknown, index: number, options: ThreadHeaderOptions): ThreadMessage | undefined {
+  if (!input || typeof input !== 'object') return undefined
+  const item = input as Record<string, unknown>
+  const rawEmail = optionalString(item.rawEmail)
+
+  if (rawEmail) {
+    const parsed = parseRawEmail(rawEmail)
+    const body = emailBodyText(parsed)
+    if (!body.trim()) return undefined
+    return {
+      index,
+      sender: parsed.from ? `${parsed.from.name ? `${parsed.from.name} ` : ''}<${parsed.from.address}>` : optionalString(item.sender) || 'Unknown sender',
+      from: parsed.from,
+      replyTo: parsed.replyTo?.address,
+      timestamp: normalizeTimestamp(parsed.date || optionalString(item.timestamp)),
+      subject: parsed.subject || undefined,
+      body,
+      html: parsed.html,
+      headerSignals: detectHeaderSignals(parsed, options)
+    }
+  }
+
+  const body = optionalString(item.message)
+  if (!body) return undefined
+  const sender = optionalString(item.sender) || optionalString(item.senderInfo) || 'Unknown sender'
+  const from = parseAddress(sender)
+
+  return {
+    index,
+    sender,
+    from: from || { name: sender, address: '' },
+    replyTo: parseAddress(optionalString(item.replyTo))?.address,
+    timestamp: normalizeTimestamp(optionalString(item.timestamp)),
+    subject: optionalString(item.subject),
+    body,
+    html: '',
+    headerSignals: []
+  }
+}
+
+export function formatThread(messages: ThreadMessage[]): string {
+  return messages.map(message => [
+    `[Message ${message.index + 1}] From: ${message.sender}`,
+    message.replyTo && `Reply-To: ${message.replyTo}`,
+    message.timestamp && `Sent: ${message.timestamp}`,
+    message.subject && `Subject: ${message.subject}`,
+    '',
+    message.body.trim()
+  ].filter(line => line !== undefined).join('\n')).join('\n\n---\n\n')
+}
+
+export const PAYMENT_CHANGE = /\b(?:new|updated|changed?|different|alternative)\s+(?:bank(?:ing)?\s+(?:details|account|information)|account\s+(?:details|number)|payment\s+(?:details|instructions|information))\b|\bchanged?\s+(?:our|my)\s+bank/i
+
+const PAYMENT_IDENTIFIERS = [
+  /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  /\b(?:account|acct)(?: (?:number|no\.?|#))?[:\s]+(\d[\d -]{4,20}\d)/gi,
+  /\bsort code[:\s]+(\d{2}-?\d{2}-?\d{2})/gi,
+  /\b(?:routing|aba)(?: number)?[:\s]+(\d{9})\b/gi
+]
+
+export function paymentIdentifiers(text: string): string[] {
+  const identifiers = new Set<string>()
+  for (const pattern of PAYMENT_IDENTIFIERS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      identifiers.add((match[1] || match[0]).replace(/[\s-]/g, '').toUpperCase())
+    }
+  }
+  return Array.from(identifiers)
+}
+
+/**
+ * Compares each message with everything before it. The first two distinct
+ * senders are treated as the original parties; anyone after them is a new
+ * participant. `pressureScores` are the per-message fraud scores from the text
+ * alone, used to spot escalation.
+ */
+export function detectThreadChanges(messages: ThreadMessage[], pressureScores: number[], suspiciousThreshold: number): ThreadChange[] {
+  const changes: ThreadChange[] = []
+  const participants = new Set<string>()
+  const addresses = new Map<string, string>()
+  const namesToAddress = new Map<string, string>()
+  const replyTos = new Set<string>()
+  const knownPayments = new Set<string>()
+  let peakPressure = 0
+
+  messages.forEach((message, index) => {
+    const address = message.from?.address || ''
+    const name = (message.from?.name || '').toLowerCase().trim()
+    const identity = address || name
+    const add = (type: ThreadChangeType, severity: SignalSeverity, description: string) => {
+      changes.push({ type, severity, messageIndex: index, description: `Message ${index + 1}: ${description}` })
+    }
+
+    if (index > 0) {
+      if (identity && !participants.has(identity)) {
+        const previousAddress = address && name ? namesToAddress.get(name) : undefined
+        const imitated = address && Array.from(addresses.keys()).find(known => imitatesDomain(domainOf(address), registrableDomain(domainOf(known))))
+        if (previousAddress) {
+          add('sender-address-changed', 'high', `${message.from?.name} now writes from ${address} instead of ${previousAddress}.`)
+        } else if (imitated) {
+          add('lookalike-participant', 'high', `New participant ${address} uses a domain that imitates ${domainOf(imitated)} from earlier in the thread.`)
+        } else if (participants.size >= 2) {
+          add('new-participant', 'low', `${message.sender} joins the conversation partway through.`)
+        }
+      }
+
+      if (message.replyTo && message.replyTo !== address && !replyTos.has(message.replyTo) && !addresses.has(message.replyTo)) {
+        const otherDomain = registrableDomain(domainOf(message.replyTo)) !== registrableDomain(domainOf(address))
+        add('reply-to-changed', otherDomain ? 'high' : 'medium', `Replies are redirected to ${message.replyTo}, an address not used earlier in the thread.`)
+      }
+
+      const payments = paymentIdentifiers(message.body)
+      const newPayments = payments.filter(payment => !knownPayments.has(payment))
+      if (knownPayments.size > 0 && newPayments.length > 0) {
+        add('payment-details-changed', 'high', `Payment details ${newPayments.join(', ')} differ from those given earlier (${Array.from(knownPayments).join(', ')}).`)
+      } else if (PAYMENT_CHANGE.test(message.body)) {
+        add('payment-details-changed', 'high', 'Announces new or changed payment instructions after the conversation started.')
+      }
+
+      const pressure = pressureScores[index] || 0
+      if (pressure >= suspiciousThreshold && peakPressure < suspiciousThreshold) {
+        add('urgency-escalation', 'medium', `Urgency and pressure rise sharply (score ${pressure}, previously at most ${peakPressure}).`)
+      }
+    }
+
+    if (identity) participants.add(identity)
+    if (address) addresses.set(address, message.sender)
+    if (address && name && !namesToAddress.has(name)) namesToAddress.set(name, address)
+    if (message.replyTo) replyTos.add(message.replyTo)
+    paymentIdentifiers(message.body).forEach(payment => knownPayments.add(payment))
+    peakPressure = Math.max(peakPressure, pressureScores[index] || 0)
+  })
+
+  return changes
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > 140 ? flat.slice(0, 140) + '…' : flat
+}
+
+export function summarizeThread(messages: ThreadMessage[], changes: ThreadChange[], risk: { riskLevel: RiskLevel, fraudScore: number, language?: string }[]): ThreadSummary {
+  return {
+    messages: messages.map((message, index) => ({
+      index,
+      sender: message.sender,
+      timestamp: message.timestamp,
+      subject: message.subject,
+      preview: preview(message.body),
+      ...risk[index]
+    })),
+    changes
+  }
+}
+
+/**
+ * The risk is attributed to the earliest message that the rules flag on its
+ * own or that carries a medium or high severity thread change.
+ */
+export function locateRiskIntroduction(summary: ThreadSummary, verdict: RiskLevel): ThreadSummary {
+  if (verdict === 'Safe') return summary
+  const candidates = [
+    ...summary.messages.filter(message => message.riskLevel !== 'Safe').map(message => message.index),
+    ...summary.changes.filter(change => change.severity !== 'low').map(change => change.messageIndex)
+  ]
+  return candidates.length > 0 ? { ...summary, riskIntroducedAt: Math.min(...candidates) } : summary
+}
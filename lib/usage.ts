@@ -0,0 +1,287 @@
+import fs from 'fs'
+import path from 'path'
+import defaultPricing from '../config/pricing.json'
+import { isLocalHost } from './network'
+import type { ProviderConfig, TokenUsage } from './providers'
+import { generateId, WorkspaceCollection } from './store'
+
+export type UsagePurpose = 'analysis' | 'repair' | 'reply'
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+export interface ModelPrice {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+export interface PriceTable {
+  currency: string
+  models: Record<string, ModelPrice>
+  default: ModelPrice
+  cloudDefault: ModelPrice
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string
+  at: string
+  provider: string
+  model: string
+  purpose: UsagePurpose
+  costUsd: number
+}
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface Budgets {
+  dailyUsd?: number
+  monthlyUsd?: number
+  source: 'workspace' | 'server'
+}
+
+export interface BudgetStatus {
+  exceeded?: BudgetPeriod
+  today: UsageTotals
+  month: UsageTotals
+  budgets: Budgets
+}
+
+export interface UsageReport extends BudgetStatus {
+  currency: string
+  days: (UsageTotals & { day: string })[]
+  models: (UsageTotals & { provider: string, model: string })[]
+}
+
+interface StoredBudgets {
+  id: string
+  dailyUsd?: number
+  monthlyUsd?: number
+  updatedAt: string
+}
+
+export class UsageInputError extends Error {}
+
+const BUDGETS_ID = 'budgets'
+// Priced like the most expensive model in the table, so budgets still trip on unknown ones.
+const CLOUD_DEFAULT_PRICE: ModelPrice = { inputPerMillion: 15, outputPerMillion: 75 }
+const REPORT_DAYS_LIMIT = 90
+
+const usage = new WorkspaceCollection<UsageRecord>('usage')
+const budgetSettings = new WorkspaceCollection<StoredBudgets>('usage-budgets')
+
+let cached: { file: string, mtimeMs: number, table: PriceTable } | null = null
+
+function pricingFilePath(): string {
+  return process.env.PRICING_FILE || path.join(process.cwd(), 'config', 'pricing.json')
+}
+
+function validPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice | null
+  return !!price && typeof price.inputPerMillion === 'number' && typeof price.outputPerMillion === 'number'
+}
+
+export function validatePriceTable(raw: unknown): PriceTable {
+  const candidate = raw as Partial<PriceTable> | null
+  if (!candidate || typeof candidate !== 'object') throw new Error('Invalid price table: expected an object')
+  if (!candidate.models || typeof candidate.models !== 'object') throw new Error('Invalid price table: models must be an object')
+  for (const [model, price] of Object.entries(candidate.models)) {
+    if (!validPrice(price)) throw new Error(`Invalid price for "${model}": inputPerMillion and outputPerMillion must be numbers`)
+  }
+  if (candidate.default !== undefined && !validPrice(candidate.default)) throw new Error('Invalid price table: default must be a price')
+  if (candidate.cloudDefault !== undefined && !validPrice(candidate.cloudDefault)) throw new Error('Invalid price table: cloudDefault must be a price')
+
+  return {
+    currency: candidate.currency || 'USD',
+    models: candidate.models,
+    default: candidate.default || { inputPerMillion: 0, outputPerMillion: 0 },
+    cloudDefault: candidate.cloudDefault || CLOUD_DEFAULT_PRICE
+  }
+}
+
+/**
+ * Prices per million tokens from PRICING_FILE (defaults to
+ * config/pricing.json); changes are picked up without a restart.
+ */
+export function loadPriceTable(): PriceTable {
+  const file = pricingFilePath()
+
+  try {
+    const { mtimeMs } = fs.statSync(file)
+    if (cached && cached.file === file && cached.mtimeMs === mtimeMs) return cached.table
+
+    const table = validatePriceTable(JSON.parse(fs.readFileSync(file, 'utf8')))
+    cached = { file, mtimeMs, table }
+    return table
+  } catch (error) {
+    console.error(`Failed to load prices from ${file}, using built-in defaults:`, error)
+    return validatePriceTable(defaultPricing)
+  }
+}
+
+function wildcard(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+}
+
+/**
+ * An exact model id wins, then the most specific "*" pattern. Undefined
+ * when nothing matches.
+ */
+export function priceFor(table: PriceTable, model: string): ModelPrice | undefined {
+  if (table.models[model]) return table.models[model]
+
+  const match = Object.keys(table.models)
+    .filter(pattern => pattern.includes('*') && wildcard(pattern).test(model))
+    .sort((a, b) => b.replace(/\*/g, '').length - a.replace(/\*/g, '').length)[0]
+  return match ? table.models[match] : undefined
+}
+
+// Unlisted models are free when they run locally and priced at cloudDefault otherwise.
+export function estimateCost(table: PriceTable, model: string, tokens: TokenUsage, local = false): number {
+  const price = priceFor(table, model) ?? (local ? table.default : table.cloudDefault)
+  return (tokens.inputTokens * price.inputPerMillion + tokens.outputTokens * price.outputPerMillion) / 1_000_000
+}
+
+// A provider on the server's own network, such as Ollama, costs nothing per token.
+function isLocalProvider(config: ProviderConfig): boolean {
+  try {
+    return !!config.baseUrl && isLocalHost(new URL(config.baseUrl).hostname)
+  } catch {
+    return false
+  }
+}
+
+const unpriced = new Set<string>()
+
+export function priceUsage(config: ProviderConfig, tokens: TokenUsage, purpose: UsagePurpose): UsageRecord {
+  const table = loadPriceTable()
+  const local = isLocalProvider(config)
+  if (!local && !priceFor(table, config.model) && !unpriced.has(config.model)) {
+    unpriced.add(config.model)
+    console.warn(`No price for model "${config.model}" in the price table; estimating its cost at the cloudDefault price`)
+  }
+
+  return {
+    id: generateId(),
+    at: new Date().toISOString(),
+    provider: config.id,
+    model: config.model,
+    purpose,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    ...(tokens.estimated && { estimated: true }),
+    costUsd: estimateCost(table, config.model, tokens, local)
+  }
+}
+
+// A failed write is logged rather than thrown, so it never fails an analysis.
+export async function recordUsage(workspaceId: string, records: UsageRecord[]) {
+  try {
+    for (const record of records) await usage.in(workspaceId).insert(record)
+  } catch (error) {
+    console.error('Failed to record token usage:', error)
+  }
+}
+
+function budgetEnv(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+/**
+ * A workspace's own budgets replace LLM_DAILY_BUDGET_USD and
+ * LLM_MONTHLY_BUDGET_USD. Unset means unlimited.
+ */
+export async function getBudgets(workspaceId: string): Promise<Budgets> {
+  const stored = await budgetSettings.in(workspaceId).get(BUDGETS_ID)
+  if (stored) return { dailyUsd: stored.dailyUsd, monthlyUsd: stored.monthlyUsd, source: 'workspace' }
+  return { dailyUsd: budgetEnv('LLM_DAILY_BUDGET_USD'), monthlyUsd: budgetEnv('LLM_MONTHLY_BUDGET_USD'), source: 'server' }
+}
+
+function readBudget(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new UsageInputError(`${field} must be a non-negative number`)
+  return value
+}
+
+export async function saveBudgets(workspaceId: string, input: unknown): Promise<Budgets> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const dailyUsd = readBudget(body.dailyUsd, 'dailyUsd')
+  const monthlyUsd = readBudget(body.monthlyUsd, 'monthlyUsd')
+
+  const collection = budgetSettings.in(workspaceId)
+  await collection.remove(BUDGETS_ID)
+  await collection.insert({ id: BUDGETS_ID, dailyUsd, monthlyUsd, updatedAt: new Date().toISOString() })
+  return getBudgets(workspaceId)
+}
+
+export async function resetBudgets(workspaceId: string): Promise<Budgets> {
+  await budgetSettings.in(workspaceId).remove(BUDGETS_ID)
+  return getBudgets(workspaceId)
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+}
+
+function add(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.costUsd += record.costUsd
+}
+
+// Days and months are UTC, so every server agrees on when a budget resets.
+function dayOf(iso: string): string {
+  return iso.slice(0, 10)
+}
+
+async function recordsSince(workspaceId: string, since: string): Promise<UsageRecord[]> {
+  return (await usage.in(workspaceId).all()).filter(record => record.at >= since)
+}
+
+export async function budgetStatus(workspaceId: string): Promise<BudgetStatus> {
+  const now = new Date().toISOString()
+  const today = dayOf(now)
+  const month = now.slice(0, 7)
+  const budgets = await getBudgets(workspaceId)
+
+  const totals = { today: emptyTotals(), month: emptyTotals() }
+  for (const record of await recordsSince(workspaceId, `${month}-01`)) {
+    add(totals.month, record)
+    if (dayOf(record.at) === today) add(totals.today, record)
+  }
+
+  let exceeded: BudgetPeriod | undefined
+  if (budgets.dailyUsd !== undefined && totals.today.costUsd >= budgets.dailyUsd) exceeded = 'daily'
+  if (budgets.monthlyUsd !== undefined && totals.month.costUsd >= budgets.monthlyUsd) exceeded = 'monthly'
+  return { ...totals, budgets, ...(exceeded && { exceeded }) }
+}
+
+export async function usageReport(workspaceId: string, days = 30): Promise<UsageReport> {
+  const span = Math.min(Math.max(days, 1), REPORT_DAYS_LIMIT)
+  const start = new Date(Date.now() - (span - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  const records = await recordsSince(workspaceId, start)
+
+  const byDay = new Map<string, UsageTotals>()
+  for (let time = Date.parse(start); dayOf(new Date(time).toISOString()) <= dayOf(new Date().toISOString()); time += 24 * 60 * 60 * 1000) {
+    byDay.set(dayOf(new Date(time).toISOString()), emptyTotals())
+  }
+  const byModel = new Map<string, UsageTotals & { provider: string, model: string }>()
+  for (const record of records) {
+    add(byDay.get(dayOf(record.at)) || emptyTotals(), record)
+    const key = `${record.provider}\u0000${record.model}`
+    if (!byModel.has(key)) byModel.set(key, { provider: record.provider, model: record.model, ...emptyTotals() })
+    add(byModel.get(key)!, record)
+  }
+
+  return {
+    ...await budgetStatus(workspaceId),
+    currency: loadPriceTable().currency,
+    days: Array.from(byDay, ([day, totals]) => ({ day, ...totals })),
+    models: Array.from(byModel.values()).sort((a, b) => b.costUsd - a.costUsd)
+  }
+}
@@ -0,0 +1,95 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { generateId, JsonCollection } from './store'
+
+export interface User {
+  id: string
+  email: string
+  name: string
+  passwordHash?: string
+  oidcSubject?: string
+  createdAt: string
+  lastLoginAt?: string
+}
+
+export type PublicUser = Pick<User, 'id' | 'email' | 'name'>
+
+export class AccountInputError extends Error {}
+
+const PASSWORD_MIN_LENGTH = 8
+const EMAIL = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/
+
+const users = new JsonCollection<User>('users')
+
+function hashWith(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 64, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  return `scrypt$${salt.toString('base64')}$${(await hashWith(password, salt)).toString('base64')}`
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || '').split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await hashWith(password, Buffer.from(salt, 'base64'))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export function publicUser(user: User): PublicUser {
+  return { id: user.id, email: user.email, name: user.name }
+}
+
+export function normalizeEmail(value: unknown): string {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  if (!EMAIL.test(email)) throw new AccountInputError('A valid email address is required')
+  return email
+}
+
+export function validatePassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length < PASSWORD_MIN_LENGTH) {
+    throw new AccountInputError(`Passwords need at least ${PASSWORD_MIN_LENGTH} characters`)
+  }
+  return value
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await users.all()).length > 0
+}
+
+export async function getUser(id: string): Promise<User | undefined> {
+  return users.get(id)
+}
+
+export async function findUserByEmail(email: string): Promise<User | undefined> {
+  return (await users.all()).find(user => user.email === email.toLowerCase())
+}
+
+export async function findUserByOidcSubject(subject: string): Promise<User | undefined> {
+  return (await users.all()).find(user => user.oidcSubject === subject)
+}
+
+/**
+ * Users without a password can only sign in with OIDC.
+ */
+export async function createUser(input: { email: string, name?: string, password?: string, oidcSubject?: string }): Promise<User> {
+  const email = normalizeEmail(input.email)
+  if (await findUserByEmail(email)) throw new AccountInputError(`A user with the email ${email} already exists`)
+
+  return users.insert({
+    id: generateId(),
+    email,
+    name: input.name?.trim() || email.split('@')[0],
+    ...(input.password !== undefined && { passwordHash: await hashPassword(validatePassword(input.password)) }),
+    ...(input.oidcSubject && { oidcSubject: input.oidcSubject }),
+    createdAt: new Date().toISOString()
+  })
+}
+
+export async function updateUser(id: string, patch: Partial<Omit<User, 'id' | 'createdAt'>>): Promise<User | undefined> {
+  return users.update(id, patch)
+}
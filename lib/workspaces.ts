@@ -0,0 +1,195 @@
+import { orderChain, ProviderFileEntry, ProvidersFile, providersFromFile } from './providers'
+import { Role, ROLES } from './roles'
+import { generateId, JsonCollection, WorkspaceCollection } from './store'
+import { AccountInputError, createUser, findUserByEmail, getUser, normalizeEmail, PublicUser, publicUser } from './users'
+
+export type { Role } from './roles'
+
+export interface Membership {
+  userId: string
+  role: Role
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  members: Membership[]
+  createdAt: string
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  role: Role
+}
+
+export interface WorkspaceMember extends PublicUser {
+  role: Role
+  passwordLogin: boolean
+}
+
+export type PublicProviderEntry = Omit<ProviderFileEntry, 'apiKey' | 'apiKeyEnv'> & { hasApiKey: boolean }
+
+export interface WorkspaceProviders {
+  source: 'workspace' | 'server'
+  chain?: string[]
+  providers: Record<string, PublicProviderEntry>
+}
+
+interface StoredProviders extends ProvidersFile {
+  id: string
+  updatedAt: string
+}
+
+const WORKSPACE_NAME_MAX_LENGTH = 80
+const PROVIDER_FIELDS = ['type', 'model', 'baseUrl', 'apiKey', 'temperature', 'maxTokens', 'timeoutMs', 'retries', 'retryBackoffMs', 'structuredOutput'] as const
+const PROVIDERS_ID = 'providers'
+
+const workspaces = new JsonCollection<Workspace>('workspaces')
+const providerSettings = new WorkspaceCollection<StoredProviders>('provider-settings')
+
+export function readRole(value: unknown, fallback?: Role): Role {
+  if (value === undefined && fallback) return fallback
+  if (!ROLES.includes(value as Role)) throw new AccountInputError(`Role must be one of: ${ROLES.join(', ')}`)
+  return value as Role
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | undefined> {
+  return workspaces.get(id)
+}
+
+export function roleIn(workspace: Workspace | undefined, userId: string): Role | undefined {
+  return workspace?.members.find(member => member.userId === userId)?.role
+}
+
+export async function workspacesFor(userId: string): Promise<WorkspaceSummary[]> {
+  return (await workspaces.all()).flatMap(workspace => {
+    const role = roleIn(workspace, userId)
+    return role ? [{ id: workspace.id, name: workspace.name, role }] : []
+  })
+}
+
+export async function createWorkspace(name: unknown, ownerId: string, id = generateId()): Promise<Workspace> {
+  const trimmed = typeof name === 'string' ? name.trim() : ''
+  if (!trimmed || trimmed.length > WORKSPACE_NAME_MAX_LENGTH) {
+    throw new AccountInputError(`Workspace names need 1 to ${WORKSPACE_NAME_MAX_LENGTH} characters`)
+  }
+
+  return workspaces.insert({ id, name: trimmed, members: [{ userId: ownerId, role: 'admin' }], createdAt: new Date().toISOString() })
+}
+
+async function requireWorkspace(workspaceId: string): Promise<Workspace> {
+  const workspace = await workspaces.get(workspaceId)
+  if (!workspace) throw new AccountInputError('Workspace not found')
+  return workspace
+}
+
+export async function listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const workspace = await requireWorkspace(workspaceId)
+  const members = await Promise.all(workspace.members.map(async member => {
+    const user = await getUser(member.userId)
+    return user && { ...publicUser(user), role: member.role, passwordLogin: !!user.passwordHash }
+  }))
+  return members.filter((member): member is WorkspaceMember => !!member)
+}
+
+/**
+ * Adds an existing user by email, or creates the account. New accounts
+ * without a password can only sign in through OIDC.
+ */
+export async function addMember(workspaceId: string, input: { email?: unknown, name?: unknown, role?: unknown, password?: unknown }): Promise<WorkspaceMember> {
+  const workspace = await requireWorkspace(workspaceId)
+  const email = normalizeEmail(input.email)
+  const role = readRole(input.role, 'analyst')
+  const password = typeof input.password === 'string' && input.password ? input.password : undefined
+
+  let user = await findUserByEmail(email)
+  if (user && roleIn(workspace, user.id)) throw new AccountInputError(`${email} is already a member`)
+  if (!user) user = await createUser({ email, name: typeof input.name === 'string' ? input.name : undefined, password })
+
+  await workspaces.update(workspaceId, { members: [...workspace.members, { userId: user.id, role }] })
+  return { ...publicUser(user), role, passwordLogin: !!user.passwordHash }
+}
+
+function keepsAnAdmin(members: Membership[]): boolean {
+  return members.some(member => member.role === 'admin')
+}
+
+export async function setMemberRole(workspaceId: string, userId: string, role: unknown): Promise<boolean> {
+  const workspace = await requireWorkspace(workspaceId)
+  if (!roleIn(workspace, userId)) return false
+
+  const members = workspace.members.map(member => member.userId === userId ? { ...member, role: readRole(role) } : member)
+  if (!keepsAnAdmin(members)) throw new AccountInputError('A workspace needs at least one admin')
+  await workspaces.update(workspaceId, { members })
+  return true
+}
+
+export async function removeMember(workspaceId: string, userId: string): Promise<boolean> {
+  const workspace = await requireWorkspace(workspaceId)
+  if (!roleIn(workspace, userId)) return false
+
+  const members = workspace.members.filter(member => member.userId !== userId)
+  if (!keepsAnAdmin(members)) throw new AccountInputError('A workspace needs at least one admin')
+  await workspaces.update(workspaceId, { members })
+  return true
+}
+
+/**
+ * The workspace's own provider configuration, in the providers file format.
+ * Undefined means the workspace uses the server-wide providers.
+ */
+export async function getWorkspaceProviders(workspaceId: string): Promise<ProvidersFile | undefined> {
+  const stored = await providerSettings.in(workspaceId).get(PROVIDERS_ID)
+  if (!stored) return undefined
+  const { id, updatedAt, ...config } = stored
+  return config
+}
+
+export async function describeWorkspaceProviders(workspaceId: string): Promise<WorkspaceProviders> {
+  const config = await getWorkspaceProviders(workspaceId)
+  if (!config) return { source: 'server', providers: {} }
+
+  const providers = Object.fromEntries(Object.entries(config.providers).map(([id, { apiKey, apiKeyEnv, ...entry }]) => [id, { ...entry, hasApiKey: !!apiKey }]))
+  return { source: 'workspace', chain: config.chain, providers }
+}
+
+/**
+ * Replaces the workspace's provider configuration. A provider sent without
+ * an apiKey keeps the key it already had, so keys never have to be re-entered
+ * or sent back to the browser.
+ */
+export async function saveWorkspaceProviders(workspaceId: string, input: unknown): Promise<WorkspaceProviders> {
+  const body = (input && typeof input === 'object' ? input : {}) as { chain?: unknown, providers?: unknown }
+  if (!body.providers || typeof body.providers !== 'object' || Array.isArray(body.providers)) {
+    throw new AccountInputError('providers must be an object keyed by provider id')
+  }
+  if (body.chain !== undefined && (!Array.isArray(body.chain) || body.chain.some(id => typeof id !== 'string'))) {
+    throw new AccountInputError('chain must be a list of provider ids')
+  }
+
+  const previous = await getWorkspaceProviders(workspaceId)
+  const providers: Record<string, ProviderFileEntry> = {}
+  for (const [id, value] of Object.entries(body.providers as Record<string, Record<string, unknown>>)) {
+    const entry = Object.fromEntries(PROVIDER_FIELDS.filter(field => value?.[field] !== undefined && value[field] !== '').map(field => [field, value[field]])) as ProviderFileEntry
+    providers[id] = { ...entry, apiKey: entry.apiKey ?? previous?.providers[id]?.apiKey }
+  }
+
+  const config: ProvidersFile = { providers, ...(Array.isArray(body.chain) && body.chain.length > 0 && { chain: body.chain as string[] }) }
+  try {
+    orderChain(providersFromFile(config, false), config.chain)
+  } catch (error) {
+    throw new AccountInputError(error instanceof Error ? error.message : 'Invalid provider configuration')
+  }
+
+  // Replaced rather than merged, so dropped providers and chains disappear.
+  const collection = providerSettings.in(workspaceId)
+  await collection.remove(PROVIDERS_ID)
+  await collection.insert({ id: PROVIDERS_ID, ...config, updatedAt: new Date().toISOString() })
+  return describeWorkspaceProviders(workspaceId)
+}
+
+export async function resetWorkspaceProviders(workspaceId: string): Promise<WorkspaceProviders> {
+  await providerSettings.in(workspaceId).remove(PROVIDERS_ID)
+  return describeWorkspaceProviders(workspaceId)
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Mirrors SESSION_COOKIE in lib/auth, which can't be imported into the edge runtime.
+const SESSION_COOKIE = 'bi_session'
+
+// Pages only check that a session cookie exists; the API routes they call
+// validate it and the account menu sends stale sessions back to /login.
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next()
+
+  const url = new URL('/login', request.url)
+  url.searchParams.set('returnTo', request.nextUrl.pathname)
+  return NextResponse.redirect(url)
+}
+
+export const config = {
+  matcher: ['/((?!login|api|_next|favicon.ico).*)']
+}
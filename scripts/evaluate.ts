@@ -0,0 +1,426 @@
+/**
+ * Runs the labeled corpus in fixtures/evaluation.json through every analysis
+ * path (the offline rules and each model provider) and reports per-class
+ * precision, recall and F1 for the risk level, a confusion matrix, intent
+ * accuracy, lead score error, latency and cost.
+ *
+ * Provider calls are replayed from fixtures/recordings/<provider>.json, so
+ * the whole run works offline, and a provider without a recording fails the
+ * run. The committed recordings are of a synthetic model that answers with
+ * the corpus labels: they cover the providers' request and response handling,
+ * not a model's accuracy, and are reported in "synthetic" mode. To record a real model, set the provider's API key
+ * (ANTHROPIC_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL) and run
+ * `npm run evaluate:record`. A recording whose request no longer matches,
+ * for example after a change to the system prompt, is still replayed but
+ * counted as stale until it is recorded again.
+ *
+ * Run with `npm run evaluate`. Options: `--paths fallback,claude`, `--out
+ * <dir>` (default evaluation/) and `--fail-under <macro F1>`.
+ */
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { AnalysisRequest, analyzeRequest } from '../lib/analyze'
+import { DEFAULT_MODELS } from '../lib/providers'
+import { Intent, RISK_LEVELS, RiskLevel } from '../lib/schema'
+import { DEFAULT_WORKSPACE_ID } from '../lib/store'
+
+interface EvaluationCase {
+  name: string
+  request: AnalysisRequest
+  expected: {
+    riskLevel: RiskLevel
+    intent: Intent
+    leadScore?: [number, number]
+  }
+}
+
+interface RecordedCall {
+  requestHash: string
+  status: number
+  contentType: string
+  body: string
+  ms: number
+}
+
+interface Recording {
+  provider: string
+  model: string
+  // Answers made up to exercise replay, not a model's; they measure nothing.
+  synthetic?: boolean
+  calls: Record<string, RecordedCall>
+}
+
+interface CaseResult {
+  name: string
+  expected: EvaluationCase['expected']
+  riskLevel?: RiskLevel
+  intent?: Intent
+  leadQualityScore?: number
+  latencyMs: number
+  costUsd: number
+  stale?: boolean
+  error?: string
+}
+
+interface ClassMetrics {
+  precision: number
+  recall: number
+  f1: number
+  support: number
+}
+
+interface PathReport {
+  path: string
+  model?: string
+  mode: 'offline' | 'replay' | 'synthetic' | 'record'
+  evaluated: number
+  errors: number
+  stale: number
+  risk: {
+    accuracy: number
+    macroF1: number
+    classes: Record<RiskLevel, ClassMetrics>
+    confusion: Record<RiskLevel, Record<RiskLevel, number>>
+  }
+  intentAccuracy: number
+  leadScore: { cases: number, withinRange: number, meanAbsoluteError: number }
+  latencyMs: { mean: number, p50: number, p95: number }
+  costUsd: { total: number, perMessage: number }
+  results: CaseResult[]
+}
+
+interface SkippedPath {
+  path: string
+  skipped: string
+}
+
+interface ProviderPath {
+  keyEnv: string
+  modelEnv: string
+  baseUrlEnv?: string
+}
+
+const PROVIDER_PATHS: Record<string, ProviderPath> = {
+  claude: { keyEnv: 'ANTHROPIC_API_KEY', modelEnv: 'ANTHROPIC_MODEL', baseUrlEnv: 'ANTHROPIC_BASE_URL' },
+  openai: { keyEnv: 'OPENAI_API_KEY', modelEnv: 'OPENAI_MODEL', baseUrlEnv: 'OPENAI_BASE_URL' },
+  local: { keyEnv: 'LOCAL_LLM_BASE_URL', modelEnv: 'LOCAL_LLM_MODEL' }
+}
+
+// Server-wide settings that would make results depend on the machine running the corpus.
+const SERVER_SETTINGS_ENV = ['PROVIDER_CHAIN', 'LLM_DAILY_BUDGET_USD', 'LLM_MONTHLY_BUDGET_USD', 'COMPANY_DOMAINS', 'EXECUTIVE_NAMES', 'TRUSTED_BRANDS']
+
+const REPLAY_BASE_URL = 'http://replay.localhost/v1'
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures')
+const RECORDINGS_DIR = path.join(FIXTURES_DIR, 'recordings')
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function hashRequest(body: unknown): string {
+  return createHash('sha256').update(typeof body === 'string' ? body : JSON.stringify(body ?? '')).digest('hex').slice(0, 16)
+}
+
+function recordingPath(provider: string): string {
+  return path.join(RECORDINGS_DIR, `${provider}.json`)
+}
+
+function readRecording(provider: string): Recording | undefined {
+  const file = recordingPath(provider)
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : undefined
+}
+
+/**
+ * Stands in for fetch while a provider path runs. Calls are keyed by case
+ * name and their order within the case, so an analysis and its repair
+ * request replay in sequence.
+ */
+class CallRecorder {
+  private caseName = ''
+  private callIndex = 0
+  replayedMs = 0
+  stale = false
+  missing?: string
+
+  constructor(private mode: 'replay' | 'record', private recording: Recording, private realFetch: typeof fetch) {}
+
+  startCase(name: string) {
+    this.caseName = name
+    this.callIndex = 0
+    this.replayedMs = 0
+    this.stale = false
+    this.missing = undefined
+  }
+
+  fetch: typeof fetch = async (input, init) => {
+    const key = `${this.caseName}#${this.callIndex++}`
+    const requestHash = hashRequest(init?.body)
+
+    if (this.mode === 'record') {
+      const started = Date.now()
+      const response = await this.realFetch(input, init)
+      const body = await response.text()
+      this.recording.calls[key] = {
+        requestHash,
+        status: response.status,
+        contentType: response.headers.get('content-type') || 'application/json',
+        body,
+        ms: Date.now() - started
+      }
+      return new Response(body, { status: response.status, headers: { 'Content-Type': this.recording.calls[key].contentType } })
+    }
+
+    const call = this.recording.calls[key]
+    if (!call) {
+      this.missing = `no recording for ${key}`
+      throw new Error(this.missing)
+    }
+    if (call.requestHash !== requestHash) this.stale = true
+    this.replayedMs += call.ms
+    return new Response(call.body, { status: call.status, headers: { 'Content-Type': call.contentType } })
+  }
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)]
+}
+
+function leadError(score: number, [min, max]: [number, number]): number {
+  if (score < min) return min - score
+  if (score > max) return score - max
+  return 0
+}
+
+function summarize(pathName: string, mode: PathReport['mode'], model: string | undefined, results: CaseResult[]): PathReport {
+  const scored = results.filter(result => !result.error && result.riskLevel)
+  const confusion = Object.fromEntries(RISK_LEVELS.map(expected => [
+    expected,
+    Object.fromEntries(RISK_LEVELS.map(predicted => [predicted, 0]))
+  ])) as PathReport['risk']['confusion']
+  for (const result of scored) confusion[result.expected.riskLevel][result.riskLevel!]++
+
+  const classes = Object.fromEntries(RISK_LEVELS.map(level => {
+    const truePositives = confusion[level][level]
+    const predicted = RISK_LEVELS.reduce((sum, expected) => sum + confusion[expected][level], 0)
+    const support = RISK_LEVELS.reduce((sum, actual) => sum + confusion[level][actual], 0)
+    const precision = predicted > 0 ? truePositives / predicted : 0
+    const recall = support > 0 ? truePositives / support : 0
+    const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0
+    return [level, { precision: round(precision), recall: round(recall), f1: round(f1), support }]
+  })) as Record<RiskLevel, ClassMetrics>
+
+  const present = RISK_LEVELS.filter(level => classes[level].support > 0)
+  const leadCases = scored.filter(result => result.expected.leadScore)
+  const leadErrors = leadCases.map(result => leadError(result.leadQualityScore ?? 0, result.expected.leadScore!))
+  const latencies = scored.map(result => result.latencyMs).sort((a, b) => a - b)
+  const totalCost = scored.reduce((sum, result) => sum + result.costUsd, 0)
+  const rate = (count: number) => scored.length > 0 ? round(count / scored.length) : 0
+
+  return {
+    path: pathName,
+    ...(model && { model }),
+    mode,
+    evaluated: scored.length,
+    errors: results.length - scored.length,
+    stale: results.filter(result => result.stale).length,
+    risk: {
+      accuracy: rate(scored.filter(result => result.riskLevel === result.expected.riskLevel).length),
+      macroF1: present.length > 0 ? round(present.reduce((sum, level) => sum + classes[level].f1, 0) / present.length) : 0,
+      classes,
+      confusion
+    },
+    intentAccuracy: rate(scored.filter(result => result.intent === result.expected.intent).length),
+    leadScore: {
+      cases: leadCases.length,
+      withinRange: leadErrors.filter(error => error === 0).length,
+      meanAbsoluteError: leadErrors.length > 0 ? round(leadErrors.reduce((sum, error) => sum + error, 0) / leadErrors.length, 2) : 0
+    },
+    latencyMs: {
+      mean: latencies.length > 0 ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length) : 0,
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95)
+    },
+    costUsd: { total: round(totalCost, 6), perMessage: scored.length > 0 ? round(totalCost / scored.length, 6) : 0 },
+    results
+  }
+}
+
+async function runCases(cases: EvaluationCase[], pathName: string, recorder?: CallRecorder): Promise<CaseResult[]> {
+  const results: CaseResult[] = []
+
+  for (const testCase of cases) {
+    recorder?.startCase(testCase.name)
+    const started = Date.now()
+    const base = { name: testCase.name, expected: testCase.expected }
+
+    try {
+      const result = await analyzeRequest(DEFAULT_WORKSPACE_ID, testCase.request)
+      const latencyMs = Date.now() - started + (recorder?.replayedMs ?? 0)
+      const fellBack = pathName !== 'fallback' && result.provider !== pathName
+      results.push({
+        ...base,
+        ...(!fellBack && { riskLevel: result.riskLevel, intent: result.intent?.primary, leadQualityScore: result.leadQualityScore }),
+        latencyMs,
+        costUsd: result.usage?.costUsd ?? 0,
+        ...(recorder?.stale && { stale: true }),
+        ...(fellBack && { error: recorder?.missing || `answered by ${result.provider}` })
+      })
+    } catch (error) {
+      results.push({ ...base, latencyMs: Date.now() - started, costUsd: 0, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return results
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!)
+}
+
+function renderHtml(reports: (PathReport | SkippedPath)[]): string {
+  const sections = reports.map(report => {
+    if ('skipped' in report) return `<h2>${escapeHtml(report.path)}</h2><p>Skipped: ${escapeHtml(report.skipped)}</p>`
+
+    const classRows = RISK_LEVELS.map(level => {
+      const metrics = report.risk.classes[level]
+      return `<tr><td>${level}</td><td>${metrics.precision}</td><td>${metrics.recall}</td><td>${metrics.f1}</td><td>${metrics.support}</td></tr>`
+    }).join('')
+    const confusionRows = RISK_LEVELS.map(expected => `<tr><th>${expected}</th>${RISK_LEVELS.map(predicted => {
+      const count = report.risk.confusion[expected][predicted]
+      return `<td class="${expected === predicted ? 'hit' : count > 0 ? 'miss' : ''}">${count}</td>`
+    }).join('')}</tr>`).join('')
+    const misses = report.results.filter(result => result.error || result.riskLevel !== result.expected.riskLevel || result.intent !== result.expected.intent)
+    const missRows = misses.map(result => `<tr><td>${escapeHtml(result.name)}</td><td>${result.expected.riskLevel} / ${result.expected.intent}</td><td>${result.error ? `error: ${escapeHtml(result.error)}` : `${result.riskLevel} / ${result.intent}`}</td></tr>`).join('')
+
+    return `<h2>${escapeHtml(report.path)}${report.model ? ` &middot; ${escapeHtml(report.model)}` : ''} <small>(${report.mode})</small></h2>
+${report.mode === 'synthetic' ? '<p><strong>Synthetic recording:</strong> its answers are the corpus labels, so accuracy, latency and cost say nothing about a real model.</p>\n' : ''}<p>${report.evaluated} evaluated, ${report.errors} errors, ${report.stale} stale recordings.
+Risk accuracy ${report.risk.accuracy}, macro F1 ${report.risk.macroF1}. Intent accuracy ${report.intentAccuracy}.
+Lead score within range ${report.leadScore.withinRange}/${report.leadScore.cases}, mean absolute error ${report.leadScore.meanAbsoluteError}.
+Latency mean ${report.latencyMs.mean} ms, p95 ${report.latencyMs.p95} ms. Cost $${report.costUsd.total} ($${report.costUsd.perMessage} per message).</p>
+<table><tr><th>Risk level</th><th>Precision</th><th>Recall</th><th>F1</th><th>Support</th></tr>${classRows}</table>
+<table><tr><th>Expected \\ Predicted</th>${RISK_LEVELS.map(level => `<th>${level}</th>`).join('')}</tr>${confusionRows}</table>
+${misses.length > 0 ? `<table><tr><th>Case</th><th>Expected</th><th>Got</th></tr>${missRows}</table>` : '<p>No mismatches.</p>'}`
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Analysis evaluation</title>
+<style>body{font-family:system-ui,sans-serif;margin:2rem;color:#0f172a}table{border-collapse:collapse;margin:1rem 0}th,td{border:1px solid #cbd5e1;padding:4px 10px;text-align:left}.hit{background:#dcfce7}.miss{background:#fee2e2}small{color:#64748b}</style>
+</head><body><h1>Analysis evaluation</h1>
+${sections}
+</body></html>
+`
+}
+
+function printSummary(report: PathReport | SkippedPath) {
+  if ('skipped' in report) {
+    console.log(`skip ${report.path}: ${report.skipped}`)
+    return
+  }
+  const label = report.mode === 'synthetic' ? ' (synthetic recording, not a real model)' : ''
+  console.log(`${report.path.padEnd(9)} risk acc ${report.risk.accuracy} macro F1 ${report.risk.macroF1} | intent acc ${report.intentAccuracy} | lead MAE ${report.leadScore.meanAbsoluteError} | p50 ${report.latencyMs.p50} ms | $${report.costUsd.total} | ${report.errors} errors, ${report.stale} stale${label}`)
+}
+
+async function main() {
+  const record = process.argv.includes('--record')
+  const outDir = path.resolve(option('out') || 'evaluation')
+  const failUnder = option('fail-under') !== undefined ? Number(option('fail-under')) : undefined
+  const requested = option('paths')?.split(',').map(name => name.trim()).filter(Boolean)
+  const unknown = (requested || []).filter(name => name !== 'fallback' && !PROVIDER_PATHS[name])
+  if (unknown.length > 0) throw new Error(`Unknown analysis path: ${unknown.join(', ')}. Use fallback, ${Object.keys(PROVIDER_PATHS).join(', ')}`)
+
+  const cases: EvaluationCase[] = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'evaluation.json'), 'utf8'))
+  const dataDir = mkdtempSync(path.join(tmpdir(), 'bi-evaluation-'))
+  const originalEnv = { ...process.env }
+  const realFetch = globalThis.fetch
+  const reports: (PathReport | SkippedPath)[] = []
+
+  const resetEnv = () => {
+    for (const name of Object.keys(process.env)) {
+      if (!(name in originalEnv)) delete process.env[name]
+    }
+    Object.assign(process.env, originalEnv, {
+      DATA_DIR: dataDir,
+      PROVIDERS_FILE: path.join(dataDir, 'providers.json'),
+      LLM_RETRIES: '0'
+    })
+    for (const name of SERVER_SETTINGS_ENV) delete process.env[name]
+  }
+
+  try {
+    for (const pathName of requested || ['fallback', ...Object.keys(PROVIDER_PATHS)]) {
+      resetEnv()
+
+      if (pathName === 'fallback') {
+        for (const provider of Object.values(PROVIDER_PATHS)) delete process.env[provider.keyEnv]
+        const report = summarize(pathName, 'offline', undefined, await runCases(cases, pathName))
+        reports.push(report)
+        printSummary(report)
+        continue
+      }
+
+      const { keyEnv, modelEnv, baseUrlEnv } = PROVIDER_PATHS[pathName]
+      const existing = readRecording(pathName)
+      const skipped = record
+        ? !originalEnv[keyEnv] && `${keyEnv} is not set`
+        : !existing && `no recordings in fixtures/recordings/${pathName}.json`
+      if (skipped) {
+        reports.push({ path: pathName, skipped })
+        printSummary({ path: pathName, skipped })
+        continue
+      }
+
+      const model = record ? originalEnv[modelEnv] || DEFAULT_MODELS[pathName] : existing!.model
+      const recording: Recording = record ? { provider: pathName, model, calls: {} } : existing!
+      const recorder = new CallRecorder(record ? 'record' : 'replay', recording, realFetch)
+      process.env.PROVIDER_CHAIN = pathName
+      process.env[modelEnv] = model
+      if (!record) process.env[keyEnv] = pathName === 'local' ? REPLAY_BASE_URL : 'replay'
+      // A replay stands for the provider's public endpoint, whatever proxy this machine uses.
+      if (!record && baseUrlEnv) delete process.env[baseUrlEnv]
+
+      globalThis.fetch = recorder.fetch
+      try {
+        const mode = record ? 'record' : recording.synthetic ? 'synthetic' : 'replay'
+        const report = summarize(pathName, mode, model, await runCases(cases, pathName, recorder))
+        reports.push(report)
+        printSummary(report)
+      } finally {
+        globalThis.fetch = realFetch
+      }
+
+      if (record) {
+        mkdirSync(RECORDINGS_DIR, { recursive: true })
+        writeFileSync(recordingPath(pathName), JSON.stringify(recording, null, 2) + '\n')
+      }
+    }
+  } finally {
+    process.env = originalEnv
+    rmSync(dataDir, { recursive: true, force: true })
+  }
+
+  mkdirSync(outDir, { recursive: true })
+  writeFileSync(path.join(outDir, 'report.json'), JSON.stringify({ corpus: 'fixtures/evaluation.json', cases: cases.length, paths: reports }, null, 2) + '\n')
+  writeFileSync(path.join(outDir, 'report.html'), renderHtml(reports))
+  console.log(`\nReport written to ${path.relative(process.cwd(), outDir) || '.'}/report.json and report.html`)
+
+  // Without its recording a provider path isn't evaluated at all, which must not pass unnoticed.
+  const missing = record ? [] : reports.filter((report): report is SkippedPath => 'skipped' in report)
+  const below = reports.filter((report): report is PathReport => !('skipped' in report) && failUnder !== undefined && report.risk.macroF1 < failUnder)
+  missing.forEach(report => console.log(`FAIL ${report.path}: ${report.skipped}`))
+  below.forEach(report => console.log(`FAIL ${report.path}: macro F1 ${report.risk.macroF1} is below ${failUnder}`))
+  process.exitCode = missing.length + below.length > 0 ? 1 : 0
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,36 @@
+/**
+ * Polls the configured IMAP mailbox and runs new messages through the same
+ * analysis pipeline as /api/analyze. Settings come from the IMAP_* variables
+ * in the environment; pass --once to poll a single time and exit.
+ *
+ * Run with `npm run ingest:imap`.
+ */
+import { imapConfigFromEnv, pollMailbox } from '../lib/imap'
+
+const POLL_INTERVAL_MS = parseInt(process.env.IMAP_POLL_INTERVAL_MS || '60000')
+
+async function main() {
+  const config = imapConfigFromEnv()
+  if (!config) {
+    console.error('Set IMAP_HOST, IMAP_USER and IMAP_PASSWORD to poll a mailbox')
+    process.exitCode = 1
+    return
+  }
+
+  const once = process.argv.includes('--once')
+
+  for (;;) {
+    try {
+      const summary = await pollMailbox(config)
+      console.log(`${new Date().toISOString()} ${summary.mailbox}: ${summary.fetched} fetched, ${summary.analyzed} analyzed, ${summary.duplicates} duplicates, ${summary.failed} skipped`)
+    } catch (error) {
+      console.error('IMAP poll failed:', error)
+      if (once) process.exitCode = 1
+    }
+
+    if (once) return
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+main()
@@ -0,0 +1,193 @@
+/**
+ * Checks inbound-email ingestion without outside services. Webhook fixtures
+ * in the payload shapes of common mail gateways are ingested twice, then a
+ * fake IMAP server serves the fixture mailbox to the poller. Every message
+ * must be analyzed exactly once per Message-ID, whichever channel it came from,
+ * and a second workspace must not see the first one's messages.
+ *
+ * Run with `npm run test:ingest`.
+ */
+import { createServer, Socket } from 'net'
+import { AddressInfo } from 'net'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { queryHistory } from '../lib/history'
+import { ImapConfig, pollMailbox } from '../lib/imap'
+import { ingestEmail, normalizeWebhookPayload } from '../lib/ingest'
+import { DEFAULT_WORKSPACE_ID } from '../lib/store'
+
+interface IngestFixtures {
+  webhooks: {
+    name: string
+    payload: unknown
+    expected: { messageId: string, riskLevel: string }
+  }[]
+  mailbox: {
+    name: string
+    raw: string
+    expected: { status: 'analyzed' | 'duplicate' }
+  }[]
+}
+
+const PROVIDER_ENV = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'LOCAL_LLM_BASE_URL', 'PROVIDER_CHAIN']
+const IMAP_USER = 'triage@example.com'
+const IMAP_PASSWORD = 'pa"ss\\word'
+
+let failures = 0
+
+function check(name: string, problems: (string | false)[]) {
+  const failed = problems.filter(Boolean)
+  if (failed.length > 0) failures++
+  console.log(`${failed.length > 0 ? 'FAIL' : 'ok  '} ${name}${failed.length > 0 ? `: ${failed.join(', ')}` : ''}`)
+}
+
+/**
+ * Serves one folder over plain IMAP with the handful of commands the poller
+ * uses, numbering messages with UIDs starting at 101.
+ */
+function startFakeImap(messages: string[]): Promise<{ port: number, close: () => void }> {
+  const server = createServer((socket: Socket) => {
+    let pending = ''
+    const send = (line: string) => socket.write(`${line}\r\n`)
+    send('* OK fake IMAP ready')
+
+    socket.on('data', chunk => {
+      pending += chunk.toString('utf8')
+      let end: number
+      while ((end = pending.indexOf('\r\n')) !== -1) {
+        const line = pending.slice(0, end)
+        pending = pending.slice(end + 2)
+        const [tag, ...words] = line.split(' ')
+        const command = words.join(' ')
+
+        if (/^LOGIN /i.test(command)) {
+          send(command === `LOGIN "${IMAP_USER}" "pa\\"ss\\\\word"` ? `${tag} OK LOGIN completed` : `${tag} NO invalid credentials`)
+        } else if (/^SELECT "INBOX"$/i.test(command)) {
+          send(`* ${messages.length} EXISTS`)
+          send('* OK [UIDVALIDITY 42] UIDs valid')
+          send(`${tag} OK [READ-WRITE] SELECT completed`)
+        } else if (/^UID SEARCH UID (\d+):\*$/i.test(command)) {
+          const from = parseInt(command.match(/(\d+):\*/)![1])
+          const uids = messages.map((_, index) => 101 + index)
+          const found = uids.filter(uid => uid >= from)
+          send(`* SEARCH ${(found.length > 0 ? found : uids.slice(-1)).join(' ')}`)
+          send(`${tag} OK SEARCH completed`)
+        } else if (/^UID FETCH (\d+) \(BODY\.PEEK\[\]\)$/i.test(command)) {
+          const uid = parseInt(command.match(/FETCH (\d+)/)![1])
+          const raw = Buffer.from(messages[uid - 101].replace(/\r?\n/g, '\r\n'))
+          socket.write(`* ${uid - 100} FETCH (UID ${uid} BODY[] {${raw.length}}\r\n`)
+          socket.write(raw)
+          send(')')
+          send(`${tag} OK FETCH completed`)
+        } else if (/^LOGOUT$/i.test(command)) {
+          send('* BYE logging out')
+          send(`${tag} OK LOGOUT completed`)
+          socket.end()
+        } else {
+          send(`${tag} BAD unsupported command`)
+        }
+      }
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ port: (server.address() as AddressInfo).port, close: () => server.close() })
+    })
+  })
+}
+
+async function checkWebhooks(fixtures: IngestFixtures) {
+  for (const testCase of fixtures.webhooks) {
+    const raw = normalizeWebhookPayload(testCase.payload)
+    const first = await ingestEmail(DEFAULT_WORKSPACE_ID, raw, 'webhook')
+    const again = await ingestEmail(DEFAULT_WORKSPACE_ID, normalizeWebhookPayload(testCase.payload), 'webhook')
+
+    check(`[webhook] ${testCase.name}`, [
+      first.status !== 'analyzed' && `first delivery was ${first.status}`,
+      first.messageId !== testCase.expected.messageId && `Message-ID ${first.messageId}`,
+      first.riskLevel !== testCase.expected.riskLevel && `risk ${first.riskLevel}, expected ${testCase.expected.riskLevel}`,
+      again.status !== 'duplicate' && 'redelivery was analyzed again',
+      again.historyId !== first.historyId && 'redelivery pointed at another history record'
+    ])
+  }
+
+  const concurrent = normalizeWebhookPayload({ from: 'a@example.org', subject: 'Same time', text: 'Delivered twice at once.', messageId: 'concurrent-1@example.org' })
+  const outcomes = await Promise.all([ingestEmail(DEFAULT_WORKSPACE_ID, concurrent, 'webhook'), ingestEmail(DEFAULT_WORKSPACE_ID, concurrent, 'webhook')])
+  check('[webhook] concurrent redelivery', [
+    outcomes.filter(outcome => outcome.status === 'analyzed').length !== 1 && 'expected exactly one analysis'
+  ])
+}
+
+async function checkImap(fixtures: IngestFixtures) {
+  const server = await startFakeImap(fixtures.mailbox.map(message => message.raw))
+  const config: ImapConfig = {
+    host: '127.0.0.1',
+    port: server.port,
+    secure: false,
+    user: IMAP_USER,
+    password: IMAP_PASSWORD,
+    mailbox: 'INBOX',
+    markSeen: false,
+    timeoutMs: 5000,
+    workspaceId: DEFAULT_WORKSPACE_ID
+  }
+
+  try {
+    const expectedAnalyzed = fixtures.mailbox.filter(message => message.expected.status === 'analyzed').length
+    const first = await pollMailbox(config)
+    check('[imap] first poll', [
+      first.fetched !== fixtures.mailbox.length && `fetched ${first.fetched}`,
+      first.analyzed !== expectedAnalyzed && `analyzed ${first.analyzed}, expected ${expectedAnalyzed}`,
+      first.duplicates !== fixtures.mailbox.length - expectedAnalyzed && `${first.duplicates} duplicates`
+    ])
+
+    const second = await pollMailbox(config)
+    check('[imap] second poll', [second.fetched !== 0 && `fetched ${second.fetched} already polled messages`])
+
+    const bad = await pollMailbox({ ...config, password: 'wrong' }).then(() => 'accepted', (error: Error) => error.message)
+    check('[imap] rejected login', [
+      bad === 'accepted' && 'poll succeeded with a wrong password',
+      bad.includes('wrong') && 'error message leaked the password'
+    ])
+  } finally {
+    server.close()
+  }
+}
+
+async function main() {
+  const fixtures: IngestFixtures = JSON.parse(readFileSync(path.join(process.cwd(), 'fixtures', 'ingest.json'), 'utf8'))
+  const dataDir = mkdtempSync(path.join(tmpdir(), 'bi-ingest-'))
+  process.env.DATA_DIR = dataDir
+  process.env.PROVIDERS_FILE = path.join(dataDir, 'providers.json')
+  for (const name of PROVIDER_ENV) delete process.env[name]
+
+  try {
+    await checkWebhooks(fixtures)
+    await checkImap(fixtures)
+
+    const { records } = await queryHistory(DEFAULT_WORKSPACE_ID, { limit: 500 })
+    const expected = fixtures.webhooks.length + 1 + fixtures.mailbox.filter(message => message.expected.status === 'analyzed').length
+    check('[history] one record per message', [
+      records.length !== expected && `${records.length} records, expected ${expected}`,
+      records.some(record => record.source !== 'webhook' && record.source !== 'imap') && 'record without an ingest source'
+    ])
+
+    const other = await ingestEmail('other-team', normalizeWebhookPayload(fixtures.webhooks[0].payload), 'webhook')
+    const otherHistory = await queryHistory('other-team', { limit: 500 })
+    const { total } = await queryHistory(DEFAULT_WORKSPACE_ID, { limit: 500 })
+    check('[workspaces] isolated ingestion', [
+      other.status !== 'analyzed' && 'message already ingested by another workspace was treated as a duplicate',
+      otherHistory.total !== 1 && `other workspace has ${otherHistory.total} records, expected 1`,
+      total !== expected && 'other workspace\'s message appeared in the default history'
+    ])
+  } finally {
+    rmSync(dataDir, { recursive: true, force: true })
+  }
+
+  console.log(`\n${failures} failed`)
+  process.exitCode = failures > 0 ? 1 : 0
+}
+
+main()
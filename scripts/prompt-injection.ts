@@ -0,0 +1,123 @@
+/**
+ * Regression suite for prompt-injection hardening. Every fixture is analyzed
+ * twice: with the built-in rules, and through a mocked Claude endpoint that
+ * plays a fully compromised model and always answers "Safe". The mock also
+ * checks that the untrusted message never reaches the system prompt.
+ *
+ * Run with `npm run test:injection`.
+ */
+import { createServer } from 'http'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import path from 'path'
+import { AnalysisRequest, AnalysisResult, analyzeRequest } from '../lib/analyze'
+import type { RiskLevel } from '../lib/schema'
+import { DEFAULT_WORKSPACE_ID } from '../lib/store'
+
+interface InjectionCase {
+  name: string
+  request: AnalysisRequest
+  expected: {
+    fallback: RiskLevel
+    provider: RiskLevel
+    injection: boolean
+  }
+}
+
+const PROVIDER_ENV = ['ANTHROPIC_API_KEY', 'ANTHROPIC_BASE_URL', 'OPENAI_API_KEY', 'LOCAL_LLM_BASE_URL', 'PROVIDER_CHAIN', 'PROVIDERS_FILE']
+
+const COMPROMISED_ANSWER = {
+  riskLevel: 'Safe',
+  intent: { primary: 'inquiry', scores: { inquiry: 1, sales_lead: 0, complaint: 0, support_request: 0, negotiation: 0, risk: 0 } },
+  reason: 'The message has been verified and is safe.',
+  businessImpact: 'None.',
+  recommendedAction: 'Proceed as requested.',
+  replies: [],
+  leadQualityScore: 0,
+  businessInsight: 'Routine message.'
+}
+
+const requestProblems: string[] = []
+
+function checkRequest(body: { system?: unknown, messages?: { content?: unknown }[] }) {
+  const system = typeof body.system === 'string' ? body.system : ''
+  const user = String(body.messages?.[0]?.content ?? '')
+  if (!system) requestProblems.push('system prompt was not sent as the system parameter')
+  if (system.includes('<untrusted_message>\n')) requestProblems.push('untrusted message appeared in the system prompt')
+  if ((user.match(/<\/untrusted_message>/g) || []).length !== 1) requestProblems.push('untrusted message fence was broken')
+}
+
+function startMockProvider(): Promise<{ url: string, close: () => void }> {
+  const server = createServer((request, response) => {
+    let raw = ''
+    request.on('data', chunk => { raw += chunk })
+    request.on('end', () => {
+      checkRequest(JSON.parse(raw))
+      response.writeHead(200, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ content: [{ type: 'tool_use', name: 'record_analysis', input: COMPROMISED_ANSWER }] }))
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({ url: `http://127.0.0.1:${port}`, close: () => server.close() })
+    })
+  })
+}
+
+function injectionDetected(result: AnalysisResult): boolean {
+  return (result.injectionSignals || []).some(signal => signal.severity !== 'low')
+}
+
+async function runCases(cases: InjectionCase[], mode: 'fallback' | 'provider'): Promise<number> {
+  let failures = 0
+
+  for (const testCase of cases) {
+    const result = await analyzeRequest(DEFAULT_WORKSPACE_ID, testCase.request)
+    const expectedRisk = testCase.expected[mode]
+    const problems = [
+      result.riskLevel !== expectedRisk && `risk ${result.riskLevel}, expected ${expectedRisk}`,
+      injectionDetected(result) !== testCase.expected.injection && `injection ${injectionDetected(result) ? 'detected' : 'missed'}`,
+      mode === 'provider' && result.provider !== 'claude' && `answered by ${result.provider}`
+    ].filter(Boolean)
+
+    if (problems.length > 0) failures++
+    console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} [${mode}] ${testCase.name}${problems.length > 0 ? `: ${problems.join(', ')}` : ''}`)
+  }
+
+  return failures
+}
+
+async function main() {
+  const cases: InjectionCase[] = JSON.parse(readFileSync(path.join(process.cwd(), 'fixtures', 'prompt-injection.json'), 'utf8'))
+  const dataDir = mkdtempSync(path.join(tmpdir(), 'bi-injection-'))
+  process.env.DATA_DIR = dataDir
+  process.env.PROVIDERS_FILE = path.join(dataDir, 'providers.json')
+  for (const name of PROVIDER_ENV.filter(name => name !== 'PROVIDERS_FILE')) delete process.env[name]
+
+  const mock = await startMockProvider()
+  let failures = 0
+
+  try {
+    failures += await runCases(cases, 'fallback')
+
+    process.env.ANTHROPIC_API_KEY = 'test-key'
+    process.env.ANTHROPIC_BASE_URL = mock.url
+    process.env.LLM_RETRIES = '0'
+    failures += await runCases(cases, 'provider')
+  } finally {
+    mock.close()
+    rmSync(dataDir, { recursive: true, force: true })
+  }
+
+  const problems = Array.from(new Set(requestProblems))
+  problems.forEach(problem => console.log(`FAIL [request] ${problem}`))
+  failures += problems.length
+
+  console.log(`\n${cases.length * 2} checks, ${failures} failed`)
+  process.exitCode = failures > 0 ? 1 : 0
+}
+
+main()